@@ -5,8 +5,9 @@
 // It sets up fonts, splash screen, and navigation.
 
 import React, { useCallback, useEffect, useState } from 'react';
-import { View, StyleSheet, StatusBar } from 'react-native';
+import { StyleSheet, StatusBar } from 'react-native';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
+import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import * as SplashScreen from 'expo-splash-screen';
 import {
   useFonts,
@@ -76,7 +77,7 @@ export default function App() {
   }
 
   return (
-    <View style={styles.container} onLayout={onLayoutRootView}>
+    <GestureHandlerRootView style={styles.container} onLayout={onLayoutRootView}>
       <StatusBar
         barStyle="light-content"
         backgroundColor={COLORS.legoRed}
@@ -84,7 +85,7 @@ export default function App() {
       <SafeAreaProvider>
         <AppNavigator />
       </SafeAreaProvider>
-    </View>
+    </GestureHandlerRootView>
   );
 }
 
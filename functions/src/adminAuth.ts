@@ -0,0 +1,266 @@
+/**
+ * Admin credentials and audit log
+ *
+ * Admin endpoints take named keys from the admin_keys collection instead
+ * of one shared secret. A key is presented as "<keyId>.<secret>"; only a
+ * SHA-256 of the secret is stored, next to the key's scopes and expiry.
+ * Keys are created, rotated and revoked at runtime, so changing them
+ * needs no redeploy. APP_API_KEY remains only as a bootstrap credential
+ * for managing keys. Every admin request, allowed or not, is written to
+ * admin_audit_log.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { createHash, randomBytes, timingSafeEqual } from "crypto";
+import { db } from "./db";
+import { AdminAuditEntry, AdminKey, AdminScope } from "./types";
+
+const KEYS_COLLECTION = "admin_keys";
+const AUDIT_COLLECTION = "admin_audit_log";
+
+export const ADMIN_SCOPES: AdminScope[] = ["catalog:write", "prices:write", "push:send", "keys:manage"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest lifetime a key can be created with
+export const MAX_KEY_TTL_DAYS = 365;
+// Audit entries are kept this long
+const AUDIT_RETENTION_DAYS = 180;
+// Secret length in bytes (hex encoded in the credential)
+const SECRET_BYTES = 32;
+
+// Bootstrap credential, only accepted for keys:manage
+const BOOTSTRAP_KEY = process.env.APP_API_KEY || "";
+
+/**
+ * Outcome of checking a credential against a scope
+ */
+export interface AdminAuthResult {
+  allowed: boolean;
+  /** 401 for a missing or unknown credential, 403 for a key that can't do this */
+  status: 200 | 401 | 403;
+  keyId: string | null;
+  keyName: string | null;
+}
+
+/**
+ * A key as listed back to admins, without its hash
+ */
+export interface AdminKeySummary {
+  keyId: string;
+  name: string;
+  scopes: AdminScope[];
+  createdAt: string;
+  expiresAt: string;
+  revoked: boolean;
+  lastUsedAt: string | null;
+  replacedBy: string | null;
+}
+
+function hashSecret(secret: string): string {
+  return createHash("sha256").update(secret).digest("hex");
+}
+
+/**
+ * Compare two strings without leaking where they differ
+ */
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Split a "<keyId>.<secret>" credential
+ */
+function parseCredential(credential: string): { keyId: string; secret: string } | null {
+  const match = credential.match(/^([A-Za-z0-9]{1,64})\.([a-f0-9]{16,256})$/);
+  return match ? { keyId: match[1], secret: match[2] } : null;
+}
+
+/**
+ * Whether a value is a known admin scope
+ */
+export function isValidAdminScope(value: unknown): value is AdminScope {
+  return typeof value === "string" && (ADMIN_SCOPES as string[]).includes(value);
+}
+
+/**
+ * Record an admin request in the audit log
+ * A failed write is logged but doesn't fail the request.
+ */
+async function writeAuditEntry(
+  entry: Omit<AdminAuditEntry, "at" | "expiresAt">
+): Promise<void> {
+  const now = Date.now();
+  const record: AdminAuditEntry = {
+    ...entry,
+    at: admin.firestore.Timestamp.fromMillis(now),
+    expiresAt: admin.firestore.Timestamp.fromMillis(now + AUDIT_RETENTION_DAYS * DAY_MS),
+  };
+
+  try {
+    await db.collection(AUDIT_COLLECTION).add(record);
+  } catch (error) {
+    logger.error("Could not write admin audit entry:", error);
+  }
+}
+
+/**
+ * Check an admin credential for a scope and audit the request
+ * @param credential - The presented "<keyId>.<secret>" credential, if any
+ * @param request - Endpoint name, client IP and method, for the audit log
+ */
+export async function authorizeAdminRequest(
+  credential: string | undefined,
+  scope: AdminScope,
+  request: { endpoint: string; ip: string; method: string }
+): Promise<AdminAuthResult> {
+  const result = await checkCredential(credential, scope);
+
+  if (!result.allowed) {
+    logger.warn(`Admin request to ${request.endpoint} refused: ${result.reason}`);
+  }
+  await writeAuditEntry({
+    ...request,
+    scope,
+    allowed: result.allowed,
+    reason: result.reason,
+    keyId: result.keyId,
+    keyName: result.keyName,
+  });
+
+  return { allowed: result.allowed, status: result.status, keyId: result.keyId, keyName: result.keyName };
+}
+
+/**
+ * Match a credential to a key and check it can be used for a scope
+ */
+async function checkCredential(
+  credential: string | undefined,
+  scope: AdminScope
+): Promise<AdminAuthResult & { reason: string }> {
+  const refuse = (status: 401 | 403, reason: string, keyId: string | null = null, keyName: string | null = null) =>
+    ({ allowed: false, status, keyId, keyName, reason });
+
+  if (!credential) {
+    // The emulator has no keys to present
+    if (process.env.FUNCTIONS_EMULATOR === "true") {
+      return { allowed: true, status: 200, keyId: null, keyName: "emulator", reason: "emulator" };
+    }
+    return refuse(401, "missing credential");
+  }
+
+  if (BOOTSTRAP_KEY && safeEqual(credential, BOOTSTRAP_KEY)) {
+    return scope === "keys:manage"
+      ? { allowed: true, status: 200, keyId: null, keyName: "bootstrap", reason: "bootstrap key" }
+      : refuse(403, "bootstrap key can only manage keys", null, "bootstrap");
+  }
+
+  const parsed = parseCredential(credential);
+  if (!parsed) return refuse(401, "malformed credential");
+
+  const ref = db.collection(KEYS_COLLECTION).doc(parsed.keyId);
+  const doc = await ref.get();
+  const key = doc.exists ? doc.data() as AdminKey : undefined;
+  if (!key || !safeEqual(hashSecret(parsed.secret), key.secretHash)) {
+    return refuse(401, "unknown key");
+  }
+
+  if (key.revokedAt) return refuse(401, "revoked key", parsed.keyId, key.name);
+  if (key.expiresAt.toMillis() <= Date.now()) return refuse(401, "expired key", parsed.keyId, key.name);
+  if (!key.scopes.includes(scope)) return refuse(403, `missing scope ${scope}`, parsed.keyId, key.name);
+
+  await ref.update({ lastUsedAt: admin.firestore.Timestamp.now() });
+  return { allowed: true, status: 200, keyId: parsed.keyId, keyName: key.name, reason: "key" };
+}
+
+/**
+ * Create an admin key
+ * @returns The key ID and the full credential, which is only shown this once
+ */
+export async function createAdminKey(
+  name: string,
+  scopes: AdminScope[],
+  ttlDays: number
+): Promise<{ keyId: string; credential: string; expiresAt: string }> {
+  const secret = randomBytes(SECRET_BYTES).toString("hex");
+  const ref = db.collection(KEYS_COLLECTION).doc();
+  const now = Date.now();
+
+  const key: AdminKey = {
+    name,
+    secretHash: hashSecret(secret),
+    scopes: [...new Set(scopes)],
+    createdAt: admin.firestore.Timestamp.fromMillis(now),
+    expiresAt: admin.firestore.Timestamp.fromMillis(now + ttlDays * DAY_MS),
+  };
+  await ref.set(key);
+
+  logger.info(`Created admin key ${ref.id} (${name}) with scopes ${key.scopes.join(", ")}`);
+  return { keyId: ref.id, credential: `${ref.id}.${secret}`, expiresAt: key.expiresAt.toDate().toISOString() };
+}
+
+/**
+ * Replace a key with a new one that has the same name, scopes and lifetime
+ * The old key keeps working for the grace period so callers can switch over.
+ * @returns The new key, or null if the old one doesn't exist or was revoked
+ */
+export async function rotateAdminKey(
+  keyId: string,
+  graceHours: number
+): Promise<{ keyId: string; credential: string; expiresAt: string } | null> {
+  const ref = db.collection(KEYS_COLLECTION).doc(keyId);
+  const doc = await ref.get();
+  if (!doc.exists) return null;
+
+  const key = doc.data() as AdminKey;
+  if (key.revokedAt) return null;
+
+  const ttlDays = Math.max(1, Math.round((key.expiresAt.toMillis() - key.createdAt.toMillis()) / DAY_MS));
+  const created = await createAdminKey(key.name, key.scopes, Math.min(ttlDays, MAX_KEY_TTL_DAYS));
+
+  const graceEnd = Date.now() + graceHours * 60 * 60 * 1000;
+  await ref.update({
+    expiresAt: admin.firestore.Timestamp.fromMillis(Math.min(graceEnd, key.expiresAt.toMillis())),
+    replacedBy: created.keyId,
+  });
+
+  logger.info(`Rotated admin key ${keyId} to ${created.keyId}`);
+  return created;
+}
+
+/**
+ * Revoke a key immediately
+ * @returns false if the key doesn't exist
+ */
+export async function revokeAdminKey(keyId: string): Promise<boolean> {
+  const ref = db.collection(KEYS_COLLECTION).doc(keyId);
+  const doc = await ref.get();
+  if (!doc.exists) return false;
+
+  await ref.update({ revokedAt: admin.firestore.Timestamp.now() });
+  logger.info(`Revoked admin key ${keyId}`);
+  return true;
+}
+
+/**
+ * All admin keys, newest first, without their hashes
+ */
+export async function listAdminKeys(): Promise<AdminKeySummary[]> {
+  const snapshot = await db.collection(KEYS_COLLECTION).orderBy("createdAt", "desc").get();
+
+  return snapshot.docs.map((doc) => {
+    const key = doc.data() as AdminKey;
+    return {
+      keyId: doc.id,
+      name: key.name,
+      scopes: key.scopes,
+      createdAt: key.createdAt.toDate().toISOString(),
+      expiresAt: key.expiresAt.toDate().toISOString(),
+      revoked: Boolean(key.revokedAt),
+      lastUsedAt: key.lastUsedAt?.toDate().toISOString() ?? null,
+      replacedBy: key.replacedBy ?? null,
+    };
+  });
+}
@@ -0,0 +1,279 @@
+/**
+ * Anomaly guard for price runs
+ *
+ * A broken retailer parser can turn a whole batch of prices into bogus
+ * "90% off" deals. Before a shard publishes a retailer's prices, the batch's
+ * distribution (discount histogram against MSRP and in-stock rate) is
+ * compared with that retailer's recent runs. Batches too small for the
+ * histogram and in-stock comparisons still get the deep discount checks, so
+ * a parser that breaks on a handful of sets is caught too. A batch that
+ * looks wrong is held in price_reviews instead of reaching prices/deals, and
+ * no alerts go out for it unless an admin approves it. Completed runs fold
+ * their published distributions into per-retailer baselines in
+ * price_baselines.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db } from "./db";
+import { LegoSet, PriceBaseline, PriceData, PriceDistribution, PriceReview, PriceShard } from "./types";
+import { getVerifiedMsrp } from "./msrp";
+
+const BASELINES_COLLECTION = "price_baselines";
+export const REVIEWS_COLLECTION = "price_reviews";
+
+// Upper bounds (percent off) of the discount buckets; the last bucket is open
+const DISCOUNT_BUCKET_BOUNDS = [10, 20, 30, 40, 50];
+// Buckets from this index on count as deep discounts (40%+ off)
+const DEEP_DISCOUNT_BUCKET = 4;
+
+// Runs kept in a retailer's baseline
+const BASELINE_RUNS = 5;
+// Batches smaller than this only get the deep discount checks; baselines
+// below MIN_BASELINE_SAMPLES aren't compared against
+const MIN_SAMPLES = 20;
+const MIN_BASELINE_SAMPLES = 100;
+
+// Share of deep discounts that's suspicious on its own
+const MAX_DEEP_SHARE = 0.5;
+// Largest rise in the deep discount share over the baseline
+const MAX_DEEP_SHARE_RISE = 0.25;
+// Largest change in the in-stock rate from the baseline
+const MAX_IN_STOCK_SHIFT = 0.4;
+// Largest total variation distance between the histograms (0-1)
+const MAX_HISTOGRAM_DISTANCE = 0.5;
+
+function emptyDistribution(): PriceDistribution {
+  return { samples: 0, inStock: 0, buckets: new Array(DISCOUNT_BUCKET_BOUNDS.length + 1).fill(0) };
+}
+
+function bucketFor(percentOff: number): number {
+  const index = DISCOUNT_BUCKET_BOUNDS.findIndex((bound) => percentOff < bound);
+  return index === -1 ? DISCOUNT_BUCKET_BOUNDS.length : index;
+}
+
+/**
+ * Distribution of a batch of prices, with discounts measured against the
+ * verified MSRP, or the retailer's claimed list price when there isn't one.
+ * Prices with neither are left out: they can't turn into deals.
+ */
+export function summarizePrices(entries: { set: LegoSet; priceData: PriceData }[]): PriceDistribution {
+  const distribution = emptyDistribution();
+
+  for (const { set, priceData } of entries) {
+    const reference = getVerifiedMsrp(set) ?? priceData.claimedOriginalPrice ?? null;
+    if (reference === null || reference <= 0) continue;
+    const percentOff = ((reference - priceData.currentPrice) / reference) * 100;
+
+    distribution.samples++;
+    if (priceData.inStock) distribution.inStock++;
+    distribution.buckets[bucketFor(percentOff)]++;
+  }
+
+  return distribution;
+}
+
+/**
+ * Add distributions together
+ */
+export function mergeDistributions(...distributions: PriceDistribution[]): PriceDistribution {
+  const total = emptyDistribution();
+
+  for (const distribution of distributions) {
+    total.samples += distribution.samples;
+    total.inStock += distribution.inStock;
+    distribution.buckets.forEach((count, index) => {
+      total.buckets[index] += count;
+    });
+  }
+
+  return total;
+}
+
+function deepShare(distribution: PriceDistribution): number {
+  const deep = distribution.buckets.slice(DEEP_DISCOUNT_BUCKET).reduce((sum, count) => sum + count, 0);
+  return deep / distribution.samples;
+}
+
+function histogramDistance(a: PriceDistribution, b: PriceDistribution): number {
+  const diff = a.buckets.reduce(
+    (sum, count, index) => sum + Math.abs(count / a.samples - b.buckets[index] / b.samples),
+    0
+  );
+  return diff / 2;
+}
+
+function percent(share: number): string {
+  return `${Math.round(share * 100)}%`;
+}
+
+/**
+ * Why a batch looks wrong compared with its retailer's baseline
+ * @returns Reasons, empty if the batch looks normal or is empty
+ */
+export function findAnomalies(distribution: PriceDistribution, baseline: PriceDistribution | null): string[] {
+  if (distribution.samples === 0) return [];
+
+  const reasons: string[] = [];
+  const small = distribution.samples < MIN_SAMPLES;
+  const share = deepShare(distribution);
+
+  if (share > MAX_DEEP_SHARE) {
+    reasons.push(`${percent(share)} of prices are 40%+ off`);
+  }
+
+  if (baseline && baseline.samples >= MIN_BASELINE_SAMPLES) {
+    const baselineShare = deepShare(baseline);
+    if (share - baselineShare > MAX_DEEP_SHARE_RISE) {
+      reasons.push(`40%+ discounts at ${percent(share)} against ${percent(baselineShare)} in recent runs`);
+    }
+    // A few prices can't say much about the in-stock rate or the histogram's shape
+    if (small) return reasons;
+
+    const inStockRate = distribution.inStock / distribution.samples;
+    const baselineInStockRate = baseline.inStock / baseline.samples;
+    if (Math.abs(inStockRate - baselineInStockRate) > MAX_IN_STOCK_SHIFT) {
+      reasons.push(`In stock rate ${percent(inStockRate)} against ${percent(baselineInStockRate)} in recent runs`);
+    }
+
+    const distance = histogramDistance(distribution, baseline);
+    if (distance > MAX_HISTOGRAM_DISTANCE) {
+      reasons.push(`Discount histogram differs from recent runs by ${percent(distance)}`);
+    }
+  }
+
+  return reasons;
+}
+
+/**
+ * Combined recent-run distribution for each retailer that has one
+ */
+export async function getBaselines(retailers: string[]): Promise<Map<string, PriceDistribution>> {
+  const baselines = new Map<string, PriceDistribution>();
+  if (retailers.length === 0) return baselines;
+
+  const docs = await db.getAll(
+    ...retailers.map((retailer) => db.collection(BASELINES_COLLECTION).doc(retailer))
+  );
+  for (const doc of docs) {
+    if (!doc.exists) continue;
+    const baseline = doc.data() as PriceBaseline;
+    baselines.set(baseline.retailer, mergeDistributions(...baseline.recent));
+  }
+
+  return baselines;
+}
+
+/**
+ * Fold a completed run's published distributions into the baselines
+ */
+export async function updateBaselines(distributions: Record<string, PriceDistribution>): Promise<void> {
+  const updatedAt = admin.firestore.Timestamp.now();
+
+  for (const [retailer, distribution] of Object.entries(distributions)) {
+    if (distribution.samples < MIN_SAMPLES) continue;
+
+    const ref = db.collection(BASELINES_COLLECTION).doc(retailer);
+    await db.runTransaction(async (transaction) => {
+      const doc = await transaction.get(ref);
+      const recent = doc.exists ? (doc.data() as PriceBaseline).recent : [];
+      const baseline: PriceBaseline = {
+        retailer,
+        recent: [distribution, ...recent].slice(0, BASELINE_RUNS),
+        updatedAt,
+      };
+      transaction.set(ref, baseline);
+    });
+  }
+}
+
+/**
+ * Hold a retailer's batch from a shard for review
+ * The review ID is stable per run, shard and retailer, so a retried shard
+ * doesn't file it twice.
+ */
+export async function quarantineBatch(
+  shard: PriceShard,
+  retailer: string,
+  prices: PriceData[],
+  distribution: PriceDistribution,
+  baseline: PriceDistribution | null,
+  reasons: string[]
+): Promise<void> {
+  const review: PriceReview = {
+    runId: shard.runId,
+    shardId: shard.shardId,
+    retailer,
+    status: "pending",
+    reasons,
+    distribution,
+    baseline,
+    prices,
+    notify: shard.notify,
+    createdAt: admin.firestore.Timestamp.now(),
+  };
+
+  const ref = db.collection(REVIEWS_COLLECTION).doc(`${shard.runId}_${shard.shardId}_${retailer}`);
+  await db.runTransaction(async (transaction) => {
+    // Leave a review that was already filed (and maybe decided) alone
+    const doc = await transaction.get(ref);
+    if (!doc.exists) transaction.set(ref, review);
+  });
+  logger.warn(
+    `Quarantined ${prices.length} ${retailer} prices from shard ${shard.runId}/${shard.shardId}: ` +
+    reasons.join("; ")
+  );
+}
+
+/**
+ * A pending review as listed for admins
+ */
+export interface PendingReviewSummary {
+  reviewId: string;
+  runId: string;
+  retailer: string;
+  reasons: string[];
+  /** Prices held in the review */
+  prices: number;
+  distribution: PriceDistribution;
+  baseline: PriceDistribution | null;
+  /** ISO timestamp */
+  createdAt: string;
+}
+
+/**
+ * Reviews waiting for a decision, oldest first, without their prices
+ */
+export async function listPendingReviews(): Promise<PendingReviewSummary[]> {
+  const snapshot = await db.collection(REVIEWS_COLLECTION).where("status", "==", "pending").get();
+
+  return snapshot.docs
+    .map((doc) => ({ reviewId: doc.id, review: doc.data() as PriceReview }))
+    .sort((a, b) => a.review.createdAt.toMillis() - b.review.createdAt.toMillis())
+    .map(({ reviewId, review }) => ({
+      reviewId,
+      runId: review.runId,
+      retailer: review.retailer,
+      reasons: review.reasons,
+      prices: review.prices.length,
+      distribution: review.distribution,
+      baseline: review.baseline,
+      createdAt: review.createdAt.toDate().toISOString(),
+    }));
+}
+
+/**
+ * Discard a quarantined batch
+ * @returns false if the review doesn't exist or was already decided
+ */
+export async function rejectPriceReview(reviewId: string): Promise<boolean> {
+  const ref = db.collection(REVIEWS_COLLECTION).doc(reviewId);
+
+  return db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists || (doc.data() as PriceReview).status !== "pending") return false;
+
+    transaction.update(ref, { status: "rejected", reviewedAt: admin.firestore.Timestamp.now() });
+    return true;
+  });
+}
@@ -0,0 +1,411 @@
+/**
+ * Incremental Rebrickable catalog sync
+ *
+ * Pages through the entire Rebrickable set list in set-number order and
+ * only writes sets whose last_modified_dt (or resolved theme) changed since
+ * they were last synced. Progress is checkpointed in catalog_sync/state
+ * after every page as the last set number synced, so a run that runs out
+ * of time resumes right after it on its following invocation. Rebrickable
+ * only pages by offset, and sets added or removed upstream shift the page
+ * boundaries, so each page is located by finding the cursor in it (or in
+ * the page before). The set numbers seen in a pass are
+ * recorded per page; once the last page is done, catalog sets that weren't
+ * seen are marked removed. A dry run (diffCatalog) walks the same pages
+ * from the checkpoint and reports what would change without writing to the
+ * catalog; scheduled dry runs keep their diff in catalog_diffs.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites, WriteOp } from "./db";
+import { CatalogSyncDiff, CatalogSyncState, LegoSet } from "./types";
+import { sanitizeSetNumber } from "./validation";
+import { getThemeResolver, syncThemes, ThemeResolver } from "./themes";
+import { getAvailability } from "./retirement";
+
+const REBRICKABLE_API_KEY = process.env.REBRICKABLE_API_KEY || "";
+const SETS_URL = "https://rebrickable.com/api/v3/lego/sets/";
+
+// Rebrickable's largest page, and its ~1 request/second rate limit
+const PAGE_SIZE = 1000;
+const REQUEST_DELAY_MS = 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+// Catalog docs read per getAll call
+const READ_CHUNK_SIZE = 300;
+// A finished pass isn't restarted for this long
+const MIN_PASS_INTERVAL_MS = 20 * 60 * 60 * 1000;
+// Sets from this many years back are assumed to still be on sale
+const CURRENT_SET_YEARS = 3;
+// Set numbers kept per list in a dry-run diff
+const MAX_DIFF_ENTRIES = 500;
+
+const STATE_DOC = db.collection("catalog_sync").doc("state");
+const SEEN_COLLECTION = STATE_DOC.collection("seen");
+const DIFFS_COLLECTION = "catalog_diffs";
+
+/**
+ * A set as returned by the Rebrickable sets endpoint
+ */
+interface RebrickableSet {
+  set_num: string;
+  name: string;
+  year: number;
+  theme_id: number;
+  num_parts: number;
+  set_img_url: string | null;
+  last_modified_dt: string;
+}
+
+/**
+ * Whether a Rebrickable set belongs in the catalog (skips gear, minifig packs, ...)
+ */
+function isCatalogSet(set: RebrickableSet): boolean {
+  if (!set.set_img_url || set.num_parts < 20) return false;
+  return !(set.num_parts < 50 && set.name.toLowerCase().includes("minifig"));
+}
+
+/**
+ * Availability for a set the catalog hasn't seen before, guessed from its year
+ */
+function initialAvailability(year: number): LegoSet["availability"] {
+  const currentYear = new Date().getFullYear();
+  if (year > currentYear) return "coming_soon";
+  return year >= currentYear - CURRENT_SET_YEARS ? "available" : "sold_out";
+}
+
+/**
+ * Catalog fields Rebrickable owns (availability and MSRP are managed elsewhere)
+ */
+function toCatalogFields(set: RebrickableSet, resolveTheme: ThemeResolver) {
+  // Rough estimate for display only; deals use the imported MSRP (see msrp/)
+  const estimatedPrice = Math.round(set.num_parts * 0.11);
+
+  return {
+    setNumber: set.set_num,
+    name: set.name,
+    price: estimatedPrice > 0 ? estimatedPrice : 20,
+    imageUrl: set.set_img_url || "",
+    url: `https://www.lego.com/en-us/product/${sanitizeSetNumber(set.set_num)}`,
+    ...resolveTheme(set.theme_id),
+    pieces: set.num_parts,
+    year: set.year,
+    rebrickableModifiedAt: set.last_modified_dt,
+  };
+}
+
+/**
+ * Fetch one page of the full set list
+ * Rebrickable answers 404 for a page past the end.
+ */
+async function fetchSetsPage(page: number): Promise<{ results: RebrickableSet[]; hasNext: boolean }> {
+  const response = await fetch(
+    `${SETS_URL}?page=${page}&page_size=${PAGE_SIZE}&ordering=set_num`,
+    {
+      headers: {
+        "Authorization": `key ${REBRICKABLE_API_KEY}`,
+        "Accept": "application/json",
+      },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    }
+  );
+
+  if (response.status === 404) return { results: [], hasNext: false };
+  if (!response.ok) {
+    throw new Error(`Rebrickable API error: ${response.status}`);
+  }
+
+  const data = await response.json();
+  return { results: data.results || [], hasNext: Boolean(data.next) };
+}
+
+/**
+ * Fetch the sets listed after a cursor
+ * Checks the page expected to follow the cursor for it, and the page
+ * before when it isn't there (sets removed upstream moved it back). If the
+ * cursor set itself is gone, both pages are returned whole, so nothing is
+ * skipped; sets seen twice are harmless.
+ * @param page - Page expected to hold the sets after the cursor
+ * @param cursor - Last set number synced, null to read the page whole
+ * @returns The sets after the cursor, the last set number listed, and
+ * whether more pages follow
+ */
+async function fetchSetsAfter(
+  page: number,
+  cursor: string | null
+): Promise<{ results: RebrickableSet[]; last: string | null; hasNext: boolean }> {
+  const current = await fetchSetsPage(page);
+  const lastListed = current.results[current.results.length - 1]?.set_num;
+  const index = cursor ? current.results.findIndex((set) => set.set_num === cursor) : -1;
+
+  // Start of a pass, the cursor is on this page, or there's no page before it
+  if (!cursor || index !== -1 || page === 1) {
+    return { results: current.results.slice(index + 1), last: lastListed ?? cursor, hasNext: current.hasNext };
+  }
+
+  await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+  const previous = await fetchSetsPage(page - 1);
+  const previousIndex = previous.results.findIndex((set) => set.set_num === cursor);
+  if (previousIndex === -1) {
+    logger.warn(`Catalog sync cursor ${cursor} is no longer listed; rereading page ${page - 1}`);
+  }
+
+  return {
+    results: [...previous.results.slice(previousIndex + 1), ...current.results],
+    last: lastListed ?? previous.results[previous.results.length - 1]?.set_num ?? cursor,
+    hasNext: current.hasNext,
+  };
+}
+
+/**
+ * A listed set that differs from its catalog entry
+ */
+interface CatalogChange {
+  set: RebrickableSet;
+  ref: admin.firestore.DocumentReference;
+  fields: ReturnType<typeof toCatalogFields>;
+  kind: "new" | "changed" | "returning";
+  existing?: LegoSet;
+}
+
+/**
+ * Compare a page's catalog sets with their stored entries
+ * @returns The sets that are new, modified, or back after being removed
+ */
+async function findChanges(sets: RebrickableSet[], resolveTheme: ThemeResolver): Promise<CatalogChange[]> {
+  const changes: CatalogChange[] = [];
+
+  for (let i = 0; i < sets.length; i += READ_CHUNK_SIZE) {
+    const chunk = sets.slice(i, i + READ_CHUNK_SIZE);
+    const docs = await db.getAll(
+      ...chunk.map((set) => db.collection("lego_catalog").doc(set.set_num))
+    );
+
+    chunk.forEach((set, index) => {
+      const doc = docs[index];
+      const existing = doc.exists ? doc.data() as LegoSet : undefined;
+      const fields = toCatalogFields(set, resolveTheme);
+
+      const unchanged = existing &&
+        !existing.removed &&
+        existing.rebrickableModifiedAt === fields.rebrickableModifiedAt &&
+        existing.themeId === fields.themeId &&
+        (existing.subThemeId ?? null) === fields.subThemeId;
+      if (unchanged) return;
+
+      const kind = !existing ? "new" : existing.removed ? "returning" : "changed";
+      changes.push({ set, ref: doc.ref, fields, kind, existing });
+    });
+  }
+
+  return changes;
+}
+
+/**
+ * Write the new and modified sets from one page and record which sets it listed
+ * @returns Sets listed and sets written
+ */
+async function syncPage(
+  page: number,
+  results: RebrickableSet[],
+  resolveTheme: ThemeResolver
+): Promise<{ seen: number; changed: number }> {
+  const sets = results.filter(isCatalogSet);
+  const now = admin.firestore.Timestamp.now();
+
+  // New sets get an availability from their year, returning sets one from
+  // their stored retirement date too; others keep theirs
+  const writes: WriteOp[] = (await findChanges(sets, resolveTheme)).map(({ set, ref, fields, kind, existing }) => {
+    const availability = kind === "new"
+      ? initialAvailability(set.year)
+      : kind === "returning" && existing
+        ? getAvailability({ ...existing, ...fields, availability: initialAvailability(set.year), removed: false })
+        : undefined;
+
+    return (batch) => batch.set(ref, {
+      ...fields,
+      ...(availability ? { availability } : {}),
+      ...(kind === "returning" ? { removed: false, removedAt: admin.firestore.FieldValue.delete() } : {}),
+      lastUpdated: now,
+    }, { merge: true });
+  });
+
+  writes.push((batch) => batch.set(SEEN_COLLECTION.doc(String(page)), {
+    setNumbers: sets.map((set) => set.set_num),
+  }));
+  await commitWrites(writes);
+
+  return { seen: sets.length, changed: writes.length - 1 };
+}
+
+/**
+ * Mark catalog sets that weren't listed anywhere in this pass as removed
+ * @returns Number of sets marked removed
+ */
+async function markRemovedSets(): Promise<number> {
+  const seenDocs = await SEEN_COLLECTION.get();
+  const seen = new Set(seenDocs.docs.flatMap((doc) => doc.get("setNumbers") as string[]));
+
+  // Guard against wiping the catalog after an empty or failed listing
+  if (seen.size === 0) {
+    logger.warn("Catalog sync saw no sets; not marking anything removed");
+    return 0;
+  }
+
+  const catalog = await db.collection("lego_catalog").select("removed").get();
+  const removedAt = admin.firestore.Timestamp.now();
+  const gone = catalog.docs.filter((doc) => !seen.has(doc.id) && doc.get("removed") !== true);
+
+  await commitWrites(gone.map((doc) => (batch) =>
+    batch.update(doc.ref, { removed: true, removedAt, availability: "sold_out" })
+  ));
+  return gone.length;
+}
+
+/**
+ * Start a new pass from page 1, refreshing the theme tree first
+ */
+async function startPass(): Promise<CatalogSyncState> {
+  try {
+    await syncThemes();
+  } catch (error) {
+    // The stored tree is still used
+    logger.warn("Could not fetch themes:", error);
+  }
+
+  const seenDocs = await SEEN_COLLECTION.get();
+  await commitWrites(seenDocs.docs.map((doc) => (batch) => batch.delete(doc.ref)));
+
+  const now = admin.firestore.Timestamp.now();
+  const state: CatalogSyncState = {
+    page: 1,
+    cursor: null,
+    status: "running",
+    startedAt: now,
+    updatedAt: now,
+    seen: 0,
+    changed: 0,
+    removed: 0,
+  };
+  await STATE_DOC.set(state);
+
+  logger.info("Started a new catalog sync pass");
+  return state;
+}
+
+/**
+ * Sync the catalog from its checkpoint until the pass ends or time runs out
+ * @param budgetMs - Time to spend before stopping at a page boundary
+ * @param force - Start a new pass even if the last one finished recently
+ * @returns The checkpointed sync state, and the sets listed and written by this call
+ */
+export async function syncCatalog(
+  budgetMs: number,
+  force = false
+): Promise<{ state: CatalogSyncState; seen: number; changed: number }> {
+  const deadline = Date.now() + budgetMs;
+  const snapshot = await STATE_DOC.get();
+  let state = snapshot.exists ? snapshot.data() as CatalogSyncState : null;
+
+  if (!state || state.status === "complete") {
+    const lastCompleted = state?.completedAt?.toMillis() ?? 0;
+    if (state && !force && Date.now() - lastCompleted < MIN_PASS_INTERVAL_MS) {
+      logger.info("Catalog sync is up to date");
+      return { state, seen: 0, changed: 0 };
+    }
+    state = await startPass();
+  }
+
+  const resolveTheme = await getThemeResolver();
+  let seenThisCall = 0;
+  let changedThisCall = 0;
+
+  while (Date.now() < deadline) {
+    const page: number = state.page;
+    const { results, last, hasNext } = await fetchSetsAfter(page, state.cursor ?? null);
+    const { seen, changed } = await syncPage(page, results, resolveTheme);
+    seenThisCall += seen;
+    changedThisCall += changed;
+    const now = admin.firestore.Timestamp.now();
+
+    state = {
+      ...state,
+      page: hasNext ? page + 1 : page,
+      cursor: last,
+      seen: state.seen + seen,
+      changed: state.changed + changed,
+      updatedAt: now,
+    };
+
+    if (!hasNext) {
+      state.removed = await markRemovedSets();
+      state.status = "complete";
+      state.completedAt = now;
+    }
+
+    await STATE_DOC.set(state);
+    logger.info(`Catalog sync page ${page}: ${seen} sets, ${changed} changed`);
+
+    if (!hasNext) break;
+    await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+  }
+
+  if (state.status === "complete") {
+    logger.info(
+      `Catalog sync complete: ${state.seen} sets, ${state.changed} changed, ${state.removed} removed`
+    );
+  } else {
+    logger.info(`Catalog sync paused before page ${state.page}`);
+  }
+  return { state, seen: seenThisCall, changed: changedThisCall };
+}
+
+/**
+ * Report what syncing from the checkpoint would change, without writing
+ * Starts from page 1 when a real sync would start a new pass. Removals
+ * need a whole pass to work out, so they aren't previewed.
+ * @param budgetMs - Time to spend before stopping at a page boundary
+ * @param runId - Also save the diff to catalog_diffs under this job run's ID
+ */
+export async function diffCatalog(budgetMs: number, runId?: string): Promise<CatalogSyncDiff> {
+  const deadline = Date.now() + budgetMs;
+  const snapshot = await STATE_DOC.get();
+  const state = snapshot.exists ? snapshot.data() as CatalogSyncState : null;
+  const fromPage = state?.status === "running" ? state.page : 1;
+  let cursor = state?.status === "running" ? state.cursor ?? null : null;
+
+  const resolveTheme = await getThemeResolver();
+  const diff: CatalogSyncDiff = {
+    fromPage,
+    nextPage: fromPage,
+    reachedEnd: false,
+    newSets: [],
+    changedSets: [],
+    returningSets: [],
+    truncated: false,
+  };
+  const lists = { new: diff.newSets, changed: diff.changedSets, returning: diff.returningSets };
+
+  while (Date.now() < deadline && !diff.reachedEnd) {
+    const { results, last, hasNext } = await fetchSetsAfter(diff.nextPage, cursor);
+    cursor = last;
+
+    for (const { set, kind } of await findChanges(results.filter(isCatalogSet), resolveTheme)) {
+      if (lists[kind].length < MAX_DIFF_ENTRIES) lists[kind].push(set.set_num);
+      else diff.truncated = true;
+    }
+
+    if (hasNext) {
+      diff.nextPage++;
+      await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+    } else {
+      diff.reachedEnd = true;
+    }
+  }
+
+  logger.info(
+    `Catalog dry run pages ${fromPage}-${diff.nextPage}: ${diff.newSets.length} new, ` +
+    `${diff.changedSets.length} changed, ${diff.returningSets.length} returning`
+  );
+  if (runId) await db.collection(DIFFS_COLLECTION).doc(runId).set(diff);
+  return diff;
+}
@@ -0,0 +1,247 @@
+/**
+ * Admin command-line tool
+ *
+ * Runs catalog, price and push operations from a terminal with the same
+ * service modules the functions use, against the Firestore emulator or a
+ * production project (see cliEnv.ts). It talks to Firestore directly with
+ * service account or emulator access, so it doesn't use admin keys and
+ * isn't written to the admin audit log.
+ *
+ *   npm run cli -- --emulator catalog sync
+ *   npm run cli -- --project <id> prices run --retailer amazon --dry-run
+ *   npm run cli -- --emulator set inspect 75192-1
+ *   npm run cli -- --project <id> push test "ExponentPushToken[...]"
+ *   npm run cli -- --project <id> tokens prune --dry-run
+ */
+
+// Must come first: sets the target project before Firebase Admin initializes
+import { targetProject, useEmulator } from "./cliEnv";
+
+import { parseArgs } from "node:util";
+import * as admin from "firebase-admin";
+import { db } from "./db";
+import { DealData, LegoSet, PriceData, PriceHistoryEntry, RetailerId, SetPriceStats } from "./types";
+import { getRegisteredRetailers } from "./retailers";
+import { getVerifiedMsrp } from "./msrp";
+import { getAvailability } from "./retirement";
+import { diffCatalog, syncCatalog } from "./catalogSync";
+import { getPriceRunReport, startPriceRun } from "./pricePipeline";
+import { sendExpoPushNotification, TEST_NOTIFICATION } from "./notifications";
+import { pruneStaleTokens } from "./expoPush";
+import { describeError, finishJobRun, getOperationalStatus, startJobRun } from "./jobRuns";
+import { isValidExpoPushToken, isValidSetNumber } from "./validation";
+
+const USAGE = `Usage: npm run cli -- (--emulator | --project <id>) <command>
+
+Commands:
+  catalog sync [--force] [--dry-run]     Sync the catalog from Rebrickable
+  prices run [--retailer <id>]... [--dry-run]
+                                         Run a price run here, shard by shard
+  set inspect <setNumber>                Show a set's catalog entry, prices, deals and history
+  push test <token>                      Send a test notification to a registered device
+  tokens prune [--days <n>] [--max-failures <n>] [--dry-run]
+                                         Delete push tokens that keep failing or went quiet
+  status                                 Show job SLAs and retailer staleness`;
+
+// No function timeout applies here, so a catalog sync can finish its pass in one go
+const CATALOG_BUDGET_MS = 60 * 60 * 1000;
+// History entries shown by set inspect
+const INSPECT_HISTORY_ENTRIES = 20;
+const DEFAULT_PRUNE_DAYS = 180;
+const DEFAULT_PRUNE_MAX_FAILURES = 5;
+
+/**
+ * A mistake in the command line; printed with the usage instead of a stack
+ */
+class UsageError extends Error {}
+
+type Options = {
+  force: boolean;
+  dryRun: boolean;
+  retailers: string[];
+  days?: string;
+  maxFailures?: string;
+};
+
+/**
+ * Print a result as JSON, with Firestore timestamps as ISO strings
+ */
+function print(value: unknown): void {
+  console.log(JSON.stringify(value, function (this: Record<string, unknown>, key, item) {
+    const raw = this[key];
+    return raw instanceof admin.firestore.Timestamp ? raw.toDate().toISOString() : item;
+  }, 2));
+}
+
+function parsePositiveInt(value: string | undefined, fallback: number, flag: string): number {
+  if (value === undefined) return fallback;
+  const parsed = Number(value);
+  if (!Number.isInteger(parsed) || parsed < 1) {
+    throw new UsageError(`${flag} must be a positive whole number`);
+  }
+  return parsed;
+}
+
+async function catalogSync(options: Options): Promise<void> {
+  if (options.dryRun) {
+    print(await diffCatalog(CATALOG_BUDGET_MS));
+    return;
+  }
+
+  const runId = await startJobRun("manualCatalogUpdate");
+  try {
+    const { state, seen, changed } = await syncCatalog(CATALOG_BUDGET_MS, options.force);
+    await finishJobRun(runId, "manualCatalogUpdate", { setsProcessed: seen, dealsFound: 0, errors: [] });
+    print({ runId, state, seen, changed });
+  } catch (error) {
+    await finishJobRun(runId, "manualCatalogUpdate", {
+      setsProcessed: 0,
+      dealsFound: 0,
+      errors: [describeError(error)],
+    });
+    throw error;
+  }
+}
+
+async function pricesRun(options: Options): Promise<void> {
+  const registered: string[] = getRegisteredRetailers();
+  const unknown = options.retailers.filter((retailer) => !registered.includes(retailer));
+  if (unknown.length > 0) {
+    throw new UsageError(`Unknown retailer ${unknown.join(", ")}; expected one of ${registered.join(", ")}`);
+  }
+
+  // Like manualPriceUpdate: real runs don't alert, dry runs preview the alerts
+  const started = await startPriceRun("manual", {
+    notify: options.dryRun,
+    dryRun: options.dryRun,
+    retailers: options.retailers.length > 0 ? options.retailers as RetailerId[] : undefined,
+    inline: true,
+  });
+  if (!started) {
+    throw new Error("Catalog is empty; run a catalog sync first");
+  }
+
+  print({ runId: started.runId, ...await getPriceRunReport(started.runId) });
+}
+
+async function setInspect(setNumber: string | undefined): Promise<void> {
+  if (!setNumber || !isValidSetNumber(setNumber)) {
+    throw new UsageError("set inspect needs a set number such as 75192-1");
+  }
+  const id = setNumber.includes("-") ? setNumber : `${setNumber}-1`;
+
+  const [setDoc, priceStats, prices, deals, history] = await Promise.all([
+    db.collection("lego_catalog").doc(id).get(),
+    db.collection("set_price_stats").doc(id).get(),
+    db.collection("prices").where("setNumber", "==", id).get(),
+    db.collection("deals").where("setNumber", "==", id).get(),
+    db.collection("price_history").where("setNumber", "==", id).get(),
+  ]);
+  if (!setDoc.exists) {
+    throw new Error(`Set ${id} is not in the catalog`);
+  }
+
+  const set = setDoc.data() as LegoSet;
+  print({
+    set,
+    verifiedMsrp: getVerifiedMsrp(set),
+    availability: getAvailability(set),
+    prices: prices.docs.map((doc) => doc.data() as PriceData),
+    deals: deals.docs.map((doc) => doc.data() as DealData),
+    priceStats: priceStats.exists ? priceStats.data() as SetPriceStats : null,
+    recentHistory: history.docs
+      .map((doc) => doc.data() as PriceHistoryEntry)
+      .sort((a, b) => b.date.toMillis() - a.date.toMillis())
+      .slice(0, INSPECT_HISTORY_ENTRIES),
+  });
+}
+
+async function pushTest(token: string | undefined): Promise<void> {
+  if (!token || !isValidExpoPushToken(token)) {
+    throw new UsageError("push test needs an Expo push token");
+  }
+
+  const tokenDoc = await db.collection("push_tokens").doc(token).get();
+  if (!tokenDoc.exists) {
+    throw new Error("Token not registered");
+  }
+
+  await sendExpoPushNotification([token], TEST_NOTIFICATION);
+  print({ success: true, message: "Test notification sent" });
+}
+
+async function tokensPrune(options: Options): Promise<void> {
+  const inactiveDays = parsePositiveInt(options.days, DEFAULT_PRUNE_DAYS, "--days");
+  const maxFailures = parsePositiveInt(options.maxFailures, DEFAULT_PRUNE_MAX_FAILURES, "--max-failures");
+
+  const tokens = await pruneStaleTokens({ maxFailures, inactiveDays, dryRun: options.dryRun });
+  print({ dryRun: options.dryRun, pruned: tokens.length, tokens });
+}
+
+async function main(): Promise<void> {
+  const { values, positionals } = parseArgs({
+    options: {
+      emulator: { type: "boolean", default: false },
+      project: { type: "string" },
+      force: { type: "boolean", default: false },
+      "dry-run": { type: "boolean", default: false },
+      retailer: { type: "string", multiple: true },
+      days: { type: "string" },
+      "max-failures": { type: "string" },
+      help: { type: "boolean", short: "h", default: false },
+    },
+    allowPositionals: true,
+  });
+
+  if (values.help || positionals.length === 0) {
+    console.log(USAGE);
+    return;
+  }
+  if (!targetProject) {
+    throw new UsageError("Pass --emulator, or --project <id> to run against production");
+  }
+
+  const options: Options = {
+    force: values.force === true,
+    dryRun: values["dry-run"] === true,
+    retailers: values.retailer ?? [],
+    days: values.days,
+    maxFailures: values["max-failures"],
+  };
+  const [group, command, argument] = positionals;
+  console.error(`Target: ${useEmulator ? `emulator at ${process.env.FIRESTORE_EMULATOR_HOST}` : "production"}` +
+    ` (${targetProject})`);
+
+  switch (`${group} ${command ?? ""}`.trim()) {
+    case "catalog sync":
+      await catalogSync(options);
+      break;
+    case "prices run":
+      await pricesRun(options);
+      break;
+    case "set inspect":
+      await setInspect(argument);
+      break;
+    case "push test":
+      await pushTest(argument);
+      break;
+    case "tokens prune":
+      await tokensPrune(options);
+      break;
+    case "status":
+      print(await getOperationalStatus());
+      break;
+    default:
+      throw new UsageError(`Unknown command: ${positionals.join(" ")}`);
+  }
+}
+
+main().catch((error) => {
+  if (error instanceof UsageError || (error as { code?: string }).code?.startsWith("ERR_PARSE_ARGS")) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    process.exitCode = 2;
+    return;
+  }
+  console.error(describeError(error));
+  process.exitCode = 1;
+});
@@ -0,0 +1,38 @@
+/**
+ * Target selection for the admin CLI
+ *
+ * Imported by cli.ts before any service module, because db.ts initializes
+ * Firebase Admin on import and reads the project and emulator settings
+ * from the environment at that point.
+ *
+ *   --emulator           Use the Firestore emulator (FIRESTORE_EMULATOR_HOST,
+ *                        default 127.0.0.1:8080) and a demo project
+ *   --project <id>       Firebase project; required against production, where
+ *                        credentials come from GOOGLE_APPLICATION_CREDENTIALS
+ *                        or gcloud application-default login
+ *
+ * One of the two must be passed: GCLOUD_PROJECT from the shell is ignored,
+ * so a forgotten flag can't send a command to production.
+ */
+
+const DEFAULT_EMULATOR_HOST = "127.0.0.1:8080";
+const DEFAULT_EMULATOR_PROJECT = "demo-brick-deal-hunter";
+
+const args = process.argv.slice(2);
+const projectIndex = args.indexOf("--project");
+const project = projectIndex === -1 || args[projectIndex + 1]?.startsWith("-") ? undefined : args[projectIndex + 1];
+
+export const useEmulator = args.includes("--emulator");
+export const targetProject = project || (useEmulator ? DEFAULT_EMULATOR_PROJECT : "");
+
+if (useEmulator) {
+  process.env.FIRESTORE_EMULATOR_HOST = process.env.FIRESTORE_EMULATOR_HOST || DEFAULT_EMULATOR_HOST;
+} else {
+  // Don't let a leftover emulator variable point a production run at the emulator
+  delete process.env.FIRESTORE_EMULATOR_HOST;
+}
+
+if (targetProject) {
+  process.env.GCLOUD_PROJECT = targetProject;
+  process.env.GOOGLE_CLOUD_PROJECT = targetProject;
+}
@@ -0,0 +1,100 @@
+/**
+ * Parsing for importable set datasets (MSRP lists, retirement lists, ...)
+ *
+ * Datasets are CSV files with a header row or JSON arrays of objects
+ * (optionally wrapped as { sets: [...] }). Column names vary between
+ * exports, so fields are looked up by a list of aliases.
+ */
+
+import { isValidSetNumber } from "./validation";
+import { parseJson } from "./retailers/parsing";
+
+/** Column aliases for the set number */
+export const SET_NUMBER_KEYS = ["setnumber", "set_number", "set_num", "setnum", "set", "number"];
+
+/**
+ * Normalize "75192" or " 75192-1 " to the catalog's "75192-1" form
+ */
+export function normalizeSetNumber(value: unknown): string | null {
+  const raw = String(value ?? "").trim();
+  if (!isValidSetNumber(raw)) return null;
+  return /-\d$/.test(raw) ? raw : `${raw}-1`;
+}
+
+/**
+ * Look a field up by any of its aliases, ignoring case
+ */
+export function pickField(row: Record<string, unknown>, keys: string[]): unknown {
+  for (const [key, value] of Object.entries(row)) {
+    if (keys.includes(key.trim().toLowerCase())) return value;
+  }
+  return undefined;
+}
+
+/**
+ * Split CSV text into rows of fields
+ * Handles quoted fields with commas, escaped quotes and line breaks.
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === "\"" && text[i + 1] === "\"") {
+        field += "\"";
+        i++;
+      } else if (char === "\"") {
+        quoted = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === "\"") {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse a dataset into rows keyed by column name
+ * The format is guessed from the first character.
+ */
+export function parseDatasetRows(text: string): Record<string, unknown>[] {
+  const trimmed = text.replace(/^\uFEFF/, "").trim();
+
+  if (trimmed.startsWith("[") || trimmed.startsWith("{")) {
+    const json = parseJson(trimmed);
+    const rows = Array.isArray(json) ? json : json?.sets;
+    if (!Array.isArray(rows)) return [];
+    return rows.filter((row): row is Record<string, unknown> => typeof row === "object" && row !== null);
+  }
+
+  const [header, ...rows] = parseCsvRows(trimmed);
+  if (!header) return [];
+  return rows.map((values) => Object.fromEntries(header.map((key, i) => [key, values[i]])));
+}
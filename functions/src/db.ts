@@ -0,0 +1,29 @@
+/**
+ * Firebase Admin initialization and batched writes shared by every function module
+ */
+
+import * as admin from "firebase-admin";
+
+// Initialize Firebase Admin
+admin.initializeApp();
+
+export const db = admin.firestore();
+
+// Firestore batches allow 500 writes; leave headroom
+const WRITE_BATCH_SIZE = 450;
+
+/**
+ * A deferred Firestore write, committed later in batches
+ */
+export type WriteOp = (batch: admin.firestore.WriteBatch) => void;
+
+/**
+ * Commit writes in batches that stay under Firestore's 500-write limit
+ */
+export async function commitWrites(ops: WriteOp[]): Promise<void> {
+  for (let i = 0; i < ops.length; i += WRITE_BATCH_SIZE) {
+    const batch = db.batch();
+    ops.slice(i, i + WRITE_BATCH_SIZE).forEach((op) => op(batch));
+    await batch.commit();
+  }
+}
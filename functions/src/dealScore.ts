@@ -0,0 +1,238 @@
+/**
+ * Deal quality score
+ *
+ * Percent off alone ranks a routine markdown at a retailer that always
+ * discounts the same as a set's best price ever. Every deal gets a 0-100
+ * dealScore blending its discount with how close it is to the set's lowest
+ * price, its price per piece against the theme's median, whether the set
+ * is retiring, and how rarely the retailer discounts the set. Factors
+ * without enough data yet are left out and the rest are reweighted.
+ *
+ * Price runs fold every in-stock price they publish into set_price_stats,
+ * which gives the historical low, the retailer's discount rate and its
+ * recent high (used to check list prices, see listPrice.ts). Theme
+ * medians are recomputed daily from the catalog's verified MSRPs into
+ * deal_score_stats/themes.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, WriteOp } from "./db";
+import { DealScoreFactors, LegoSet, PriceData, SetPriceStats, ThemePriceStats } from "./types";
+import { getVerifiedMsrp } from "./msrp";
+
+const STATS_COLLECTION = "set_price_stats";
+const THEME_STATS_DOC = db.collection("deal_score_stats").doc("themes");
+
+// How much each factor counts towards the score
+const WEIGHTS: Record<keyof DealScoreFactors, number> = {
+  discount: 0.35,
+  historicalLow: 0.25,
+  pricePerPiece: 0.15,
+  rarity: 0.15,
+  retirement: 0.1,
+};
+
+// Percent off that earns the full discount factor
+const FULL_DISCOUNT_PERCENT = 50;
+// Price this far above the historical low (as a share of it) scores nothing
+const HISTORICAL_LOW_RANGE = 0.25;
+// Price per piece at or below FLOOR × the theme median scores full, at CEILING × nothing
+const PRICE_PER_PIECE_FLOOR = 0.6;
+const PRICE_PER_PIECE_CEILING = 1.2;
+// Smaller sets (polybags, minifig packs) aren't compared per piece
+const MIN_PIECES = 50;
+// Sets a theme needs for its median to count
+const MIN_THEME_SETS = 5;
+// Prices seen before the historical low and discount rate are trusted (about a day of runs)
+const MIN_OBSERVATIONS = 24;
+// A recent high older than this is replaced by the next price seen
+const RECENT_HIGH_WINDOW_MS = 90 * 24 * 60 * 60 * 1000;
+// Catalog docs read per page when computing theme medians
+const CATALOG_PAGE_SIZE = 1000;
+
+/**
+ * What scoring a batch of deals needs: per-set stats and theme medians
+ */
+export interface DealScoreInputs {
+  stats: Map<string, SetPriceStats>;
+  themeMedians: Record<string, number>;
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function toScore(share: number): number {
+  return Math.round(clamp(share) * 100);
+}
+
+/**
+ * Load the stats and theme medians for a batch of sets
+ */
+export async function loadDealScoreInputs(setNumbers: string[]): Promise<DealScoreInputs> {
+  const unique = [...new Set(setNumbers)];
+  const [statsDocs, themeDoc] = await Promise.all([
+    unique.length > 0
+      ? db.getAll(...unique.map((setNumber) => db.collection(STATS_COLLECTION).doc(setNumber)))
+      : Promise.resolve([]),
+    THEME_STATS_DOC.get(),
+  ]);
+
+  const stats = new Map<string, SetPriceStats>();
+  statsDocs
+    .filter((doc) => doc.exists)
+    .forEach((doc) => stats.set(doc.id, doc.data() as SetPriceStats));
+
+  return {
+    stats,
+    themeMedians: themeDoc.exists ? (themeDoc.data() as ThemePriceStats).medians : {},
+  };
+}
+
+/**
+ * Fold a published price into its set's stats, both in memory (so deals
+ * built afterwards see it) and as a queued write
+ * Only in-stock prices count; each retailer's entry is written by one shard at a time.
+ * @param discounted - Whether the price is discounted enough to be a deal
+ */
+export function recordPriceObservation(
+  writes: WriteOp[],
+  inputs: DealScoreInputs,
+  priceData: PriceData,
+  discounted: boolean
+): void {
+  if (!priceData.inStock || priceData.currentPrice <= 0) return;
+
+  const { setNumber, retailer, currentPrice, lastUpdated } = priceData;
+  const stats = inputs.stats.get(setNumber) ?? { setNumber, retailers: {}, updatedAt: lastUpdated };
+  const previous = stats.retailers[retailer];
+  const isLow = !previous || currentPrice < previous.lowPrice;
+  const isHigh = previous?.recentHigh === undefined || previous.recentHighAt === undefined ||
+    currentPrice >= previous.recentHigh ||
+    lastUpdated.toMillis() - previous.recentHighAt.toMillis() > RECENT_HIGH_WINDOW_MS;
+
+  stats.retailers[retailer] = {
+    observations: (previous?.observations ?? 0) + 1,
+    discounted: (previous?.discounted ?? 0) + (discounted ? 1 : 0),
+    lowPrice: isLow ? currentPrice : previous.lowPrice,
+    lowPriceAt: isLow ? lastUpdated : previous.lowPriceAt,
+    recentHigh: isHigh ? currentPrice : previous.recentHigh,
+    recentHighAt: isHigh ? lastUpdated : previous.recentHighAt,
+  };
+  stats.updatedAt = lastUpdated;
+  inputs.stats.set(setNumber, stats);
+
+  // Counters are incremented so a review approved mid-run can't lose a run's observation
+  const update = {
+    setNumber,
+    retailers: {
+      [retailer]: {
+        observations: admin.firestore.FieldValue.increment(1),
+        discounted: admin.firestore.FieldValue.increment(discounted ? 1 : 0),
+        ...(isLow ? { lowPrice: currentPrice, lowPriceAt: lastUpdated } : {}),
+        ...(isHigh ? { recentHigh: currentPrice, recentHighAt: lastUpdated } : {}),
+      },
+    },
+    updatedAt: lastUpdated,
+  };
+  writes.push((batch) => batch.set(db.collection(STATS_COLLECTION).doc(setNumber), update, { merge: true }));
+}
+
+/**
+ * Score a deal
+ * @param percentOff - The deal's percent off the verified MSRP
+ */
+export function scoreDeal(
+  set: LegoSet,
+  priceData: PriceData,
+  percentOff: number,
+  inputs: DealScoreInputs
+): { dealScore: number; dealScoreFactors: DealScoreFactors } {
+  const retailerStats = Object.values(inputs.stats.get(set.setNumber)?.retailers ?? {});
+  const observations = retailerStats.reduce((sum, stats) => sum + stats.observations, 0);
+  const own = inputs.stats.get(set.setNumber)?.retailers[priceData.retailer];
+
+  let historicalLow: number | null = null;
+  if (observations >= MIN_OBSERVATIONS) {
+    const low = Math.min(...retailerStats.map((stats) => stats.lowPrice));
+    historicalLow = toScore(1 - (priceData.currentPrice - low) / low / HISTORICAL_LOW_RANGE);
+  }
+
+  let pricePerPiece: number | null = null;
+  const themeMedian = set.themeId !== undefined ? inputs.themeMedians[String(set.themeId)] : undefined;
+  if (themeMedian && set.pieces && set.pieces >= MIN_PIECES) {
+    const ratio = priceData.currentPrice / set.pieces / themeMedian;
+    pricePerPiece = toScore((PRICE_PER_PIECE_CEILING - ratio) / (PRICE_PER_PIECE_CEILING - PRICE_PER_PIECE_FLOOR));
+  }
+
+  const rarity = own && own.observations >= MIN_OBSERVATIONS
+    ? toScore(1 - own.discounted / own.observations)
+    : null;
+
+  const factors: DealScoreFactors = {
+    discount: toScore(percentOff / FULL_DISCOUNT_PERCENT),
+    historicalLow,
+    pricePerPiece,
+    retirement: set.availability === "retiring_soon" ? 100 : 0,
+    rarity,
+  };
+
+  let total = 0;
+  let weight = 0;
+  for (const [factor, value] of Object.entries(factors) as [keyof DealScoreFactors, number | null][]) {
+    if (value === null) continue;
+    total += value * WEIGHTS[factor];
+    weight += WEIGHTS[factor];
+  }
+
+  return { dealScore: Math.round(total / weight), dealScoreFactors: factors };
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+}
+
+/**
+ * Recompute the median verified MSRP per piece of every root theme
+ * @returns The number of themes with a median
+ */
+export async function updateThemePriceStats(): Promise<number> {
+  const perPiece = new Map<string, number[]>();
+  let last: string | undefined;
+
+  for (;;) {
+    let query = db.collection("lego_catalog")
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .select("themeId", "pieces", "msrp", "msrpConfidence")
+      .limit(CATALOG_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+
+    const snapshot = await query.get();
+    for (const doc of snapshot.docs) {
+      const set = doc.data() as LegoSet;
+      const msrp = getVerifiedMsrp(set);
+      if (msrp === null || set.themeId === undefined || !set.pieces || set.pieces < MIN_PIECES) continue;
+
+      const values = perPiece.get(String(set.themeId)) ?? [];
+      values.push(msrp / set.pieces);
+      perPiece.set(String(set.themeId), values);
+    }
+
+    if (snapshot.size < CATALOG_PAGE_SIZE) break;
+    last = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  const stats: ThemePriceStats = { medians: {}, sets: {}, updatedAt: admin.firestore.Timestamp.now() };
+  for (const [theme, values] of perPiece) {
+    if (values.length < MIN_THEME_SETS) continue;
+    stats.medians[theme] = Math.round(median(values) * 10000) / 10000;
+    stats.sets[theme] = values.length;
+  }
+
+  await THEME_STATS_DOC.set(stats);
+  logger.info(`Updated price per piece medians for ${Object.keys(stats.medians).length} themes`);
+  return Object.keys(stats.medians).length;
+}
@@ -0,0 +1,157 @@
+/**
+ * Deal digests
+ *
+ * Devices can opt in to a daily or weekly roundup of the best current
+ * deals matching their discount threshold and watch lists, sent at a local
+ * hour they pick. Weekly digests go out on Sundays. The job runs at the top
+ * of every hour and picks the devices whose digest hour it is. Alerts held
+ * back by a device's daily cap the day before are rolled into its digest.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites } from "./db";
+import { DealData, DeferredNotification, NotificationPayload, PushToken } from "./types";
+import { getDigestHour, getLocalHour } from "./quietHours";
+import { getDigestOverflow, isMuted, isWatchingDeal, sendExpoPushNotification } from "./notifications";
+
+// Deals listed in one digest
+const DIGEST_SIZE = 5;
+// Held-back alerts listed in one digest before the rest are counted
+const OVERFLOW_LINES = 2;
+// Top deals loaded to pick from
+const DEALS_SCANNED = 300;
+const WEEKLY_DIGEST_DAY = "Sun";
+// Guards against a second digest if the job runs late or is retried
+const MIN_DIGEST_GAP_MS = 20 * 60 * 60 * 1000;
+
+/**
+ * Whether it's this device's digest hour and it hasn't had one yet
+ */
+function isDigestDue(tokenData: PushToken, now: Date): boolean {
+  const { hour, weekday } = getLocalHour(tokenData, now);
+
+  if (hour !== getDigestHour(tokenData)) return false;
+  if (tokenData.digestCadence === "weekly" && weekday !== WEEKLY_DIGEST_DAY) return false;
+
+  const lastSent = tokenData.lastDigestAt?.toMillis() ?? 0;
+  return now.getTime() - lastSent >= MIN_DIGEST_GAP_MS;
+}
+
+/**
+ * Best deals for a device, one per set
+ * @param deals - In-stock deals sorted by percentOff, highest first
+ */
+function pickDigestDeals(tokenData: PushToken, deals: DealData[]): DealData[] {
+  const seen = new Set<string>();
+  const picks: DealData[] = [];
+
+  for (const deal of deals) {
+    if (deal.percentOff < tokenData.minDiscountThreshold) break;
+    if (seen.has(deal.setNumber)) continue;
+    if (isMuted(tokenData, deal) || !isWatchingDeal(tokenData, deal)) continue;
+
+    seen.add(deal.setNumber);
+    picks.push(deal);
+    if (picks.length >= DIGEST_SIZE) break;
+  }
+
+  return picks;
+}
+
+/**
+ * Build the digest notification
+ * The data carries the filters the app applies to Home when it's tapped.
+ * @param overflow - Alerts held back by the daily cap, oldest first
+ */
+function buildDigest(
+  tokenData: PushToken,
+  picks: DealData[],
+  overflow: DeferredNotification[]
+): NotificationPayload {
+  const cadence = tokenData.digestCadence === "weekly" ? "Weekly" : "Daily";
+  const lines = picks.map((deal) => `${deal.percentOff}% off ${deal.setName} - $${deal.currentPrice}`);
+
+  if (overflow.length > 0) {
+    lines.push(`${overflow.length} more ${overflow.length === 1 ? "alert" : "alerts"} from yesterday:`);
+    lines.push(...overflow.slice(0, OVERFLOW_LINES).map((item) => item.notification.body));
+    if (overflow.length > OVERFLOW_LINES) {
+      lines.push(`+${overflow.length - OVERFLOW_LINES} more`);
+    }
+  }
+
+  return {
+    title: picks.length > 0
+      ? `${cadence} Deal Digest: Top ${picks.length} deals`
+      : `${cadence} Deal Digest: ${overflow.length} alerts from yesterday`,
+    body: lines.join("\n"),
+    data: {
+      type: "digest",
+      count: picks.length,
+      minDiscount: tokenData.minDiscountThreshold,
+      themeIds: tokenData.watchedThemes.filter(Number.isInteger),
+    },
+  };
+}
+
+/**
+ * Send digests to every device whose digest is due
+ * @returns Number of devices that got a digest
+ */
+export async function sendDealDigests(): Promise<number> {
+  const now = new Date();
+
+  const tokensSnapshot = await db.collection("push_tokens")
+    .where("notificationsEnabled", "==", true)
+    .where("digestCadence", "in", ["daily", "weekly"])
+    .get();
+
+  const due = tokensSnapshot.docs
+    .map((doc) => doc.data() as PushToken)
+    .filter((tokenData) => isDigestDue(tokenData, now));
+
+  if (due.length === 0) return 0;
+
+  const dealsSnapshot = await db.collection("deals")
+    .orderBy("percentOff", "desc")
+    .limit(DEALS_SCANNED)
+    .get();
+  const deals = dealsSnapshot.docs
+    .map((doc) => doc.data() as DealData)
+    .filter((deal) => deal.inStock);
+
+  const overflow = await getDigestOverflow(due.map((tokenData) => tokenData.token), now);
+
+  // Devices with identical digests share one send
+  const groups = new Map<string, { tokens: string[]; notification: NotificationPayload }>();
+  for (const tokenData of due) {
+    const picks = pickDigestDeals(tokenData, deals);
+    const held = (overflow.get(tokenData.token) ?? []).map((doc) => doc.data() as DeferredNotification);
+    if (picks.length === 0 && held.length === 0) continue;
+
+    const notification = buildDigest(tokenData, picks, held);
+    const key = JSON.stringify(notification);
+    const group = groups.get(key) ?? { tokens: [], notification };
+    group.tokens.push(tokenData.token);
+    groups.set(key, group);
+  }
+
+  let sent = 0;
+  for (const { tokens, notification } of groups.values()) {
+    await sendExpoPushNotification(tokens, notification);
+    sent += tokens.length;
+  }
+
+  // Mark every due device, including ones with nothing to report this time,
+  // and drop the held-back alerts the digests carried
+  const lastDigestAt = admin.firestore.Timestamp.fromDate(now);
+  await commitWrites([
+    ...due.map((tokenData) => (batch: admin.firestore.WriteBatch) =>
+      batch.update(db.collection("push_tokens").doc(tokenData.token), { lastDigestAt })
+    ),
+    ...[...overflow.values()].flat().map((doc) => (batch: admin.firestore.WriteBatch) => batch.delete(doc.ref)),
+  ]);
+
+  logger.info(`Sent deal digests to ${sent} of ${due.length} due devices`);
+  return sent;
+}
@@ -0,0 +1,341 @@
+/**
+ * Expo push delivery
+ *
+ * Sends messages through the Expo push API and follows them up:
+ * each accepted message returns a ticket, which is stored so a scheduled
+ * job can fetch its receipt later. Devices Expo reports as no longer
+ * registered are deleted; other failures are counted on the token and
+ * retried with exponential backoff.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites, WriteOp } from "./db";
+import { ExpoPushMessage, PushRetry, PushTicketRecord } from "./types";
+
+const SEND_ENDPOINT = "https://exp.host/--/api/v2/push/send";
+const RECEIPTS_ENDPOINT = "https://exp.host/--/api/v2/push/getReceipts";
+
+const TICKETS_COLLECTION = "push_tickets";
+const RETRIES_COLLECTION = "push_retries";
+
+// Expo accepts 100 messages per send and recommends 300 receipt IDs per request
+const SEND_BATCH_SIZE = 100;
+const RECEIPT_BATCH_SIZE = 300;
+// Docs read per receipt or retry pass
+const PAGE_SIZE = 1000;
+
+const MINUTE_MS = 60 * 1000;
+// Expo suggests waiting ~15 minutes before asking for receipts
+const RECEIPT_DELAY_MS = 15 * MINUTE_MS;
+// Receipts are kept for a day; after that a missing one won't show up
+const RECEIPT_EXPIRY_MS = 24 * 60 * MINUTE_MS;
+
+// Retries back off 5, 10, 20, 40 minutes, then give up
+const RETRY_BASE_MS = 5 * MINUTE_MS;
+const MAX_ATTEMPTS = 5;
+
+// Errors worth sending again; the rest won't succeed on a retry
+const RETRYABLE_ERRORS = new Set(["MessageRateExceeded", "SendFailed"]);
+
+/**
+ * A ticket or receipt from the Expo push API
+ */
+interface ExpoPushStatus {
+  status: "ok" | "error";
+  id?: string;
+  message?: string;
+  details?: { error?: string };
+}
+
+/**
+ * A message on its way out, with the attempts made so far
+ */
+interface OutgoingMessage {
+  message: ExpoPushMessage;
+  attempts: number;
+}
+
+/**
+ * Error code from a ticket or receipt
+ */
+function errorCode(status: ExpoPushStatus): string {
+  return status.details?.error || status.message || "UnknownError";
+}
+
+/**
+ * Count a failed delivery on the token doc
+ * Uses update so a token deleted in the meantime isn't recreated.
+ */
+async function recordFailure(token: string, error: string): Promise<void> {
+  try {
+    await db.collection("push_tokens").doc(token).update({
+      deliveryFailures: admin.firestore.FieldValue.increment(1),
+      lastDeliveryError: error,
+      lastDeliveryErrorAt: admin.firestore.Timestamp.now(),
+    });
+  } catch {
+    // Token no longer registered
+  }
+}
+
+/**
+ * Queue a failed message for another attempt, or drop it once out of attempts
+ */
+function scheduleRetry(writes: WriteOp[], outgoing: OutgoingMessage, error: string): void {
+  const { message, attempts } = outgoing;
+
+  if (!RETRYABLE_ERRORS.has(error) || attempts >= MAX_ATTEMPTS) {
+    logger.warn(`Giving up on push to ${message.to} after ${attempts} attempts: ${error}`);
+    return;
+  }
+
+  const retry: PushRetry = {
+    token: message.to,
+    message,
+    attempts,
+    nextAttemptAt: admin.firestore.Timestamp.fromMillis(
+      Date.now() + RETRY_BASE_MS * 2 ** (attempts - 1)
+    ),
+    lastError: error,
+  };
+  writes.push((batch) => batch.set(db.collection(RETRIES_COLLECTION).doc(), retry));
+}
+
+/**
+ * Store tickets for accepted messages and deal with rejected ones
+ */
+async function handleTickets(
+  writes: WriteOp[],
+  sent: OutgoingMessage[],
+  tickets: ExpoPushStatus[]
+): Promise<void> {
+  const now = Date.now();
+
+  for (let i = 0; i < sent.length; i++) {
+    const outgoing = sent[i];
+    const ticket = tickets[i];
+    const token = outgoing.message.to;
+
+    if (ticket?.status === "ok" && ticket.id) {
+      const record: PushTicketRecord = {
+        ticketId: ticket.id,
+        token,
+        message: outgoing.message,
+        attempts: outgoing.attempts,
+        createdAt: admin.firestore.Timestamp.fromMillis(now),
+        checkAfter: admin.firestore.Timestamp.fromMillis(now + RECEIPT_DELAY_MS),
+      };
+      writes.push((batch) => batch.set(db.collection(TICKETS_COLLECTION).doc(record.ticketId), record));
+      continue;
+    }
+
+    const error = ticket ? errorCode(ticket) : "SendFailed";
+    if (error === "DeviceNotRegistered") {
+      writes.push((batch) => batch.delete(db.collection("push_tokens").doc(token)));
+      continue;
+    }
+
+    // A failed request says nothing about the device itself
+    if (error !== "SendFailed") {
+      await recordFailure(token, error);
+    }
+    scheduleRetry(writes, outgoing, error);
+  }
+}
+
+/**
+ * Send messages in batches of 100 and record what Expo did with each
+ */
+async function sendOutgoing(messages: OutgoingMessage[]): Promise<void> {
+  const writes: WriteOp[] = [];
+
+  for (let i = 0; i < messages.length; i += SEND_BATCH_SIZE) {
+    const batch = messages.slice(i, i + SEND_BATCH_SIZE);
+    let tickets: ExpoPushStatus[] = [];
+
+    try {
+      const response = await fetch(SEND_ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Accept": "application/json",
+          "Accept-Encoding": "gzip, deflate",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(batch.map(({ message }) => ({
+          ...message,
+          sound: "default",
+          badge: 1,
+          priority: "high",
+        }))),
+      });
+
+      if (!response.ok) {
+        logger.error(`Expo push error: ${response.status}`);
+      } else {
+        const result = await response.json() as { data?: ExpoPushStatus[] };
+        tickets = result.data ?? [];
+        logger.info(`Sent ${batch.length} notifications`);
+      }
+    } catch (error) {
+      logger.error("Failed to send push notifications:", error);
+    }
+
+    // Messages without a ticket (failed request) count as SendFailed
+    await handleTickets(writes, batch, tickets);
+  }
+
+  await commitWrites(writes);
+}
+
+/**
+ * Send messages through the Expo push API
+ */
+export async function sendExpoMessages(messages: ExpoPushMessage[]): Promise<void> {
+  await sendOutgoing(messages.map((message) => ({ message, attempts: 1 })));
+}
+
+/**
+ * Fetch receipts for tickets that are due and act on them
+ * @returns Number of tickets resolved
+ */
+async function checkReceipts(): Promise<number> {
+  const now = Date.now();
+  const snapshot = await db.collection(TICKETS_COLLECTION)
+    .where("checkAfter", "<=", admin.firestore.Timestamp.fromMillis(now))
+    .orderBy("checkAfter", "asc")
+    .limit(PAGE_SIZE)
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  const writes: WriteOp[] = [];
+  let resolved = 0;
+
+  for (let i = 0; i < snapshot.docs.length; i += RECEIPT_BATCH_SIZE) {
+    const docs = snapshot.docs.slice(i, i + RECEIPT_BATCH_SIZE);
+
+    let receipts: Record<string, ExpoPushStatus> = {};
+    try {
+      const response = await fetch(RECEIPTS_ENDPOINT, {
+        method: "POST",
+        headers: {
+          "Accept": "application/json",
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ ids: docs.map((doc) => doc.id) }),
+      });
+
+      if (!response.ok) {
+        logger.error(`Expo receipts error: ${response.status}`);
+        continue;
+      }
+      const result = await response.json() as { data?: Record<string, ExpoPushStatus> };
+      receipts = result.data ?? {};
+    } catch (error) {
+      logger.error("Failed to fetch push receipts:", error);
+      continue;
+    }
+
+    for (const doc of docs) {
+      const ticket = doc.data() as PushTicketRecord;
+      const receipt = receipts[doc.id];
+
+      if (!receipt) {
+        // Not ready yet; give up once Expo would have dropped it
+        if (now - ticket.createdAt.toMillis() > RECEIPT_EXPIRY_MS) {
+          writes.push((batch) => batch.delete(doc.ref));
+          resolved++;
+        } else {
+          writes.push((batch) => batch.update(doc.ref, {
+            checkAfter: admin.firestore.Timestamp.fromMillis(now + RECEIPT_DELAY_MS),
+          }));
+        }
+        continue;
+      }
+
+      if (receipt.status === "error") {
+        const error = errorCode(receipt);
+        if (error === "DeviceNotRegistered") {
+          writes.push((batch) => batch.delete(db.collection("push_tokens").doc(ticket.token)));
+        } else {
+          await recordFailure(ticket.token, error);
+          scheduleRetry(writes, { message: ticket.message, attempts: ticket.attempts }, error);
+        }
+      }
+
+      writes.push((batch) => batch.delete(doc.ref));
+      resolved++;
+    }
+  }
+
+  await commitWrites(writes);
+  return resolved;
+}
+
+/**
+ * Send the retries that are due, skipping tokens that have since been removed
+ * @returns Number of messages sent again
+ */
+async function sendDueRetries(): Promise<number> {
+  const snapshot = await db.collection(RETRIES_COLLECTION)
+    .where("nextAttemptAt", "<=", admin.firestore.Timestamp.now())
+    .orderBy("nextAttemptAt", "asc")
+    .limit(PAGE_SIZE)
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  const retries = snapshot.docs.map((doc) => doc.data() as PushRetry);
+  const tokenDocs = await db.getAll(
+    ...[...new Set(retries.map((r) => r.token))].map((token) => db.collection("push_tokens").doc(token))
+  );
+  const registered = new Set(tokenDocs.filter((doc) => doc.exists).map((doc) => doc.id));
+
+  await commitWrites(snapshot.docs.map((doc) => (batch) => batch.delete(doc.ref)));
+
+  const outgoing = retries
+    .filter((retry) => registered.has(retry.token))
+    .map((retry) => ({ message: retry.message, attempts: retry.attempts + 1 }));
+
+  await sendOutgoing(outgoing);
+  return outgoing.length;
+}
+
+/**
+ * Follow up on sent pushes: act on receipts, then resend due retries
+ */
+export async function processPushReceipts(): Promise<{ receipts: number; retries: number }> {
+  const receipts = await checkReceipts();
+  const retries = await sendDueRetries();
+
+  logger.info(`Resolved ${receipts} push receipts, retried ${retries} messages`);
+  return { receipts, retries };
+}
+
+/**
+ * Delete push tokens that keep failing or haven't been updated in a long time
+ * @param options.maxFailures - Delete tokens with at least this many failed deliveries
+ * @param options.inactiveDays - Delete tokens not updated for this many days
+ * @param options.dryRun - Only list what would be deleted
+ * @returns The tokens deleted (or that would be)
+ */
+export async function pruneStaleTokens(
+  options: { maxFailures: number; inactiveDays: number; dryRun: boolean }
+): Promise<string[]> {
+  const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - options.inactiveDays * 24 * 60 * MINUTE_MS);
+
+  const [failing, inactive] = await Promise.all([
+    db.collection("push_tokens").where("deliveryFailures", ">=", options.maxFailures).get(),
+    db.collection("push_tokens").where("lastUpdated", "<", cutoff).get(),
+  ]);
+
+  const stale = new Map<string, admin.firestore.DocumentReference>();
+  [...failing.docs, ...inactive.docs].forEach((doc) => stale.set(doc.id, doc.ref));
+
+  if (!options.dryRun) {
+    await commitWrites([...stale.values()].map((ref) => (batch) => batch.delete(ref)));
+    logger.info(`Pruned ${stale.size} stale push tokens`);
+  }
+  return [...stale.keys()];
+}
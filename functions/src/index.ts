@@ -2,9 +2,9 @@
  * Firebase Cloud Functions for Brick Deal Hunter
  *
  * These functions run on Firebase servers and:
- * 1. Fetch LEGO sets from Rebrickable API (reliable, free)
+ * 1. Sync the LEGO set catalog from Rebrickable API (reliable, free)
  * 2. Store price data in Firestore
- * 3. Calculate deals and discounts
+ * 3. Import official MSRPs and calculate deals and discounts against them
  * 4. Handle push notifications
  *
  * SECURITY FEATURES:
@@ -18,12 +18,62 @@
 import { setGlobalOptions } from "firebase-functions";
 import { onSchedule } from "firebase-functions/v2/scheduler";
 import { onRequest } from "firebase-functions/v2/https";
+import { onTaskDispatched } from "firebase-functions/v2/tasks";
 import * as logger from "firebase-functions/logger";
 import * as admin from "firebase-admin";
-
-// Initialize Firebase Admin
-admin.initializeApp();
-const db = admin.firestore();
+import { AdminScope, PriceShard, PushToken } from "./types";
+import {
+  isValidSetNumber,
+  isValidExpoPushToken,
+  sanitizeSetTargets,
+  sanitizeHour,
+  isValidTimeZone,
+  isValidDigestCadence,
+} from "./validation";
+import { db } from "./db";
+import { compactPriceHistory } from "./priceHistory";
+import {
+  approvePriceReview,
+  failPriceShard,
+  getPriceRunReport,
+  runPriceShard,
+  SHARD_MAX_ATTEMPTS,
+  startPriceRun,
+} from "./pricePipeline";
+import { listPendingReviews, rejectPriceReview } from "./anomalyGuard";
+import { continueReplay, failReplay, getReplayRun, REPLAY_MAX_ATTEMPTS, startReplay } from "./replay";
+import {
+  sendExpoPushNotification,
+  TEST_NOTIFICATION,
+  flushDeferredNotifications,
+} from "./notifications";
+import { processPushReceipts } from "./expoPush";
+import { sendDealDigests } from "./digest";
+import { diffCatalog, syncCatalog } from "./catalogSync";
+import { updateThemePriceStats } from "./dealScore";
+import { describeError, finishJobRun, getOperationalStatus, startJobRun } from "./jobRuns";
+import { checkRateLimit, RateLimitedEndpoint, RateLimitScope } from "./rateLimit";
+import {
+  authorizeAdminRequest,
+  createAdminKey,
+  isValidAdminScope,
+  listAdminKeys,
+  MAX_KEY_TTL_DAYS,
+  revokeAdminKey,
+  rotateAdminKey,
+} from "./adminAuth";
+import {
+  applyRetirementRecords,
+  importRetirementList,
+  parseRetirementList,
+  updateAvailability,
+} from "./retirement";
+import {
+  applyMsrpRecords,
+  getRegisteredMsrpSources,
+  importMsrpFromSources,
+  parseMsrpDataset,
+} from "./msrp";
 
 // Limit concurrent executions for cost control
 setGlobalOptions({ maxInstances: 10 });
@@ -32,8 +82,7 @@ setGlobalOptions({ maxInstances: 10 });
 // SECURITY CONFIGURATION
 // ============================================
 
-// API key for authenticating requests (set in Firebase environment)
-// Set with: firebase functions:config:set app.api_key="your-secure-key"
+// Bootstrap admin key; admin endpoints use scoped keys from admin_keys (see adminAuth.ts)
 const APP_API_KEY = process.env.APP_API_KEY || "";
 
 // Allowed origins for CORS (restrict to your app's domains)
@@ -44,48 +93,32 @@ const ALLOWED_ORIGINS = [
   "https://exp.host",
 ];
 
-// Rate limiting: track requests per IP
-const rateLimitMap = new Map<string, { count: number; resetTime: number }>();
-const RATE_LIMIT_WINDOW_MS = 60000; // 1 minute
-const RATE_LIMIT_MAX_REQUESTS = 30; // 30 requests per minute
-
 // ============================================
 // SECURITY HELPER FUNCTIONS
 // ============================================
 
 /**
- * Validate API key from request headers
+ * Admin credential from request headers, if one was sent
  */
-function validateApiKey(req: any): boolean {
-  const apiKey = req.headers["x-api-key"] || req.headers["authorization"]?.replace("Bearer ", "");
-
-  // In development, allow requests without API key if APP_API_KEY is not set
-  if (!APP_API_KEY) {
-    logger.warn("APP_API_KEY not configured - running in development mode");
-    return true;
-  }
-
-  return apiKey === APP_API_KEY;
+function getAdminCredential(req: any): string | undefined {
+  return req.headers["x-api-key"] || req.headers["authorization"]?.replace("Bearer ", "") || undefined;
 }
 
 /**
- * Check rate limiting for an IP address
+ * Check the request's admin credential for a scope, audit the request,
+ * and send a 401/403 when it isn't allowed
+ * @returns true if the request may go ahead
  */
-function checkRateLimit(ip: string): boolean {
-  const now = Date.now();
-  const record = rateLimitMap.get(ip);
-
-  if (!record || now > record.resetTime) {
-    rateLimitMap.set(ip, { count: 1, resetTime: now + RATE_LIMIT_WINDOW_MS });
-    return true;
-  }
-
-  if (record.count >= RATE_LIMIT_MAX_REQUESTS) {
-    return false;
-  }
+async function requireAdmin(req: any, res: any, endpoint: string, scope: AdminScope): Promise<boolean> {
+  const { allowed, status } = await authorizeAdminRequest(getAdminCredential(req), scope, {
+    endpoint,
+    ip: getClientIp(req),
+    method: req.method,
+  });
+  if (allowed) return true;
 
-  record.count++;
-  return true;
+  safeErrorResponse(res, status, status === 403 ? "Forbidden" : "Unauthorized");
+  return false;
 }
 
 /**
@@ -97,6 +130,25 @@ function getClientIp(req: any): string {
          "unknown";
 }
 
+/**
+ * Count a request against an endpoint's quota and send a 429 with
+ * Retry-After when it's over
+ * @returns true if the request was rejected
+ */
+async function isRateLimited(
+  res: any,
+  endpoint: RateLimitedEndpoint,
+  scope: RateLimitScope,
+  value: string
+): Promise<boolean> {
+  const { allowed, retryAfterSeconds } = await checkRateLimit(endpoint, scope, value);
+  if (allowed) return false;
+
+  res.set("Retry-After", String(retryAfterSeconds));
+  safeErrorResponse(res, 429, "Too many requests");
+  return true;
+}
+
 /**
  * Set CORS headers with restrictions
  */
@@ -118,37 +170,10 @@ function setCorsHeaders(req: any, res: any): void {
 
   res.set("Access-Control-Allow-Methods", "POST, OPTIONS");
   res.set("Access-Control-Allow-Headers", "Content-Type, X-API-Key, Authorization");
+  res.set("Access-Control-Expose-Headers", "Retry-After");
   res.set("Access-Control-Max-Age", "86400");
 }
 
-/**
- * Validate LEGO set number format
- * Valid formats: "75192", "75192-1", "10294-1"
- */
-function isValidSetNumber(setNumber: string): boolean {
-  if (!setNumber || typeof setNumber !== "string") return false;
-  // Allow digits with optional -1 suffix
-  return /^\d{4,6}(-\d)?$/.test(setNumber);
-}
-
-/**
- * Sanitize set number for URL usage
- */
-function sanitizeSetNumber(setNumber: string): string {
-  if (!isValidSetNumber(setNumber)) return "";
-  // Remove -1 suffix and ensure only digits
-  return setNumber.replace(/-\d$/, "").replace(/[^\d]/g, "");
-}
-
-/**
- * Validate Expo push token format
- * Expo tokens start with "ExponentPushToken["
- */
-function isValidExpoPushToken(token: string): boolean {
-  if (!token || typeof token !== "string") return false;
-  return /^ExponentPushToken\[[a-zA-Z0-9_-]+\]$/.test(token);
-}
-
 /**
  * Create a safe error response (no internal details)
  */
@@ -160,658 +185,678 @@ function safeErrorResponse(res: any, statusCode: number, message: string): void
 }
 
 // ============================================
-// TYPES
+// JOB SETTINGS
 // ============================================
 
-interface LegoSet {
-  setNumber: string;
-  name: string;
-  price: number;
-  imageUrl: string;
-  url: string;
-  theme?: string;
-  themeId?: number;
-  pieces?: number;
-  year?: number;
-  availability: "available" | "coming_soon" | "sold_out" | "retiring_soon";
-}
-
-interface PriceData {
-  setNumber: string;
-  setName: string;
-  retailer: string;
-  currentPrice: number;
-  originalPrice: number;
-  url: string;
-  inStock: boolean;
-  lastUpdated: admin.firestore.Timestamp;
-  theme?: string;
-  imageUrl?: string;
-  pieces?: number;
-}
+// Scheduled catalog and price jobs only compute diffs (for staging projects
+// trying out rule changes); set SCHEDULED_DRY_RUN=true
+const SCHEDULED_DRY_RUN = process.env.SCHEDULED_DRY_RUN === "true";
 
-interface DealData extends PriceData {
-  percentOff: number;
-  savings: number;
-}
-
-interface PushToken {
-  token: string;
-  platform: 'ios' | 'android' | 'web';
-  notificationsEnabled: boolean;
-  minDiscountThreshold: number;
-  watchedThemes: string[];
-  watchedSets: string[];
-  lastUpdated: admin.firestore.Timestamp;
-}
-
-interface NotificationPayload {
-  title: string;
-  body: string;
-  data: {
-    type: 'deal' | 'price_drop' | 'back_in_stock';
-    setNumber: string;
-    retailer: string;
-    percentOff: number;
-  };
-}
+// Largest MSRP dataset accepted inline by importMsrp
+const MAX_MSRP_UPLOAD_LENGTH = 5 * 1024 * 1024;
+// Largest retirement list accepted inline by importRetirements
+const MAX_RETIREMENT_UPLOAD_LENGTH = 5 * 1024 * 1024;
 
 // ============================================
-// REBRICKABLE API - Primary Source
+// SCHEDULED FUNCTIONS
 // ============================================
 
-const REBRICKABLE_API_KEY = process.env.REBRICKABLE_API_KEY || "";
-
-const THEME_NAMES: Record<number, string> = {
-  158: "Star Wars",
-  1: "Technic",
-  252: "Ideas",
-  435: "Architecture",
-  52: "City",
-  577: "Marvel Super Heroes",
-  494: "Friends",
-  246: "Creator",
-  576: "DC Super Heroes",
-  504: "Harry Potter",
-  592: "Ninjago",
-  610: "Speed Champions",
-  209: "Disney",
-  720: "Icons",
-  667: "Botanical Collection",
-  608: "Super Mario",
-  573: "Minecraft",
-  697: "Art",
-  503: "Duplo",
-};
-
-async function fetchFromRebrickable(): Promise<LegoSet[]> {
-  logger.info("Fetching sets from Rebrickable API...");
-
-  const currentYear = new Date().getFullYear();
-  const minYear = currentYear - 3;
-
-  const sets: LegoSet[] = [];
-  let page = 1;
-  const maxPages = 10;
-
-  while (page <= maxPages) {
-    try {
-      logger.info(`Fetching Rebrickable page ${page}...`);
-
-      const response = await fetch(
-        `https://rebrickable.com/api/v3/lego/sets/?min_year=${minYear}&max_year=${currentYear + 1}&page=${page}&page_size=100&ordering=-year`,
-        {
-          headers: {
-            "Authorization": `key ${REBRICKABLE_API_KEY}`,
-            "Accept": "application/json",
-          },
-        }
-      );
+export const updateLegoCatalog = onSchedule(
+  {
+    // Each run resumes the sync from its checkpoint; a finished pass
+    // only restarts once a day
+    schedule: "every 2 hours",
+    timeZone: "America/New_York",
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    logger.info("Starting LEGO catalog sync...");
 
-      if (!response.ok) {
-        logger.error(`Rebrickable API error: ${response.status}`);
-        break;
+    const runId = await startJobRun("updateLegoCatalog");
+
+    try {
+      if (SCHEDULED_DRY_RUN) {
+        // The diff is kept in catalog_diffs/{runId}
+        await diffCatalog(480 * 1000, runId);
+        await finishJobRun(runId, "updateLegoCatalog", { setsProcessed: 0, dealsFound: 0, errors: [], dryRun: true });
+        return;
       }
 
-      const data = await response.json();
-      const results = data.results || [];
+      // Leave a minute of the timeout for the last page's writes
+      const { seen } = await syncCatalog(480 * 1000);
+      await finishJobRun(runId, "updateLegoCatalog", { setsProcessed: seen, dealsFound: 0, errors: [] });
+    } catch (error) {
+      logger.error("Catalog sync failed:", error);
+      await finishJobRun(runId, "updateLegoCatalog", {
+        setsProcessed: 0,
+        dealsFound: 0,
+        errors: [describeError(error)],
+        ...(SCHEDULED_DRY_RUN ? { dryRun: true } : {}),
+      });
+      throw error;
+    }
+  }
+);
+
+export const updatePrices = onSchedule(
+  {
+    // Each run fans out into shards on the processPriceShard queue
+    schedule: "every 60 minutes",
+    timeZone: "America/New_York",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    logger.info("Starting price run...");
 
-      if (results.length === 0) {
-        logger.info("No more results from Rebrickable");
-        break;
+    try {
+      const started = await startPriceRun("scheduled", { notify: true, dryRun: SCHEDULED_DRY_RUN });
+      if (!started) {
+        logger.info("Catalog empty, waiting for the catalog sync");
       }
+    } catch (error) {
+      logger.error("Could not start price run:", error);
+      throw error;
+    }
+  }
+);
 
-      for (const set of results) {
-        if (!set.set_img_url || set.num_parts < 20) continue;
-        if (set.num_parts < 50 && set.name.toLowerCase().includes("minifig")) continue;
-
-        const estimatedPrice = Math.round(set.num_parts * 0.11);
-
-        sets.push({
-          setNumber: set.set_num,
-          name: set.name,
-          price: estimatedPrice > 0 ? estimatedPrice : 20,
-          imageUrl: set.set_img_url,
-          url: `https://www.lego.com/en-us/product/${sanitizeSetNumber(set.set_num)}`,
-          theme: THEME_NAMES[set.theme_id] || "LEGO",
-          themeId: set.theme_id,
-          pieces: set.num_parts,
-          year: set.year,
-          availability: "available",
-        });
+/**
+ * Fetch and store prices for one shard of a price run
+ * A shard that fails on its last attempt is recorded on the run as failed.
+ */
+export const processPriceShard = onTaskDispatched<PriceShard>(
+  {
+    retryConfig: { maxAttempts: SHARD_MAX_ATTEMPTS, minBackoffSeconds: 60 },
+    // Shards run side by side; keep the total load on retailers bounded
+    rateLimits: { maxConcurrentDispatches: 6 },
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async (req) => {
+    try {
+      await runPriceShard(req.data);
+    } catch (error) {
+      logger.error(`Price shard ${req.data.runId}/${req.data.shardId} failed:`, error);
+      if (req.retryCount >= SHARD_MAX_ATTEMPTS - 1) {
+        await failPriceShard(req.data, describeError(error));
       }
+      throw error;
+    }
+  }
+);
 
-      logger.info(`Page ${page}: fetched ${results.length} sets, total so far: ${sets.length}`);
-
-      if (!data.next) {
-        logger.info("Reached last page of Rebrickable results");
-        break;
+/**
+ * Continue a deal replay from its checkpoint (queued by replayDeals and by itself)
+ */
+export const replayDealsStep = onTaskDispatched<{ runId: string }>(
+  {
+    retryConfig: { maxAttempts: REPLAY_MAX_ATTEMPTS, minBackoffSeconds: 60 },
+    // One step at a time; each continues where the last one stopped
+    rateLimits: { maxConcurrentDispatches: 1 },
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async (req) => {
+    try {
+      // Leave a minute of the timeout for the last page's writes
+      await continueReplay(req.data.runId, 480 * 1000);
+    } catch (error) {
+      logger.error(`Deal replay ${req.data.runId} step failed:`, error);
+      if (req.retryCount >= REPLAY_MAX_ATTEMPTS - 1) {
+        await failReplay(req.data.runId, describeError(error));
       }
+      throw error;
+    }
+  }
+);
 
-      page++;
-      await new Promise(resolve => setTimeout(resolve, 300));
+export const compactPriceHistoryJob = onSchedule(
+  {
+    schedule: "every day 03:00",
+    timeZone: "America/New_York",
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    logger.info("Starting price history compaction...");
 
+    try {
+      // Leave a minute of the timeout for in-flight batches
+      await compactPriceHistory(480 * 1000);
     } catch (error) {
-      logger.error(`Rebrickable page ${page} failed:`, error);
-      break;
+      logger.error("Price history compaction failed:", error);
+      throw error;
     }
   }
+);
 
-  logger.info(`Total sets fetched from Rebrickable: ${sets.length}`);
-  return sets;
-}
+export const flushQuietHoursNotifications = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "America/New_York",
+    memory: "256MiB",
+    timeoutSeconds: 120,
+  },
+  async () => {
+    try {
+      await flushDeferredNotifications();
+    } catch (error) {
+      logger.error("Deferred notification flush failed:", error);
+      throw error;
+    }
+  }
+);
 
-async function fetchThemes(): Promise<void> {
-  try {
-    const response = await fetch(
-      "https://rebrickable.com/api/v3/lego/themes/?page_size=500",
-      {
-        headers: {
-          "Authorization": `key ${REBRICKABLE_API_KEY}`,
-          "Accept": "application/json",
-        },
-      }
-    );
+export const sendDigests = onSchedule(
+  {
+    schedule: "0 * * * *",
+    timeZone: "UTC",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    try {
+      await sendDealDigests();
+    } catch (error) {
+      logger.error("Deal digest failed:", error);
+      throw error;
+    }
+  }
+);
 
-    if (response.ok) {
-      const data = await response.json();
-      logger.info(`Fetched ${data.results?.length || 0} themes from Rebrickable`);
+export const checkPushReceipts = onSchedule(
+  {
+    schedule: "every 15 minutes",
+    timeZone: "America/New_York",
+    memory: "256MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    try {
+      await processPushReceipts();
+    } catch (error) {
+      logger.error("Push receipt check failed:", error);
+      throw error;
     }
-  } catch (error) {
-    logger.warn("Could not fetch themes:", error);
   }
-}
+);
 
-// ============================================
-// FIRESTORE OPERATIONS
-// ============================================
+export const refreshMsrp = onSchedule(
+  {
+    schedule: "every monday 04:00",
+    timeZone: "America/New_York",
+    memory: "512MiB",
+    timeoutSeconds: 540,
+  },
+  async () => {
+    logger.info("Starting MSRP refresh...");
 
-async function saveLegoSetsCatalog(sets: LegoSet[]): Promise<void> {
-  const batchSize = 450;
+    try {
+      await importMsrpFromSources();
+    } catch (error) {
+      logger.error("MSRP refresh failed:", error);
+      throw error;
+    }
+  }
+);
 
-  for (let i = 0; i < sets.length; i += batchSize) {
-    const batch = db.batch();
-    const chunk = sets.slice(i, i + batchSize);
+export const updateRetirements = onSchedule(
+  {
+    schedule: "every day 05:00",
+    timeZone: "America/New_York",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    logger.info("Starting retirement update...");
 
-    for (const set of chunk) {
-      const docRef = db.collection("lego_catalog").doc(set.setNumber);
-      batch.set(docRef, {
-        ...set,
-        lastUpdated: admin.firestore.Timestamp.now(),
-      }, { merge: true });
+    try {
+      // A bad list shouldn't hold up the date-driven transitions
+      await importRetirementList().catch((error) =>
+        logger.error("Retirement list import failed:", error)
+      );
+      await updateAvailability();
+    } catch (error) {
+      logger.error("Retirement update failed:", error);
+      throw error;
     }
-
-    await batch.commit();
-    logger.info(`Saved batch ${Math.floor(i / batchSize) + 1} (${chunk.length} sets)`);
   }
+);
 
-  logger.info(`Saved ${sets.length} sets to catalog`);
-}
-
-async function getLegoSetsCatalog(): Promise<LegoSet[]> {
-  const snapshot = await db.collection("lego_catalog")
-    .where("availability", "in", ["available", "retiring_soon"])
-    .limit(500)
-    .get();
+export const updateThemePriceStatsJob = onSchedule(
+  {
+    // Theme medians for the deal score's price per piece factor
+    schedule: "every day 05:30",
+    timeZone: "America/New_York",
+    memory: "512MiB",
+    timeoutSeconds: 300,
+  },
+  async () => {
+    logger.info("Starting theme price stats update...");
 
-  return snapshot.docs.map((doc) => doc.data() as LegoSet);
-}
+    try {
+      await updateThemePriceStats();
+    } catch (error) {
+      logger.error("Theme price stats update failed:", error);
+      throw error;
+    }
+  }
+);
 
 // ============================================
-// PRICE DATA FUNCTIONS
+// HTTP ENDPOINTS (with security)
 // ============================================
 
-// Allowed retailer domains for URL validation
-const ALLOWED_RETAILER_DOMAINS: Record<string, string> = {
-  lego: "lego.com",
-  amazon: "amazon.com",
-  walmart: "walmart.com",
-  target: "target.com",
-  best_buy: "bestbuy.com",
-  kohls: "kohls.com",
-  gamestop: "gamestop.com",
-  shop_disney: "shopdisney.com",
-  macys: "macys.com",
-  barnes_noble: "barnesandnoble.com",
-  sams_club: "samsclub.com",
-  walgreens: "walgreens.com",
-};
-
-function getRetailerUrl(retailer: string, setNumber: string): string {
-  const cleanSetNum = sanitizeSetNumber(setNumber);
-
-  // Validate retailer is in our allowed list
-  if (!ALLOWED_RETAILER_DOMAINS[retailer]) {
-    return "";
-  }
+export const manualCatalogUpdate = onRequest(
+  { memory: "512MiB", timeoutSeconds: 540 },
+  async (req, res) => {
+    if (!(await requireAdmin(req, res, "manualCatalogUpdate", "catalog:write"))) {
+      return;
+    }
 
-  switch (retailer) {
-    case "lego":
-      return `https://www.lego.com/en-us/product/${cleanSetNum}`;
-    case "amazon":
-      return `https://www.amazon.com/s?k=LEGO+${cleanSetNum}`;
-    case "walmart":
-      return `https://www.walmart.com/search?q=LEGO+${cleanSetNum}`;
-    case "target":
-      return `https://www.target.com/s?searchTerm=LEGO+${cleanSetNum}`;
-    case "best_buy":
-      return `https://www.bestbuy.com/site/searchpage.jsp?st=LEGO+${cleanSetNum}`;
-    case "kohls":
-      return `https://www.kohls.com/search.jsp?search=LEGO+${cleanSetNum}`;
-    case "gamestop":
-      return `https://www.gamestop.com/search/?q=LEGO+${cleanSetNum}`;
-    case "shop_disney":
-      return `https://www.shopdisney.com/search?q=LEGO+${cleanSetNum}`;
-    case "macys":
-      return `https://www.macys.com/shop/featured/lego+${cleanSetNum}`;
-    case "barnes_noble":
-      return `https://www.barnesandnoble.com/s/LEGO+${cleanSetNum}`;
-    case "sams_club":
-      return `https://www.samsclub.com/s/LEGO+${cleanSetNum}`;
-    case "walgreens":
-      return `https://www.walgreens.com/search/results.jsp?Ntt=LEGO+${cleanSetNum}`;
-    default:
-      return "";
-  }
-}
+    // Pass { dryRun: true } to see what a sync would change without writing
+    if (req.body?.dryRun === true) {
+      try {
+        res.json({ success: true, dryRun: true, diff: await diffCatalog(480 * 1000) });
+      } catch (error) {
+        logger.error("Catalog dry run failed:", error);
+        safeErrorResponse(res, 500, "Catalog dry run failed");
+      }
+      return;
+    }
 
-function generateSimulatedPrice(set: LegoSet, retailer: string): PriceData {
-  const originalPrice = set.price;
+    logger.info("Manual catalog sync triggered");
+    const runId = await startJobRun("manualCatalogUpdate");
 
-  let discountPercent = 0;
-  if (retailer !== "lego") {
-    if (Math.random() < 0.7) {
-      discountPercent = Math.floor(Math.random() * 31) + 10;
-    }
+    try {
+      // Pass { force: true } to start a new pass even if one finished recently
+      const { state, seen } = await syncCatalog(480 * 1000, req.body?.force === true);
+      await finishJobRun(runId, "manualCatalogUpdate", { setsProcessed: seen, dealsFound: 0, errors: [] });
 
-    if (Math.random() < 0.1) {
-      discountPercent = Math.floor(Math.random() * 21) + 40;
+      res.json({
+        success: true,
+        message: state.status === "complete"
+          ? `Catalog sync complete: ${state.changed} sets updated, ${state.removed} removed`
+          : `Catalog sync paused before page ${state.page}; call again to continue`,
+        status: state.status,
+        nextPage: state.page,
+        setsSeen: state.seen,
+        setsChanged: state.changed,
+        setsRemoved: state.removed,
+      });
+    } catch (error) {
+      logger.error("Manual catalog sync failed:", error);
+      await finishJobRun(runId, "manualCatalogUpdate", {
+        setsProcessed: 0,
+        dealsFound: 0,
+        errors: [describeError(error)],
+      });
+      safeErrorResponse(res, 500, "Catalog update failed");
     }
   }
+);
 
-  const currentPrice = Math.round(originalPrice * (1 - discountPercent / 100) * 100) / 100;
-  const inStock = set.availability === "available" && Math.random() > 0.15;
-
-  return {
-    setNumber: set.setNumber,
-    setName: set.name,
-    retailer,
-    currentPrice,
-    originalPrice,
-    url: getRetailerUrl(retailer, set.setNumber),
-    inStock,
-    lastUpdated: admin.firestore.Timestamp.now(),
-    imageUrl: set.imageUrl,
-    theme: set.theme,
-    pieces: set.pieces,
-  };
-}
+export const manualPriceUpdate = onRequest(
+  { memory: "512MiB", timeoutSeconds: 300 },
+  async (req, res) => {
+    if (!(await requireAdmin(req, res, "manualPriceUpdate", "prices:write"))) {
+      return;
+    }
 
-async function savePriceToFirestore(price: PriceData): Promise<void> {
-  const docId = `${price.setNumber}_${price.retailer}`;
-  await db.collection("prices").doc(docId).set(price, { merge: true });
-}
+    // Pass { dryRun: true } to get a diff (including the alerts a scheduled
+    // run would send) without publishing anything
+    const dryRun = req.body?.dryRun === true;
+    logger.info(`Manual price update triggered${dryRun ? " (dry run)" : ""}`);
 
-async function saveDealToFirestore(deal: DealData): Promise<void> {
-  const docId = `${deal.setNumber}_${deal.retailer}`;
-  await db.collection("deals").doc(docId).set(deal, { merge: true });
-}
+    try {
+      // Manual runs don't send alerts
+      const started = await startPriceRun("manual", { notify: dryRun, dryRun });
 
-async function cleanOldDeals(): Promise<void> {
-  const cutoff = admin.firestore.Timestamp.fromDate(
-    new Date(Date.now() - 24 * 60 * 60 * 1000)
-  );
+      if (!started) {
+        safeErrorResponse(res, 503, "Catalog is empty; run a catalog sync first");
+        return;
+      }
 
-  const oldDeals = await db
-    .collection("deals")
-    .where("lastUpdated", "<", cutoff)
-    .get();
+      res.json({
+        success: true,
+        message: `Started ${dryRun ? "dry " : ""}price run ${started.runId} for ${started.run.sets} sets ` +
+          `in ${started.run.totalShards} shards. Follow it with priceRunReport.`,
+        runId: started.runId,
+        run: started.run,
+      });
+    } catch (error) {
+      logger.error("Manual update failed:", error);
+      safeErrorResponse(res, 500, "Price update failed");
+    }
+  }
+);
 
-  if (oldDeals.empty) {
-    logger.info("No old deals to clean");
+/**
+ * Progress of a price run, with the diff once a dry run's shards report
+ * Body: { runId: string }
+ */
+export const priceRunReport = onRequest(async (req, res) => {
+  if (!(await requireAdmin(req, res, "priceRunReport", "prices:write"))) {
     return;
   }
 
-  const batchSize = 450;
-  for (let i = 0; i < oldDeals.docs.length; i += batchSize) {
-    const batch = db.batch();
-    const chunk = oldDeals.docs.slice(i, i + batchSize);
-    chunk.forEach((doc) => batch.delete(doc.ref));
-    await batch.commit();
+  const runId = req.body?.runId;
+  if (typeof runId !== "string" || !/^[A-Za-z0-9]{1,64}$/.test(runId)) {
+    safeErrorResponse(res, 400, "Invalid runId");
+    return;
   }
 
-  logger.info(`Cleaned ${oldDeals.size} old deals`);
-}
-
-// ============================================
-// PUSH NOTIFICATION FUNCTIONS
-// ============================================
+  try {
+    const report = await getPriceRunReport(runId);
+    if (!report) {
+      safeErrorResponse(res, 404, "Run not found");
+      return;
+    }
+    res.json({ success: true, runId, ...report });
+  } catch (error) {
+    logger.error("Price run report failed:", error);
+    safeErrorResponse(res, 500, "Price run report failed");
+  }
+});
 
-async function getEligiblePushTokens(deal: DealData): Promise<string[]> {
-  const tokensSnapshot = await db.collection("push_tokens")
-    .where("notificationsEnabled", "==", true)
-    .where("minDiscountThreshold", "<=", deal.percentOff)
-    .get();
+/**
+ * Review price batches the anomaly guard quarantined
+ * Body: { action: "list" }
+ *     | { action: "approve", reviewId: string, notify?: boolean }
+ *     | { action: "reject", reviewId: string }
+ * Approving publishes the batch; its alerts are only sent with notify: true.
+ */
+export const reviewPriceBatches = onRequest(
+  { memory: "512MiB", timeoutSeconds: 300 },
+  async (req, res) => {
+    if (!(await requireAdmin(req, res, "reviewPriceBatches", "prices:write"))) {
+      return;
+    }
 
-  const eligibleTokens: string[] = [];
+    if (req.method !== "POST") {
+      safeErrorResponse(res, 405, "Method not allowed");
+      return;
+    }
 
-  for (const doc of tokensSnapshot.docs) {
-    const tokenData = doc.data() as PushToken;
+    const { action, reviewId, notify } = req.body || {};
+    if (action !== "list" && (typeof reviewId !== "string" || !/^[\w-]{1,200}$/.test(reviewId))) {
+      safeErrorResponse(res, 400, "Invalid reviewId");
+      return;
+    }
 
-    const watchingTheme = deal.theme && tokenData.watchedThemes.length > 0
-      ? tokenData.watchedThemes.includes(deal.theme)
-      : true;
+    try {
+      switch (action) {
+        case "list":
+          res.json({ success: true, reviews: await listPendingReviews() });
+          return;
+
+        case "approve": {
+          const published = await approvePriceReview(reviewId, notify === true);
+          if (!published) {
+            safeErrorResponse(res, 404, "No pending review with that ID");
+            return;
+          }
+          res.json({ success: true, ...published });
+          return;
+        }
 
-    const watchingSet = tokenData.watchedSets.length > 0
-      ? tokenData.watchedSets.includes(deal.setNumber)
-      : true;
+        case "reject":
+          if (!(await rejectPriceReview(reviewId))) {
+            safeErrorResponse(res, 404, "No pending review with that ID");
+            return;
+          }
+          res.json({ success: true });
+          return;
 
-    if (watchingTheme || watchingSet) {
-      eligibleTokens.push(tokenData.token);
+        default:
+          safeErrorResponse(res, 400, "Invalid action");
+      }
+    } catch (error) {
+      logger.error("Price review failed:", error);
+      safeErrorResponse(res, 500, "Price review failed");
     }
   }
+);
 
-  return eligibleTokens;
-}
-
-async function sendExpoPushNotification(
-  pushTokens: string[],
-  notification: NotificationPayload
-): Promise<void> {
-  if (pushTokens.length === 0) {
-    logger.info("No push tokens to send to");
+/**
+ * Rebuild deals from stored prices under the current deal rules
+ * Body: { action: "start", compactHistory?: boolean } | { action: "status", runId: string }
+ * The replay runs in the background and never sends notifications; its
+ * record reports what changed.
+ */
+export const replayDeals = onRequest(async (req, res) => {
+  if (!(await requireAdmin(req, res, "replayDeals", "prices:write"))) {
     return;
   }
 
-  const expoPushEndpoint = "https://exp.host/--/api/v2/push/send";
-
-  const messages = pushTokens.map((token) => ({
-    to: token,
-    sound: "default",
-    title: notification.title,
-    body: notification.body,
-    data: notification.data,
-    badge: 1,
-    priority: "high",
-  }));
-
-  const batchSize = 100;
-  for (let i = 0; i < messages.length; i += batchSize) {
-    const batch = messages.slice(i, i + batchSize);
+  if (req.method !== "POST") {
+    safeErrorResponse(res, 405, "Method not allowed");
+    return;
+  }
 
-    try {
-      const response = await fetch(expoPushEndpoint, {
-        method: "POST",
-        headers: {
-          "Accept": "application/json",
-          "Accept-Encoding": "gzip, deflate",
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify(batch),
-      });
+  const { action, runId, compactHistory } = req.body || {};
 
-      if (!response.ok) {
-        logger.error(`Expo push error: ${response.status}`);
-      } else {
-        const result = await response.json();
-        logger.info(`Sent ${batch.length} notifications, result:`, result);
+  try {
+    if (action === "start") {
+      const started = await startReplay(compactHistory === true);
+      if (!started) {
+        safeErrorResponse(res, 409, "A replay is already running");
+        return;
       }
-    } catch (error) {
-      logger.error("Failed to send push notifications:", error);
+      res.json({ success: true, runId: started });
+      return;
     }
-  }
-}
 
-async function notifyHotDeal(deal: DealData): Promise<void> {
-  if (deal.percentOff < 40) return;
-
-  const tokens = await getEligiblePushTokens(deal);
+    if (action === "status") {
+      if (typeof runId !== "string" || !/^[A-Za-z0-9]{1,64}$/.test(runId)) {
+        safeErrorResponse(res, 400, "Invalid runId");
+        return;
+      }
+      const run = await getReplayRun(runId);
+      if (!run) {
+        safeErrorResponse(res, 404, "Replay not found");
+        return;
+      }
+      res.json({ success: true, runId, run });
+      return;
+    }
 
-  if (tokens.length === 0) {
-    logger.info(`No eligible tokens for deal: ${deal.setNumber}`);
-    return;
+    safeErrorResponse(res, 400, "Invalid action");
+  } catch (error) {
+    logger.error("Deal replay request failed:", error);
+    safeErrorResponse(res, 500, "Deal replay request failed");
   }
+});
 
-  const notification: NotificationPayload = {
-    title: `${deal.percentOff}% OFF - Hot Deal!`,
-    body: `${deal.setName} at ${deal.retailer.toUpperCase()} - Now $${deal.currentPrice} (Save $${deal.savings})`,
-    data: {
-      type: "deal",
-      setNumber: deal.setNumber,
-      retailer: deal.retailer,
-      percentOff: deal.percentOff,
-    },
-  };
-
-  await sendExpoPushNotification(tokens, notification);
-  logger.info(`Sent hot deal notification for ${deal.setNumber} to ${tokens.length} devices`);
-}
+/**
+ * Import official MSRPs
+ * Body: { data: "<CSV or JSON>", confidence?: 0-1 } to import an uploaded
+ * dataset, or { sources?: ["dataset", "lego_com"] } to run registered sources.
+ */
+export const importMsrp = onRequest(
+  { memory: "512MiB", timeoutSeconds: 540 },
+  async (req, res) => {
+    if (!(await requireAdmin(req, res, "importMsrp", "prices:write"))) {
+      return;
+    }
 
-// ============================================
-// SCHEDULED FUNCTIONS
-// ============================================
+    if (req.method !== "POST") {
+      safeErrorResponse(res, 405, "Method not allowed");
+      return;
+    }
 
-export const updateLegoCatalog = onSchedule(
-  {
-    schedule: "every 24 hours",
-    timeZone: "America/New_York",
-    memory: "512MiB",
-    timeoutSeconds: 540,
-  },
-  async () => {
-    logger.info("Starting LEGO catalog update...");
+    const { data, confidence, sources } = req.body || {};
 
-    try {
-      await fetchThemes();
-      const sets = await fetchFromRebrickable();
-      await saveLegoSetsCatalog(sets);
-      logger.info(`Catalog update complete. ${sets.length} sets saved.`);
-    } catch (error) {
-      logger.error("Catalog update failed:", error);
-      throw error;
+    if (data !== undefined && (typeof data !== "string" || data.length > MAX_MSRP_UPLOAD_LENGTH)) {
+      safeErrorResponse(res, 400, "Invalid dataset");
+      return;
     }
-  }
-);
 
-export const updatePrices = onSchedule(
-  {
-    schedule: "every 60 minutes",
-    timeZone: "America/New_York",
-    memory: "512MiB",
-    timeoutSeconds: 300,
-  },
-  async () => {
-    logger.info("Starting price update...");
-
-    try {
-      let sets = await getLegoSetsCatalog();
-      logger.info(`Found ${sets.length} sets in catalog`);
+    if (confidence !== undefined &&
+        (typeof confidence !== "number" || confidence < 0 || confidence > 1)) {
+      safeErrorResponse(res, 400, "Invalid confidence");
+      return;
+    }
 
-      if (sets.length === 0) {
-        logger.info("Catalog empty, fetching from Rebrickable...");
-        sets = await fetchFromRebrickable();
-        await saveLegoSetsCatalog(sets);
-      }
+    const knownSources = getRegisteredMsrpSources();
+    if (sources !== undefined &&
+        (!Array.isArray(sources) || !sources.every((id) => knownSources.includes(id)))) {
+      safeErrorResponse(res, 400, "Invalid sources");
+      return;
+    }
 
-      const retailers = [
-        "lego", "amazon", "walmart", "target", "best_buy",
-        "kohls", "gamestop", "shop_disney", "macys",
-        "barnes_noble", "sams_club", "walgreens"
-      ];
-
-      let dealsFound = 0;
-
-      for (const set of sets.slice(0, 100)) {
-        for (const retailer of retailers) {
-          const priceData = generateSimulatedPrice(set, retailer);
-          await savePriceToFirestore(priceData);
-
-          const percentOff = Math.round(
-            ((priceData.originalPrice - priceData.currentPrice) /
-              priceData.originalPrice) * 100
-          );
-
-          if (percentOff >= 10 && priceData.inStock) {
-            const deal: DealData = {
-              ...priceData,
-              percentOff,
-              savings: Math.round((priceData.originalPrice - priceData.currentPrice) * 100) / 100,
-            };
-            await saveDealToFirestore(deal);
-            dealsFound++;
-
-            if (percentOff >= 40) {
-              await notifyHotDeal(deal);
-            }
-          }
+    logger.info("MSRP import triggered");
 
-          await new Promise((resolve) => setTimeout(resolve, 50));
+    try {
+      let result;
+      if (data !== undefined) {
+        const records = parseMsrpDataset(data, "dataset", confidence ?? 1);
+        if (records.length === 0) {
+          safeErrorResponse(res, 400, "No valid rows in dataset");
+          return;
         }
+        result = await applyMsrpRecords(records);
+      } else {
+        result = await importMsrpFromSources(sources);
       }
 
-      await cleanOldDeals();
-      logger.info(`Price update complete. Found ${dealsFound} deals.`);
+      res.json({ success: true, ...result });
     } catch (error) {
-      logger.error("Price update failed:", error);
-      throw error;
+      logger.error("MSRP import failed:", error);
+      safeErrorResponse(res, 500, "MSRP import failed");
     }
   }
 );
 
-// ============================================
-// HTTP ENDPOINTS (with security)
-// ============================================
-
-export const manualCatalogUpdate = onRequest(
-  { memory: "512MiB", timeoutSeconds: 540 },
+/**
+ * Import a retirement list
+ * Body: { data: "<CSV or JSON>", source?: "brickeconomy" }
+ * Rows need a set number and a retirement date; a source column overrides `source`.
+ */
+export const importRetirements = onRequest(
+  { memory: "512MiB", timeoutSeconds: 300 },
   async (req, res) => {
-    // Validate API key for admin endpoints
-    if (!validateApiKey(req)) {
-      safeErrorResponse(res, 401, "Unauthorized");
+    if (!(await requireAdmin(req, res, "importRetirements", "catalog:write"))) {
       return;
     }
 
-    logger.info("Manual catalog update triggered");
+    if (req.method !== "POST") {
+      safeErrorResponse(res, 405, "Method not allowed");
+      return;
+    }
 
-    try {
-      const sets = await fetchFromRebrickable();
+    const { data, source } = req.body || {};
 
-      if (sets.length === 0) {
-        safeErrorResponse(res, 500, "Failed to fetch sets");
-        return;
-      }
+    if (typeof data !== "string" || data.length > MAX_RETIREMENT_UPLOAD_LENGTH) {
+      safeErrorResponse(res, 400, "Invalid retirement list");
+      return;
+    }
 
-      await saveLegoSetsCatalog(sets);
+    if (source !== undefined && (typeof source !== "string" || !/^[\w.-]{1,50}$/.test(source))) {
+      safeErrorResponse(res, 400, "Invalid source");
+      return;
+    }
 
-      const themeCount: Record<string, number> = {};
-      for (const set of sets) {
-        const theme = set.theme || "Other";
-        themeCount[theme] = (themeCount[theme] || 0) + 1;
-      }
+    logger.info("Retirement list import triggered");
 
-      const topThemes = Object.entries(themeCount)
-        .sort((a, b) => b[1] - a[1])
-        .slice(0, 15);
+    try {
+      const records = parseRetirementList(data, source || "manual");
+      if (records.length === 0) {
+        safeErrorResponse(res, 400, "No valid rows in retirement list");
+        return;
+      }
 
-      res.json({
-        success: true,
-        message: `Catalog updated with ${sets.length} sets`,
-        totalSets: sets.length,
-        topThemes: topThemes.map(([name, count]) => ({ name, count })),
-      });
+      const result = await applyRetirementRecords(records);
+      res.json({ success: true, received: records.length, ...result });
     } catch (error) {
-      logger.error("Manual catalog update failed:", error);
-      safeErrorResponse(res, 500, "Catalog update failed");
+      logger.error("Retirement import failed:", error);
+      safeErrorResponse(res, 500, "Retirement import failed");
     }
   }
 );
 
-export const manualPriceUpdate = onRequest(
-  { memory: "512MiB", timeoutSeconds: 300 },
-  async (req, res) => {
-    // Validate API key for admin endpoints
-    if (!validateApiKey(req)) {
-      safeErrorResponse(res, 401, "Unauthorized");
-      return;
-    }
+/**
+ * Manage admin keys
+ * Body: { action: "list" }
+ *     | { action: "create", name: string, scopes: string[], ttlDays?: number }
+ *     | { action: "rotate", keyId: string, graceHours?: number }
+ *     | { action: "revoke", keyId: string }
+ * New credentials are only returned in the create/rotate response.
+ */
+export const manageAdminKeys = onRequest(async (req, res) => {
+  if (!(await requireAdmin(req, res, "manageAdminKeys", "keys:manage"))) {
+    return;
+  }
 
-    logger.info("Manual price update triggered");
+  if (req.method !== "POST") {
+    safeErrorResponse(res, 405, "Method not allowed");
+    return;
+  }
 
-    try {
-      let sets = await getLegoSetsCatalog();
+  const { action, name, scopes, ttlDays, keyId, graceHours } = req.body || {};
+  const isKeyId = typeof keyId === "string" && /^[A-Za-z0-9]{1,64}$/.test(keyId);
+
+  try {
+    switch (action) {
+      case "list":
+        res.json({ success: true, keys: await listAdminKeys() });
+        return;
 
-      if (sets.length === 0) {
-        logger.info("Catalog empty, fetching from Rebrickable...");
-        const fetchedSets = await fetchFromRebrickable();
-        await saveLegoSetsCatalog(fetchedSets);
-        sets = fetchedSets;
+      case "create": {
+        if (typeof name !== "string" || !/^[\w .-]{1,50}$/.test(name)) {
+          safeErrorResponse(res, 400, "Invalid name");
+          return;
+        }
+        if (!Array.isArray(scopes) || scopes.length === 0 || !scopes.every(isValidAdminScope)) {
+          safeErrorResponse(res, 400, "Invalid scopes");
+          return;
+        }
+        const ttl = ttlDays ?? 90;
+        if (!Number.isInteger(ttl) || ttl < 1 || ttl > MAX_KEY_TTL_DAYS) {
+          safeErrorResponse(res, 400, `ttlDays must be 1-${MAX_KEY_TTL_DAYS}`);
+          return;
+        }
+        res.json({ success: true, ...(await createAdminKey(name, scopes, ttl)) });
+        return;
       }
 
-      logger.info(`Processing ${sets.length} sets`);
-
-      const retailers = [
-        "lego", "amazon", "walmart", "target", "best_buy",
-        "kohls", "gamestop", "shop_disney", "macys",
-        "barnes_noble", "sams_club", "walgreens"
-      ];
-      let dealsFound = 0;
-
-      for (const set of sets.slice(0, 50)) {
-        for (const retailer of retailers) {
-          const priceData = generateSimulatedPrice(set, retailer);
-          await savePriceToFirestore(priceData);
-
-          const percentOff = Math.round(
-            ((priceData.originalPrice - priceData.currentPrice) /
-              priceData.originalPrice) * 100
-          );
-
-          if (percentOff >= 10 && priceData.inStock) {
-            const deal: DealData = {
-              ...priceData,
-              percentOff,
-              savings: Math.round((priceData.originalPrice - priceData.currentPrice) * 100) / 100,
-            };
-            await saveDealToFirestore(deal);
-            dealsFound++;
-          }
+      case "rotate": {
+        const grace = graceHours ?? 24;
+        if (!isKeyId || typeof grace !== "number" || grace < 0 || grace > 168) {
+          safeErrorResponse(res, 400, "Invalid keyId or graceHours (0-168)");
+          return;
+        }
+        const rotated = await rotateAdminKey(keyId, grace);
+        if (!rotated) {
+          safeErrorResponse(res, 404, "Key not found");
+          return;
         }
+        res.json({ success: true, ...rotated });
+        return;
       }
 
-      await cleanOldDeals();
+      case "revoke":
+        if (!isKeyId) {
+          safeErrorResponse(res, 400, "Invalid keyId");
+          return;
+        }
+        if (!(await revokeAdminKey(keyId))) {
+          safeErrorResponse(res, 404, "Key not found");
+          return;
+        }
+        res.json({ success: true });
+        return;
 
-      res.json({
-        success: true,
-        message: `Updated prices for ${Math.min(sets.length, 50)} sets. Found ${dealsFound} deals.`,
-        catalogSize: sets.length,
-        dealsFound,
-      });
-    } catch (error) {
-      logger.error("Manual update failed:", error);
-      safeErrorResponse(res, 500, "Price update failed");
+      default:
+        safeErrorResponse(res, 400, "Invalid action");
     }
+  } catch (error) {
+    logger.error("Admin key management failed:", error);
+    safeErrorResponse(res, 500, "Admin key management failed");
   }
-);
+});
 
 export const healthCheck = onRequest(async (req, res) => {
   try {
@@ -824,7 +869,8 @@ export const healthCheck = onRequest(async (req, res) => {
     res.json({
       status: "ok",
       timestamp: new Date().toISOString(),
-      version: "7.0.0",
+      // Cloud Run revision serving this function
+      version: process.env.K_REVISION || "local",
       catalog: {
         size: catalogSize,
         source: "Rebrickable API"
@@ -839,6 +885,23 @@ export const healthCheck = onRequest(async (req, res) => {
   }
 });
 
+/**
+ * Operational status
+ * GET /status
+ * Reports when each scheduled job last succeeded against its SLA and how
+ * stale each retailer's prices are. Responds 503 when anything is flagged,
+ * so uptime checks can alert on it.
+ */
+export const status = onRequest(async (req, res) => {
+  try {
+    const report = await getOperationalStatus();
+    res.status(report.ok ? 200 : 503).json(report);
+  } catch (error) {
+    logger.error("Status check failed:", error);
+    safeErrorResponse(res, 500, "Status check failed");
+  }
+});
+
 // ============================================
 // PUSH NOTIFICATION ENDPOINTS (with security)
 // ============================================
@@ -861,10 +924,8 @@ export const registerPushToken = onRequest(async (req, res) => {
     return;
   }
 
-  // Rate limiting
-  const clientIp = getClientIp(req);
-  if (!checkRateLimit(clientIp)) {
-    safeErrorResponse(res, 429, "Too many requests");
+  // Rate limiting per IP, then per token once it's validated
+  if (await isRateLimited(res, "registerPushToken", "ip", getClientIp(req))) {
     return;
   }
 
@@ -877,6 +938,10 @@ export const registerPushToken = onRequest(async (req, res) => {
       return;
     }
 
+    if (await isRateLimited(res, "registerPushToken", "token", token)) {
+      return;
+    }
+
     // Validate platform
     const validPlatforms = ["ios", "android", "web"];
     const platformValue = validPlatforms.includes(platform) ? platform : "ios";
@@ -892,11 +957,24 @@ export const registerPushToken = onRequest(async (req, res) => {
       notificationsEnabled: preferences?.notificationsEnabled ?? true,
       minDiscountThreshold: minDiscount,
       watchedThemes: Array.isArray(preferences?.watchedThemes)
-        ? preferences.watchedThemes.slice(0, 50) // Limit to 50 themes
+        ? preferences.watchedThemes.filter(Number.isInteger).slice(0, 50) // Limit to 50 themes
         : [],
       watchedSets: Array.isArray(preferences?.watchedSets)
         ? preferences.watchedSets.filter(isValidSetNumber).slice(0, 100) // Limit to 100 sets
         : [],
+      mutedSets: Array.isArray(preferences?.mutedSets)
+        ? preferences.mutedSets.filter(isValidSetNumber).slice(0, 100)
+        : [],
+      mutedThemes: Array.isArray(preferences?.mutedThemes)
+        ? preferences.mutedThemes.filter(Number.isInteger).slice(0, 50)
+        : [],
+      setTargets: sanitizeSetTargets(preferences?.setTargets),
+      quietHoursStart: sanitizeHour(preferences?.quietHoursStart),
+      quietHoursEnd: sanitizeHour(preferences?.quietHoursEnd),
+      timezone: isValidTimeZone(preferences?.timezone) ? preferences.timezone : "UTC",
+      digestCadence: isValidDigestCadence(preferences?.digestCadence) ? preferences.digestCadence : "off",
+      digestHour: sanitizeHour(preferences?.digestHour) ?? 9,
+      retirementAlerts: preferences?.retirementAlerts === true,
       lastUpdated: admin.firestore.Timestamp.now(),
     };
 
@@ -932,10 +1010,8 @@ export const updateNotificationPreferences = onRequest(async (req, res) => {
     return;
   }
 
-  // Rate limiting
-  const clientIp = getClientIp(req);
-  if (!checkRateLimit(clientIp)) {
-    safeErrorResponse(res, 429, "Too many requests");
+  // Rate limiting per IP, then per token once it's validated
+  if (await isRateLimited(res, "updateNotificationPreferences", "ip", getClientIp(req))) {
     return;
   }
 
@@ -948,6 +1024,10 @@ export const updateNotificationPreferences = onRequest(async (req, res) => {
       return;
     }
 
+    if (await isRateLimited(res, "updateNotificationPreferences", "token", token)) {
+      return;
+    }
+
     // Check if token exists
     const tokenDoc = await db.collection("push_tokens").doc(token).get();
     if (!tokenDoc.exists) {
@@ -966,11 +1046,39 @@ export const updateNotificationPreferences = onRequest(async (req, res) => {
       updates.minDiscountThreshold = Math.min(Math.max(preferences.minDiscountThreshold, 0), 100);
     }
     if (Array.isArray(preferences?.watchedThemes)) {
-      updates.watchedThemes = preferences.watchedThemes.slice(0, 50);
+      updates.watchedThemes = preferences.watchedThemes.filter(Number.isInteger).slice(0, 50);
     }
     if (Array.isArray(preferences?.watchedSets)) {
       updates.watchedSets = preferences.watchedSets.filter(isValidSetNumber).slice(0, 100);
     }
+    if (Array.isArray(preferences?.mutedSets)) {
+      updates.mutedSets = preferences.mutedSets.filter(isValidSetNumber).slice(0, 100);
+    }
+    if (Array.isArray(preferences?.mutedThemes)) {
+      updates.mutedThemes = preferences.mutedThemes.filter(Number.isInteger).slice(0, 50);
+    }
+    if (preferences?.setTargets !== undefined) {
+      updates.setTargets = sanitizeSetTargets(preferences.setTargets);
+    }
+    if (preferences?.quietHoursStart !== undefined) {
+      updates.quietHoursStart = sanitizeHour(preferences.quietHoursStart);
+    }
+    if (preferences?.quietHoursEnd !== undefined) {
+      updates.quietHoursEnd = sanitizeHour(preferences.quietHoursEnd);
+    }
+    if (isValidTimeZone(preferences?.timezone)) {
+      updates.timezone = preferences.timezone;
+    }
+    if (isValidDigestCadence(preferences?.digestCadence)) {
+      updates.digestCadence = preferences.digestCadence;
+    }
+    const digestHour = sanitizeHour(preferences?.digestHour);
+    if (digestHour !== null) {
+      updates.digestHour = digestHour;
+    }
+    if (typeof preferences?.retirementAlerts === "boolean") {
+      updates.retirementAlerts = preferences.retirementAlerts;
+    }
 
     await db.collection("push_tokens").doc(token).update(updates);
 
@@ -1004,10 +1112,8 @@ export const unregisterPushToken = onRequest(async (req, res) => {
     return;
   }
 
-  // Rate limiting
-  const clientIp = getClientIp(req);
-  if (!checkRateLimit(clientIp)) {
-    safeErrorResponse(res, 429, "Too many requests");
+  // Rate limiting per IP, then per token once it's validated
+  if (await isRateLimited(res, "unregisterPushToken", "ip", getClientIp(req))) {
     return;
   }
 
@@ -1020,6 +1126,10 @@ export const unregisterPushToken = onRequest(async (req, res) => {
       return;
     }
 
+    if (await isRateLimited(res, "unregisterPushToken", "token", token)) {
+      return;
+    }
+
     await db.collection("push_tokens").doc(token).delete();
 
     logger.info("Unregistered push token");
@@ -1053,10 +1163,8 @@ export const sendTestNotification = onRequest(async (req, res) => {
     return;
   }
 
-  // Rate limiting (stricter for test notifications)
-  const clientIp = getClientIp(req);
-  if (!checkRateLimit(clientIp)) {
-    safeErrorResponse(res, 429, "Too many requests");
+  // Rate limiting per IP, then per token once it's validated
+  if (await isRateLimited(res, "sendTestNotification", "ip", getClientIp(req))) {
     return;
   }
 
@@ -1069,6 +1177,15 @@ export const sendTestNotification = onRequest(async (req, res) => {
       return;
     }
 
+    // Admins testing a device can skip the per-token quota with a push:send key
+    if (getAdminCredential(req)) {
+      if (!(await requireAdmin(req, res, "sendTestNotification", "push:send"))) {
+        return;
+      }
+    } else if (await isRateLimited(res, "sendTestNotification", "token", token)) {
+      return;
+    }
+
     // Check if token is registered
     const tokenDoc = await db.collection("push_tokens").doc(token).get();
     if (!tokenDoc.exists) {
@@ -1076,18 +1193,7 @@ export const sendTestNotification = onRequest(async (req, res) => {
       return;
     }
 
-    const notification: NotificationPayload = {
-      title: "Test Notification",
-      body: "Brick Deal Hunter notifications are working!",
-      data: {
-        type: "deal",
-        setNumber: "TEST-1",
-        retailer: "test",
-        percentOff: 50,
-      },
-    };
-
-    await sendExpoPushNotification([token], notification);
+    await sendExpoPushNotification([token], TEST_NOTIFICATION);
 
     res.json({
       success: true,
@@ -0,0 +1,196 @@
+/**
+ * Job run records and operational status
+ *
+ * Catalog and price jobs write a record to job_runs for every run, with
+ * timings, sets processed, deals found, errors and per-retailer success
+ * rates. The latest run of each job is mirrored into job_status, and the
+ * price pipeline keeps retailer_status up to date, so the /status endpoint
+ * can report staleness and missed SLAs with a handful of reads.
+ */
+
+import * as admin from "firebase-admin";
+import { db } from "./db";
+import { JobName, JobRun, JobStatus, RetailerRunStats, RetailerStatus } from "./types";
+import { getRegisteredRetailers } from "./retailers";
+
+const JOB_RUNS_COLLECTION = "job_runs";
+const JOB_STATUS_COLLECTION = "job_status";
+const RETAILER_STATUS_COLLECTION = "retailer_status";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Errors kept per run record, and their length
+const MAX_ERRORS = 20;
+const MAX_ERROR_LENGTH = 300;
+
+// A job that hasn't succeeded for this long is flagged
+const JOB_SLAS: Partial<Record<JobName, number>> = {
+  // Runs every 2 hours
+  updateLegoCatalog: 6 * HOUR_MS,
+  // Runs hourly; a run finishes once all its shards do
+  updatePrices: 3 * HOUR_MS,
+};
+// A retailer without a successful lookup for this long is stale
+const RETAILER_STALE_MS = 6 * HOUR_MS;
+
+/**
+ * What a finished run did
+ */
+export interface JobOutcome {
+  setsProcessed: number;
+  dealsFound: number;
+  errors: string[];
+  retailers?: Record<string, RetailerRunStats>;
+  /** The run only computed a diff */
+  dryRun?: boolean;
+}
+
+/**
+ * Error message for a run record
+ */
+export function describeError(error: unknown): string {
+  const message = error instanceof Error ? error.message : String(error);
+  return message.slice(0, MAX_ERROR_LENGTH);
+}
+
+/**
+ * Append errors to a list, keeping it under the cap
+ */
+export function appendErrors(errors: string[], more: string[]): string[] {
+  return [...errors, ...more.map((error) => error.slice(0, MAX_ERROR_LENGTH))].slice(0, MAX_ERRORS);
+}
+
+/**
+ * Open a run record for a job
+ * @param runId - Use this ID for the record (price runs share their run's ID)
+ * @returns The run record's ID
+ */
+export async function startJobRun(job: JobName, runId?: string): Promise<string> {
+  const ref = runId
+    ? db.collection(JOB_RUNS_COLLECTION).doc(runId)
+    : db.collection(JOB_RUNS_COLLECTION).doc();
+
+  const run: JobRun = {
+    job,
+    status: "running",
+    startedAt: admin.firestore.Timestamp.now(),
+    setsProcessed: 0,
+    dealsFound: 0,
+    errors: [],
+    retailers: {},
+  };
+  await ref.set(run);
+  return ref.id;
+}
+
+/**
+ * Close a run record; a run with errors counts as failed
+ */
+export async function finishJobRun(runId: string, job: JobName, outcome: JobOutcome): Promise<void> {
+  const ref = db.collection(JOB_RUNS_COLLECTION).doc(runId);
+  const doc = await ref.get();
+  const startedAt = doc.exists ? (doc.data() as JobRun).startedAt : admin.firestore.Timestamp.now();
+  const finishedAt = admin.firestore.Timestamp.now();
+  const status: JobRun["status"] = outcome.errors.length === 0 ? "succeeded" : "failed";
+
+  const retailers: JobRun["retailers"] = {};
+  for (const [retailer, stats] of Object.entries(outcome.retailers ?? {})) {
+    retailers[retailer] = {
+      ...stats,
+      successRate: stats.attempts > 0 ? Math.round((stats.successes / stats.attempts) * 1000) / 1000 : 0,
+    };
+  }
+
+  const jobStatus: JobStatus = {
+    job,
+    lastRunId: runId,
+    lastStatus: status,
+    lastFinishedAt: finishedAt,
+    ...(status === "succeeded" ? { lastSuccessAt: finishedAt } : {}),
+  };
+
+  const batch = db.batch();
+  batch.set(ref, {
+    status,
+    finishedAt,
+    durationMs: finishedAt.toMillis() - startedAt.toMillis(),
+    setsProcessed: outcome.setsProcessed,
+    dealsFound: outcome.dealsFound,
+    errors: appendErrors([], outcome.errors),
+    retailers,
+    ...(outcome.dryRun ? { dryRun: true } : {}),
+  }, { merge: true });
+  batch.set(db.collection(JOB_STATUS_COLLECTION).doc(job), jobStatus, { merge: true });
+  await batch.commit();
+}
+
+/**
+ * Record the lookups a price shard made at each retailer
+ */
+export async function recordRetailerStats(stats: Record<string, RetailerRunStats>): Promise<void> {
+  const now = admin.firestore.Timestamp.now();
+  const batch = db.batch();
+
+  for (const [retailer, { attempts, successes }] of Object.entries(stats)) {
+    if (attempts === 0) continue;
+    batch.set(db.collection(RETAILER_STATUS_COLLECTION).doc(retailer), {
+      retailer,
+      lastAttemptAt: now,
+      lastSuccessRate: Math.round((successes / attempts) * 1000) / 1000,
+      ...(successes > 0 ? { lastSuccessAt: now } : {}),
+    }, { merge: true });
+  }
+
+  await batch.commit();
+}
+
+/**
+ * Staleness of every job with an SLA and every registered retailer
+ * `ok` is false if any job missed its SLA or any retailer is stale.
+ */
+export async function getOperationalStatus() {
+  const now = Date.now();
+  const jobs = Object.keys(JOB_SLAS) as JobName[];
+  const retailerIds = getRegisteredRetailers();
+
+  const [jobDocs, retailerDocs] = await Promise.all([
+    db.getAll(...jobs.map((job) => db.collection(JOB_STATUS_COLLECTION).doc(job))),
+    db.getAll(...retailerIds.map((retailer) => db.collection(RETAILER_STATUS_COLLECTION).doc(retailer))),
+  ]);
+
+  const jobReports = jobs.map((job, index) => {
+    const status = jobDocs[index].exists ? jobDocs[index].data() as JobStatus : undefined;
+    const slaMs = JOB_SLAS[job] as number;
+    const lastSuccess = status?.lastSuccessAt?.toMillis();
+
+    return {
+      job,
+      slaHours: slaMs / HOUR_MS,
+      lastStatus: status?.lastStatus ?? null,
+      lastRunId: status?.lastRunId ?? null,
+      lastFinishedAt: status?.lastFinishedAt.toDate().toISOString() ?? null,
+      lastSuccessAt: lastSuccess ? new Date(lastSuccess).toISOString() : null,
+      slaMissed: lastSuccess === undefined || now - lastSuccess > slaMs,
+    };
+  });
+
+  const retailerReports = retailerIds.map((retailer, index) => {
+    const status = retailerDocs[index].exists ? retailerDocs[index].data() as RetailerStatus : undefined;
+    const lastSuccess = status?.lastSuccessAt?.toMillis();
+
+    return {
+      retailer,
+      lastAttemptAt: status?.lastAttemptAt.toDate().toISOString() ?? null,
+      lastSuccessAt: lastSuccess ? new Date(lastSuccess).toISOString() : null,
+      lastSuccessRate: status?.lastSuccessRate ?? null,
+      stalenessMinutes: lastSuccess ? Math.round((now - lastSuccess) / 60000) : null,
+      stale: lastSuccess === undefined || now - lastSuccess > RETAILER_STALE_MS,
+    };
+  });
+
+  return {
+    ok: !jobReports.some((job) => job.slaMissed) && !retailerReports.some((retailer) => retailer.stale),
+    checkedAt: new Date(now).toISOString(),
+    jobs: jobReports,
+    retailers: retailerReports,
+  };
+}
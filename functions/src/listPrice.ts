@@ -0,0 +1,81 @@
+/**
+ * List price verification
+ *
+ * Retailers' list ("was") prices can't be taken at face value: one that
+ * inflates its list price turns an ordinary price into a bogus "40% off".
+ * Every price the pipeline publishes has its claimed list price checked
+ * against the set's verified MSRP and against what the same retailer
+ * actually charged recently (from set_price_stats, see dealScore.ts). A
+ * claim well above either is flagged as inflated, and originalPrice is
+ * replaced with the verified reference so every discount computed from it
+ * (deals, target alerts, the app) measures against a price we trust.
+ */
+
+import { LegoSet, PriceData, RetailerPriceStats } from "./types";
+import { getVerifiedMsrp } from "./msrp";
+
+// Share a list price may sit above the MSRP (rounding, regional pricing) before it's flagged
+const MSRP_TOLERANCE = 0.05;
+// Share a list price may sit above the retailer's recent high before it's flagged
+const HISTORY_TOLERANCE = 0.1;
+// Prices seen at a retailer before its recent high is trusted (about a day of runs)
+const MIN_HISTORY_OBSERVATIONS = 24;
+
+function formatPrice(price: number): string {
+  return `$${price.toFixed(2)}`;
+}
+
+function percentAbove(price: number, reference: number): number {
+  return Math.round(((price - reference) / reference) * 100);
+}
+
+/**
+ * Check a retailer's claimed list price and set originalPrice to the verified reference
+ * @param stats - The retailer's stats for the set, before this price is recorded
+ * @returns The price with its reference, claim and any inflation flags filled in
+ */
+export function verifyListPrice(
+  set: LegoSet,
+  priceData: PriceData,
+  stats: RetailerPriceStats | undefined
+): PriceData {
+  const claimed = priceData.claimedOriginalPrice ?? null;
+  const msrp = getVerifiedMsrp(set);
+  const recentHigh = stats && stats.observations >= MIN_HISTORY_OBSERVATIONS ? stats.recentHigh ?? null : null;
+  const reasons: string[] = [];
+
+  // Only a claim that advertises a discount can mislead
+  if (claimed !== null && claimed > priceData.currentPrice) {
+    if (msrp !== null && claimed > msrp * (1 + MSRP_TOLERANCE)) {
+      reasons.push(
+        `List price ${formatPrice(claimed)} is ${percentAbove(claimed, msrp)}% above the ${formatPrice(msrp)} MSRP`
+      );
+    }
+    if (recentHigh !== null && claimed > recentHigh * (1 + HISTORY_TOLERANCE)) {
+      reasons.push(
+        `List price ${formatPrice(claimed)} is ${percentAbove(claimed, recentHigh)}% above ` +
+        `the highest recent price here (${formatPrice(recentHigh)})`
+      );
+    }
+  }
+
+  let originalPrice = priceData.originalPrice;
+  let originalPriceSource: PriceData["originalPriceSource"] = "retailer";
+  if (msrp !== null) {
+    originalPrice = msrp;
+    originalPriceSource = "msrp";
+  } else if (recentHigh !== null) {
+    // A price above everything seen recently isn't a discount at all
+    originalPrice = Math.max(recentHigh, priceData.currentPrice);
+    originalPriceSource = "history";
+  }
+
+  return {
+    ...priceData,
+    originalPrice,
+    originalPriceSource,
+    claimedOriginalPrice: claimed,
+    listPriceInflated: reasons.length > 0,
+    listPriceReasons: reasons,
+  };
+}
@@ -0,0 +1,230 @@
+/**
+ * MSRP import pipeline
+ *
+ * Loads official US list prices from the registered sources into
+ * lego_catalog, keeping track of where each MSRP came from and how much it
+ * can be trusted. A lower-confidence source never overwrites a
+ * higher-confidence one, and every change is kept in msrp_history.
+ * Deals are only computed against a verified MSRP (see getVerifiedMsrp).
+ * Sources that look sets up one by one get the next batch of sets still
+ * missing a verified MSRP, scanning on from where the last import stopped.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites, WriteOp } from "../db";
+import { LegoSet, MsrpCandidateCursor, MsrpChange } from "../types";
+import { MsrpRecord, MsrpSource } from "./types";
+import { datasetSource, legoComSource } from "./sources";
+
+// Below this an MSRP is kept for display but not used for discounts
+export const MIN_VERIFIED_CONFIDENCE = 0.9;
+
+// Catalog docs read per getAll call
+const READ_CHUNK_SIZE = 300;
+// Sets missing a verified MSRP handed to the sources per import
+const CANDIDATES_PER_RUN = 100;
+// Catalog docs read per page, and pages read per import, looking for them
+const CANDIDATE_PAGE_SIZE = 500;
+const CANDIDATE_MAX_PAGES = 10;
+const CANDIDATE_CURSOR_DOC = db.collection("msrp_import").doc("candidates");
+
+const sources = new Map<string, MsrpSource>();
+
+/**
+ * Register an MSRP source, replacing any existing one with the same id
+ */
+export function registerMsrpSource(source: MsrpSource): void {
+  sources.set(source.id, source);
+}
+
+/**
+ * Ids of every registered MSRP source
+ */
+export function getRegisteredMsrpSources(): string[] {
+  return [...sources.keys()];
+}
+
+[datasetSource, legoComSource].forEach(registerMsrpSource);
+
+/**
+ * A set's MSRP, but only if it's trustworthy enough to compute discounts from
+ */
+export function getVerifiedMsrp(set: LegoSet): number | null {
+  if (!set.msrp || set.msrp <= 0) return null;
+  return (set.msrpConfidence ?? 0) >= MIN_VERIFIED_CONFIDENCE ? set.msrp : null;
+}
+
+/**
+ * Outcome of an MSRP import
+ */
+export interface MsrpImportResult {
+  /** Records read from the sources */
+  received: number;
+  /** Catalog entries whose MSRP changed */
+  changed: number;
+  /** Records matching what's already stored */
+  unchanged: number;
+  /** Records ignored because a more trusted source already set the MSRP */
+  outranked: number;
+  /** Records for sets that aren't in the catalog */
+  unknown: number;
+}
+
+/**
+ * Keep the most trusted record per set
+ */
+function dedupeRecords(records: MsrpRecord[]): MsrpRecord[] {
+  const best = new Map<string, MsrpRecord>();
+  for (const record of records) {
+    const existing = best.get(record.setNumber);
+    if (!existing || record.confidence > existing.confidence) {
+      best.set(record.setNumber, record);
+    }
+  }
+  return [...best.values()];
+}
+
+/**
+ * Write MSRP records to lego_catalog and log changes to msrp_history
+ */
+export async function applyMsrpRecords(records: MsrpRecord[]): Promise<MsrpImportResult> {
+  const unique = dedupeRecords(records);
+  const result: MsrpImportResult = {
+    received: records.length,
+    changed: 0,
+    unchanged: 0,
+    outranked: 0,
+    unknown: 0,
+  };
+  const writes: WriteOp[] = [];
+  const now = admin.firestore.Timestamp.now();
+
+  for (let i = 0; i < unique.length; i += READ_CHUNK_SIZE) {
+    const chunk = unique.slice(i, i + READ_CHUNK_SIZE);
+    const docs = await db.getAll(
+      ...chunk.map((record) => db.collection("lego_catalog").doc(record.setNumber))
+    );
+
+    chunk.forEach((record, index) => {
+      const doc = docs[index];
+      if (!doc.exists) {
+        result.unknown++;
+        return;
+      }
+
+      const set = doc.data() as LegoSet;
+      const sameSource = set.msrpSource === record.source;
+      if (!sameSource && (set.msrpConfidence ?? 0) > record.confidence) {
+        result.outranked++;
+        return;
+      }
+      if (set.msrp === record.msrp && sameSource && set.msrpConfidence === record.confidence) {
+        result.unchanged++;
+        return;
+      }
+
+      writes.push((batch) => batch.update(doc.ref, {
+        msrp: record.msrp,
+        msrpSource: record.source,
+        msrpConfidence: record.confidence,
+        msrpUpdatedAt: now,
+      }));
+
+      if (set.msrp !== record.msrp) {
+        const change: MsrpChange = {
+          setNumber: record.setNumber,
+          previousMsrp: set.msrp ?? null,
+          msrp: record.msrp,
+          source: record.source,
+          confidence: record.confidence,
+          changedAt: now,
+        };
+        writes.push((batch) => batch.set(db.collection("msrp_history").doc(), change));
+        result.changed++;
+      } else {
+        result.unchanged++;
+      }
+    });
+  }
+
+  await commitWrites(writes);
+  logger.info(
+    `MSRP import: ${result.changed} changed, ${result.unchanged} unchanged, ` +
+    `${result.outranked} outranked, ${result.unknown} unknown`
+  );
+  return result;
+}
+
+/**
+ * The next catalog sets that still need a verified MSRP
+ * Pages through the catalog by set number from the saved cursor, wrapping
+ * around at the end, so every set gets its turn across imports.
+ */
+async function getMsrpCandidates(): Promise<LegoSet[]> {
+  const cursorDoc = await CANDIDATE_CURSOR_DOC.get();
+  let last = cursorDoc.exists ? (cursorDoc.data() as MsrpCandidateCursor).lastSetNumber : null;
+  const candidates = new Map<string, LegoSet>();
+
+  for (let page = 0; page < CANDIDATE_MAX_PAGES && candidates.size < CANDIDATES_PER_RUN; page++) {
+    let query = db.collection("lego_catalog")
+      .where("availability", "in", ["available", "retiring_soon"])
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .limit(CANDIDATE_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+
+    const snapshot = await query.get();
+    // Back at a set this import already picked: the whole catalog has been scanned
+    if (snapshot.docs.some((doc) => candidates.has(doc.id))) break;
+
+    for (const doc of snapshot.docs) {
+      last = doc.id;
+      const set = doc.data() as LegoSet;
+      if (getVerifiedMsrp(set) !== null) continue;
+
+      candidates.set(doc.id, set);
+      if (candidates.size >= CANDIDATES_PER_RUN) break;
+    }
+
+    // End of the catalog: the next page starts over from the beginning
+    if (snapshot.size < CANDIDATE_PAGE_SIZE && candidates.size < CANDIDATES_PER_RUN) {
+      last = null;
+    }
+  }
+
+  const cursor: MsrpCandidateCursor = { lastSetNumber: last, updatedAt: admin.firestore.Timestamp.now() };
+  await CANDIDATE_CURSOR_DOC.set(cursor);
+  return [...candidates.values()];
+}
+
+/**
+ * Load records from the given sources (all by default) and import them
+ * A failing source is logged and skipped so the others still import.
+ */
+export async function importMsrpFromSources(
+  sourceIds: string[] = getRegisteredMsrpSources()
+): Promise<MsrpImportResult> {
+  const candidates = await getMsrpCandidates();
+  const records: MsrpRecord[] = [];
+
+  for (const id of sourceIds) {
+    const source = sources.get(id);
+    if (!source) {
+      logger.warn(`Unknown MSRP source: ${id}`);
+      continue;
+    }
+
+    try {
+      const loaded = await source.load(candidates);
+      logger.info(`MSRP source ${id} returned ${loaded.length} records`);
+      records.push(...loaded);
+    } catch (error) {
+      logger.error(`MSRP source ${id} failed:`, error);
+    }
+  }
+
+  return applyMsrpRecords(records);
+}
+
+export { parseMsrpDataset } from "./parsing";
+export type { MsrpRecord, MsrpSource } from "./types";
@@ -0,0 +1,48 @@
+/**
+ * Parser for MSRP datasets
+ *
+ * Accepts any dataset format datasets.ts understands, with a few common
+ * price column names (msrp / us_price / list_price / price / ...) and an
+ * optional per-row confidence.
+ */
+
+import { parsePrice } from "../retailers/parsing";
+import { normalizeSetNumber, parseDatasetRows, pickField, SET_NUMBER_KEYS } from "../datasets";
+import { MsrpRecord } from "./types";
+
+const MSRP_KEYS = ["msrp", "us_price", "usprice", "list_price", "listprice", "rrp", "price"];
+const CONFIDENCE_KEYS = ["confidence"];
+
+// Upper bound on a believable list price; anything above is a typo
+const MAX_MSRP = 10000;
+
+/**
+ * Turn a parsed row into a record, or null if it's unusable
+ */
+function toRecord(
+  row: Record<string, unknown>,
+  source: string,
+  defaultConfidence: number
+): MsrpRecord | null {
+  const setNumber = normalizeSetNumber(pickField(row, SET_NUMBER_KEYS));
+  const msrp = parsePrice(pickField(row, MSRP_KEYS));
+  if (!setNumber || msrp === null || msrp > MAX_MSRP) return null;
+
+  const rawConfidence = pickField(row, CONFIDENCE_KEYS);
+  const confidence = rawConfidence === undefined || rawConfidence === "" ? NaN : Number(rawConfidence);
+  return {
+    setNumber,
+    msrp,
+    source,
+    confidence: confidence >= 0 && confidence <= 1 ? confidence : defaultConfidence,
+  };
+}
+
+/**
+ * Parse an MSRP dataset (CSV or JSON)
+ */
+export function parseMsrpDataset(text: string, source: string, defaultConfidence: number): MsrpRecord[] {
+  return parseDatasetRows(text)
+    .map((row) => toRecord(row, source, defaultConfidence))
+    .filter((record): record is MsrpRecord => record !== null);
+}
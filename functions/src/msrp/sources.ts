@@ -0,0 +1,65 @@
+/**
+ * Built-in MSRP sources
+ */
+
+import * as logger from "firebase-functions/logger";
+import { fetchRetailerQuote } from "../retailers";
+import { MsrpRecord, MsrpSource } from "./types";
+import { parseMsrpDataset } from "./parsing";
+
+const REQUEST_TIMEOUT_MS = 30000;
+// LEGO.com product pages looked up per run, and the pause between them
+const LEGO_COM_LOOKUPS_PER_RUN = 100;
+const LEGO_COM_DELAY_MS = 500;
+
+/**
+ * Official list price dataset (CSV or JSON) hosted at MSRP_DATASET_URL
+ */
+export const datasetSource: MsrpSource = {
+  id: "dataset",
+
+  async load() {
+    const url = process.env.MSRP_DATASET_URL;
+    if (!url) {
+      logger.info("MSRP_DATASET_URL not set, skipping dataset import");
+      return [];
+    }
+
+    const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+    if (!response.ok) {
+      throw new Error(`MSRP dataset returned ${response.status}`);
+    }
+
+    return parseMsrpDataset(await response.text(), this.id, 1);
+  },
+};
+
+/**
+ * LEGO.com product pages
+ * A struck-through list price is the MSRP. Otherwise LEGO.com usually
+ * sells at list price, but the set could be on sale, so the price is kept
+ * below the verified threshold: shown, never used for discounts.
+ */
+export const legoComSource: MsrpSource = {
+  id: "lego_com",
+
+  async load(candidates) {
+    const records: MsrpRecord[] = [];
+
+    for (const set of candidates.slice(0, LEGO_COM_LOOKUPS_PER_RUN)) {
+      const quote = await fetchRetailerQuote(set, "lego");
+      if (quote) {
+        records.push({
+          setNumber: set.setNumber,
+          msrp: quote.originalPrice ?? quote.currentPrice,
+          source: this.id,
+          confidence: quote.originalPrice ? 0.95 : 0.8,
+        });
+      }
+
+      await new Promise((resolve) => setTimeout(resolve, LEGO_COM_DELAY_MS));
+    }
+
+    return records;
+  },
+};
@@ -0,0 +1,35 @@
+/**
+ * MSRP source contract
+ *
+ * Official US list prices come from pluggable sources: an importable
+ * dataset (CSV/JSON) or LEGO.com's own product pages. Each source turns
+ * its data into MsrpRecords; the importer decides which records win and
+ * writes them to lego_catalog.
+ */
+
+import { LegoSet } from "../types";
+
+/**
+ * One set's list price as reported by a source
+ */
+export interface MsrpRecord {
+  /** Catalog set number like "75192-1" */
+  setNumber: string;
+  /** US list price in USD */
+  msrp: number;
+  /** Source that reported it */
+  source: string;
+  /** How much the price can be trusted, 0-1 */
+  confidence: number;
+}
+
+export interface MsrpSource {
+  /** Stored as msrpSource on catalog entries */
+  readonly id: string;
+  /**
+   * Load list prices
+   * @param candidates - Catalog sets still missing a verified MSRP, for
+   * sources that look sets up one by one
+   */
+  load(candidates: LegoSet[]): Promise<MsrpRecord[]>;
+}
@@ -0,0 +1,631 @@
+/**
+ * Push notifications
+ *
+ * Picks which registered devices should hear about a price and sends
+ * through the Expo push service. Hot deals go to everyone whose
+ * preferences match; target prices, restocks and price drops go to the
+ * devices watching that set, as do opt-in alerts for sets about to
+ * retire. A ledger stops repeats of the same alert
+ * unless the price improved. Devices in their quiet hours get the
+ * notification queued instead, and a scheduled flush sends everything
+ * queued for a device as one summary. Alerts past a device's daily cap
+ * wait for its digest the next day (see digest.ts), or go out as a summary
+ * at its digest hour if it has no digest that day.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites, WriteOp } from "./db";
+import {
+  DealData,
+  DeferredNotification,
+  LegoSet,
+  ExpoPushMessage,
+  NotificationCap,
+  NotificationLedgerEntry,
+  NotificationPayload,
+  NotificationPreview,
+  PriceData,
+  PushToken,
+  SetTarget,
+} from "./types";
+import { getQuietHoursEnd, getLocalDay, getNextDayDigestTime } from "./quietHours";
+import { hasPriceChanged } from "./priceHistory";
+import { sendExpoMessages } from "./expoPush";
+
+const DEFERRED_COLLECTION = "deferred_notifications";
+const LEDGER_COLLECTION = "notification_ledger";
+const CAPS_COLLECTION = "notification_caps";
+
+// Deals scoring at least this (see dealScore.ts) go out to every matching device
+const HOT_DEAL_SCORE = 70;
+// Smallest drop from the previous price (in %) that alerts watchers
+const PRICE_DROP_MIN_PERCENT = Number(process.env.PRICE_DROP_MIN_PERCENT) || 5;
+
+// Alerts sent to one device per local day before the rest wait for a digest
+const DAILY_CAP = Number(process.env.NOTIFICATION_DAILY_CAP) || 10;
+// How long a ledger entry blocks the same alert at the same price
+const LEDGER_TTL_DAYS = 14;
+// Capped-out alerts for devices with a digest wait this long past the digest
+// hour, so the digest picks them up before the flush does
+const OVERFLOW_DIGEST_GRACE_MS = 60 * 60 * 1000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Queued notifications read per flush
+const FLUSH_PAGE_SIZE = 2000;
+// Lines from queued notifications shown in a summary
+const SUMMARY_LINES = 3;
+// Values Firestore allows in one "in" filter
+const IN_QUERY_LIMIT = 30;
+
+/**
+ * Sent by sendTestNotification and the CLI's push test to check a device
+ */
+export const TEST_NOTIFICATION: NotificationPayload = {
+  title: "Test Notification",
+  body: "Brick Deal Hunter notifications are working!",
+  data: {
+    type: "deal",
+    setNumber: "TEST-1",
+    retailer: "test",
+    percentOff: 50,
+  },
+};
+
+/**
+ * Percent off the verified reference price, rounded to a whole number
+ * A list price that couldn't be verified (see listPrice.ts) counts as no discount.
+ */
+export function calculatePercentOff(price: PriceData): number {
+  if (price.originalPrice <= 0 || price.originalPriceSource === "retailer") return 0;
+  return Math.round(((price.originalPrice - price.currentPrice) / price.originalPrice) * 100);
+}
+
+/**
+ * Whether an in-stock price meets a per-set target
+ */
+export function isTargetMet(target: SetTarget, price: PriceData): boolean {
+  if (!price.inStock) return false;
+  return target.type === "price"
+    ? price.currentPrice <= target.value
+    : calculatePercentOff(price) >= target.value;
+}
+
+/**
+ * Whether a device has muted alerts for this set or its theme
+ */
+export function isMuted(tokenData: PushToken, price: PriceData): boolean {
+  if (tokenData.mutedSets?.includes(price.setNumber)) return true;
+  return tokenData.mutedThemes?.some((id) => isInTheme(price, id)) ?? false;
+}
+
+/**
+ * Whether a price is for a set in a theme, matching its root or sub-theme
+ */
+function isInTheme(price: PriceData, themeId: number): boolean {
+  return price.themeId === themeId || price.subThemeId === themeId;
+}
+
+/**
+ * Whether a deal matches a device's watched themes or sets
+ * Empty watch lists match everything.
+ */
+export function isWatchingDeal(tokenData: PushToken, deal: DealData): boolean {
+  const watchingTheme = deal.themeId !== undefined && tokenData.watchedThemes.length > 0
+    ? tokenData.watchedThemes.some((id) => isInTheme(deal, id))
+    : true;
+
+  const watchingSet = tokenData.watchedSets.length > 0
+    ? tokenData.watchedSets.includes(deal.setNumber)
+    : true;
+
+  return watchingTheme || watchingSet;
+}
+
+async function getEligiblePushTokens(deal: DealData): Promise<PushToken[]> {
+  const tokensSnapshot = await db.collection("push_tokens")
+    .where("notificationsEnabled", "==", true)
+    .where("minDiscountThreshold", "<=", deal.percentOff)
+    .get();
+
+  const eligibleTokens: PushToken[] = [];
+
+  for (const doc of tokensSnapshot.docs) {
+    const tokenData = doc.data() as PushToken;
+
+    // Muted alerts never notify
+    if (isMuted(tokenData, deal)) continue;
+
+    // A set with its own target only notifies once the target is met
+    const target = tokenData.setTargets?.[deal.setNumber];
+    if (target && !isTargetMet(target, deal)) continue;
+
+    if (isWatchingDeal(tokenData, deal)) {
+      eligibleTokens.push(tokenData);
+    }
+  }
+
+  return eligibleTokens;
+}
+
+/**
+ * Send one notification to several devices right away
+ */
+export async function sendExpoPushNotification(
+  pushTokens: string[],
+  notification: NotificationPayload
+): Promise<void> {
+  if (pushTokens.length === 0) {
+    logger.info("No push tokens to send to");
+    return;
+  }
+
+  await sendExpoMessages(pushTokens.map((token) => ({
+    to: token,
+    title: notification.title,
+    body: notification.body,
+    data: notification.data,
+  })));
+}
+
+/**
+ * Ledger doc ID for a device, set and retailer
+ */
+function ledgerId(token: string, setNumber: string, retailer: string): string {
+  return `${token}_${setNumber}_${retailer}`;
+}
+
+/**
+ * Whether a device was already told about this set and retailer at the same
+ * or a lower price. Restocks are news on their own, so they skip the check.
+ */
+function isDuplicate(
+  entry: NotificationLedgerEntry | undefined,
+  notification: NotificationPayload,
+  price: number,
+  now: Date
+): boolean {
+  if (!entry || notification.data.type === "back_in_stock") return false;
+  if (entry.expiresAt.toMillis() <= now.getTime()) return false;
+  return price >= entry.price;
+}
+
+/**
+ * Send a notification about a set at a retailer
+ * Skips devices already notified at this price or lower (retirement alerts,
+ * which aren't about a price, bypass the ledger), queues it for
+ * devices in their quiet hours, and holds it for the next day's digest
+ * hour once a device has hit its daily cap.
+ */
+async function deliverNotification(
+  recipients: PushToken[],
+  notification: NotificationPayload,
+  price: number
+): Promise<void> {
+  const { setNumber, retailer } = notification.data;
+  if (recipients.length === 0 || !setNumber || !retailer) return;
+
+  const now = new Date();
+  const nowTimestamp = admin.firestore.Timestamp.fromDate(now);
+  const usesLedger = notification.data.type !== "retiring_soon";
+
+  const [ledgerDocs, capDocs] = await Promise.all([
+    usesLedger
+      ? db.getAll(...recipients.map((t) => db.collection(LEDGER_COLLECTION).doc(ledgerId(t.token, setNumber, retailer))))
+      : Promise.resolve([]),
+    db.getAll(...recipients.map((t) => db.collection(CAPS_COLLECTION).doc(t.token))),
+  ]);
+
+  const immediate: string[] = [];
+  const writes: WriteOp[] = [];
+  let duplicates = 0;
+  let deferred = 0;
+
+  recipients.forEach((tokenData, i) => {
+    if (usesLedger) {
+      const ledgerEntry = ledgerDocs[i].data() as NotificationLedgerEntry | undefined;
+      if (isDuplicate(ledgerEntry, notification, price, now)) {
+        duplicates++;
+        return;
+      }
+
+      const entry: NotificationLedgerEntry = {
+        token: tokenData.token,
+        setNumber,
+        retailer,
+        price,
+        type: notification.data.type,
+        notifiedAt: nowTimestamp,
+        expiresAt: admin.firestore.Timestamp.fromMillis(now.getTime() + LEDGER_TTL_DAYS * DAY_MS),
+      };
+      writes.push((batch) => batch.set(ledgerDocs[i].ref, entry));
+    }
+
+    const delivery = planDelivery(tokenData, capDocs[i].data() as NotificationCap | undefined, now);
+    if ("deferUntil" in delivery) {
+      const item: DeferredNotification = {
+        token: tokenData.token,
+        notification,
+        reason: delivery.reason,
+        createdAt: nowTimestamp,
+        deliverAfter: admin.firestore.Timestamp.fromDate(delivery.deferUntil),
+      };
+      writes.push((batch) => batch.set(db.collection(DEFERRED_COLLECTION).doc(), item));
+      deferred++;
+      return;
+    }
+
+    writes.push((batch) => batch.set(capDocs[i].ref, delivery.cap));
+    immediate.push(tokenData.token);
+  });
+
+  await commitWrites(writes);
+
+  if (duplicates > 0 || deferred > 0) {
+    logger.info(`${setNumber} at ${retailer}: skipped ${duplicates} repeat alerts, queued ${deferred}`);
+  }
+
+  await sendExpoPushNotification(immediate, notification);
+}
+
+/**
+ * Whether an alert goes out to a device now or is queued, and until when
+ * Quiet hours come first; otherwise alerts past the daily cap wait.
+ * @param cap - The device's cap record, if it has one
+ * @returns The device's updated cap when it's sent now
+ */
+export function planDelivery(
+  tokenData: PushToken,
+  cap: NotificationCap | undefined,
+  now: Date
+): { cap: NotificationCap } | { reason: DeferredNotification["reason"]; deferUntil: Date } {
+  const quietUntil = getQuietHoursEnd(tokenData, now);
+  if (quietUntil) return { reason: "quiet_hours", deferUntil: quietUntil };
+
+  const day = getLocalDay(tokenData, now);
+  const sentToday = cap?.day === day ? cap.count : 0;
+  if (sentToday >= DAILY_CAP) {
+    return { reason: "daily_cap", deferUntil: getOverflowDeliveryTime(tokenData, now) };
+  }
+
+  return { cap: { day, count: sentToday + 1 } };
+}
+
+/**
+ * When alerts past a device's daily cap are sent
+ * Devices with a digest get them rolled into the next day's digest; the
+ * grace period leaves the flush as a fallback for days without one.
+ */
+function getOverflowDeliveryTime(tokenData: PushToken, now: Date): Date {
+  const digestTime = getNextDayDigestTime(tokenData, now);
+  const hasDigest = tokenData.digestCadence === "daily" || tokenData.digestCadence === "weekly";
+  return hasDigest ? new Date(digestTime.getTime() + OVERFLOW_DIGEST_GRACE_MS) : digestTime;
+}
+
+/**
+ * Capped-out alerts that are due to be rolled into the devices' digests now
+ * @returns Queued notification docs by token, oldest first
+ */
+export async function getDigestOverflow(
+  tokens: string[],
+  now: Date
+): Promise<Map<string, admin.firestore.QueryDocumentSnapshot[]>> {
+  const dueBy = now.getTime() + OVERFLOW_DIGEST_GRACE_MS;
+  const overflow = new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+
+  for (let i = 0; i < tokens.length; i += IN_QUERY_LIMIT) {
+    const snapshot = await db.collection(DEFERRED_COLLECTION)
+      .where("token", "in", tokens.slice(i, i + IN_QUERY_LIMIT))
+      .where("reason", "==", "daily_cap")
+      .get();
+
+    snapshot.docs
+      .filter((doc) => (doc.data() as DeferredNotification).deliverAfter.toMillis() <= dueBy)
+      .sort((a, b) =>
+        (a.data() as DeferredNotification).createdAt.toMillis() - (b.data() as DeferredNotification).createdAt.toMillis()
+      )
+      .forEach((doc) => {
+        const { token } = doc.data() as DeferredNotification;
+        overflow.set(token, [...(overflow.get(token) ?? []), doc]);
+      });
+  }
+
+  return overflow;
+}
+
+/**
+ * Group queued notifications for one device into a single message
+ */
+function buildSummary(token: string, queued: DeferredNotification[]): ExpoPushMessage {
+  if (queued.length === 1) {
+    const [{ notification }] = queued;
+    return { to: token, title: notification.title, body: notification.body, data: notification.data };
+  }
+
+  const lines = queued.slice(0, SUMMARY_LINES).map((q) => q.notification.body);
+  if (queued.length > SUMMARY_LINES) {
+    lines.push(`+${queued.length - SUMMARY_LINES} more`);
+  }
+
+  const overflowOnly = queued.every((q) => q.reason === "daily_cap");
+
+  return {
+    to: token,
+    title: overflowOnly
+      ? `${queued.length} more alerts from yesterday`
+      : `${queued.length} alerts while you were away`,
+    body: lines.join("\n"),
+    data: { type: "summary", count: queued.length },
+  };
+}
+
+/**
+ * Send everything queued whose quiet hours or capped day has ended
+ * Each device gets one summary notification.
+ * @returns Number of devices notified
+ */
+export async function flushDeferredNotifications(): Promise<number> {
+  const now = new Date();
+  const snapshot = await db.collection(DEFERRED_COLLECTION)
+    .where("deliverAfter", "<=", admin.firestore.Timestamp.fromDate(now))
+    .orderBy("deliverAfter", "asc")
+    .limit(FLUSH_PAGE_SIZE)
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  const byToken = new Map<string, admin.firestore.QueryDocumentSnapshot[]>();
+  for (const doc of snapshot.docs) {
+    const { token } = doc.data() as DeferredNotification;
+    byToken.set(token, [...(byToken.get(token) ?? []), doc]);
+  }
+
+  const tokenDocs = await db.getAll(
+    ...[...byToken.keys()].map((token) => db.collection("push_tokens").doc(token))
+  );
+
+  const messages: ExpoPushMessage[] = [];
+  const writes: WriteOp[] = [];
+
+  for (const tokenDoc of tokenDocs) {
+    const docs = byToken.get(tokenDoc.id) ?? [];
+    const tokenData = tokenDoc.exists ? tokenDoc.data() as PushToken : null;
+
+    // Quiet hours were moved since queueing: wait for the new window to end
+    const quietUntil = tokenData ? getQuietHoursEnd(tokenData, now) : null;
+    if (quietUntil) {
+      docs.forEach((doc) => writes.push((batch) => batch.update(doc.ref, {
+        deliverAfter: admin.firestore.Timestamp.fromDate(quietUntil),
+      })));
+      continue;
+    }
+
+    // Unregistered or disabled devices just drop their queue
+    if (tokenData?.notificationsEnabled) {
+      messages.push(buildSummary(tokenDoc.id, docs.map((doc) => doc.data() as DeferredNotification)));
+    }
+    docs.forEach((doc) => writes.push((batch) => batch.delete(doc.ref)));
+  }
+
+  await commitWrites(writes);
+  await sendExpoMessages(messages);
+  logger.info(`Flushed ${snapshot.size} queued notifications to ${messages.length} devices`);
+  return messages.length;
+}
+
+/**
+ * A notification with the devices it's meant for, before delivery
+ */
+interface PlannedNotification {
+  recipients: PushToken[];
+  notification: NotificationPayload;
+}
+
+/**
+ * Who should hear about a hot deal, and what they'd get
+ * @returns null if the deal isn't hot
+ */
+async function planHotDeal(deal: DealData): Promise<PlannedNotification | null> {
+  if (deal.dealScore < HOT_DEAL_SCORE) return null;
+
+  const recipients = await getEligiblePushTokens(deal);
+  const notification: NotificationPayload = {
+    title: `${deal.percentOff}% OFF - Hot Deal!`,
+    body: `${deal.setName} at ${deal.retailer.toUpperCase()} - Now $${deal.currentPrice} (Save $${deal.savings})`,
+    data: {
+      type: "deal",
+      setNumber: deal.setNumber,
+      retailer: deal.retailer,
+      percentOff: deal.percentOff,
+    },
+  };
+
+  return { recipients, notification };
+}
+
+export async function notifyHotDeal(deal: DealData): Promise<void> {
+  const planned = await planHotDeal(deal);
+  if (!planned) return;
+
+  if (planned.recipients.length === 0) {
+    logger.info(`No eligible tokens for deal: ${deal.setNumber}`);
+    return;
+  }
+
+  await deliverNotification(planned.recipients, planned.notification, deal.currentPrice);
+  logger.info(`Sent hot deal notification for ${deal.setNumber} to ${planned.recipients.length} devices`);
+}
+
+type WatcherAlert = "target_reached" | "back_in_stock" | "price_drop";
+
+/**
+ * Pick the one alert (if any) a watching device should get for a price change
+ * A set with its own target only alerts on drops once the target is met.
+ */
+function pickWatcherAlert(
+  tokenData: PushToken,
+  previous: PriceData,
+  next: PriceData
+): WatcherAlert | null {
+  const target = tokenData.setTargets?.[next.setNumber];
+
+  if (target && isTargetMet(target, next) && !isTargetMet(target, previous)) {
+    return "target_reached";
+  }
+  if (!previous.inStock && next.inStock) {
+    return "back_in_stock";
+  }
+  if (!target && previous.inStock && next.inStock && previous.currentPrice > 0) {
+    const dropPercent = ((previous.currentPrice - next.currentPrice) / previous.currentPrice) * 100;
+    if (dropPercent >= PRICE_DROP_MIN_PERCENT) return "price_drop";
+  }
+  return null;
+}
+
+/**
+ * Build the notification for a watcher alert
+ */
+function buildWatcherNotification(
+  alert: WatcherAlert,
+  previous: PriceData,
+  next: PriceData
+): NotificationPayload {
+  const percentOff = calculatePercentOff(next);
+  const retailer = next.retailer.toUpperCase();
+  const data = { type: alert, setNumber: next.setNumber, retailer: next.retailer, percentOff };
+
+  switch (alert) {
+    case "target_reached":
+      return {
+        title: "Target Price Reached!",
+        body: `${next.setName} is now $${next.currentPrice} at ${retailer}` +
+          (percentOff > 0 ? ` (${percentOff}% off)` : ""),
+        data,
+      };
+    case "back_in_stock":
+      return {
+        title: "Back in Stock",
+        body: `${next.setName} is back at ${retailer} for $${next.currentPrice}`,
+        data,
+      };
+    case "price_drop":
+      return {
+        title: "Price Drop",
+        body: `${next.setName} dropped from $${previous.currentPrice} to $${next.currentPrice} at ${retailer}`,
+        data,
+      };
+  }
+}
+
+/**
+ * Alerts for devices watching a set about a change at one retailer:
+ * their target being reached, the set coming back in stock, or a
+ * price drop of at least PRICE_DROP_MIN_PERCENT. Each device gets at
+ * most one of these per change.
+ */
+async function planWatcherAlerts(
+  previous: PriceData | undefined,
+  next: PriceData
+): Promise<PlannedNotification[]> {
+  // Nothing to compare against on the first price seen
+  if (!previous || !next.inStock || !hasPriceChanged(previous, next)) return [];
+
+  const tokensSnapshot = await db.collection("push_tokens")
+    .where("notificationsEnabled", "==", true)
+    .where("watchedSets", "array-contains", next.setNumber)
+    .get();
+
+  const recipients = new Map<WatcherAlert, PushToken[]>();
+
+  for (const doc of tokensSnapshot.docs) {
+    const tokenData = doc.data() as PushToken;
+    if (isMuted(tokenData, next)) continue;
+
+    const alert = pickWatcherAlert(tokenData, previous, next);
+    if (!alert) continue;
+
+    recipients.set(alert, [...(recipients.get(alert) ?? []), tokenData]);
+  }
+
+  return [...recipients].map(([alert, tokens]) => ({
+    recipients: tokens,
+    notification: buildWatcherNotification(alert, previous, next),
+  }));
+}
+
+/**
+ * Notify devices watching a set about a change at one retailer
+ * (see planWatcherAlerts)
+ */
+export async function notifyWatchers(
+  previous: PriceData | undefined,
+  next: PriceData
+): Promise<void> {
+  for (const { recipients, notification } of await planWatcherAlerts(previous, next)) {
+    await deliverNotification(recipients, notification, next.currentPrice);
+    logger.info(`Sent ${notification.data.type} notification for ${next.setNumber} to ${recipients.length} devices`);
+  }
+}
+
+/**
+ * The watcher and hot deal alerts a price would trigger, without sending them
+ * @param deal - The deal built from the price, if it is one
+ */
+export async function previewPriceNotifications(
+  previous: PriceData | undefined,
+  next: PriceData,
+  deal: DealData | null
+): Promise<NotificationPreview[]> {
+  const planned = await planWatcherAlerts(previous, next);
+  const hotDeal = deal ? await planHotDeal(deal) : null;
+  if (hotDeal) planned.push(hotDeal);
+
+  return planned
+    .filter(({ recipients }) => recipients.length > 0)
+    .map(({ recipients, notification }) => ({
+      type: notification.data.type,
+      setNumber: next.setNumber,
+      retailer: next.retailer,
+      title: notification.title,
+      body: notification.body,
+      recipients: recipients.length,
+    }));
+}
+
+/**
+ * Tell devices watching a set (and opted in to retirement alerts) that it's
+ * about to retire. Sent once, when the set first becomes "retiring_soon".
+ */
+export async function notifyRetiringWatchers(set: LegoSet): Promise<void> {
+  if (!set.retirementDate) return;
+
+  const tokensSnapshot = await db.collection("push_tokens")
+    .where("notificationsEnabled", "==", true)
+    .where("watchedSets", "array-contains", set.setNumber)
+    .get();
+
+  const tokens = tokensSnapshot.docs
+    .map((doc) => doc.data() as PushToken)
+    .filter((tokenData) => tokenData.retirementAlerts === true)
+    .filter((tokenData) => !tokenData.mutedSets?.includes(set.setNumber));
+
+  if (tokens.length === 0) return;
+
+  const retiresOn = new Date(`${set.retirementDate}T00:00:00Z`).toLocaleDateString("en-US", {
+    month: "long",
+    day: "numeric",
+    year: "numeric",
+    timeZone: "UTC",
+  });
+
+  const notification: NotificationPayload = {
+    title: "Retiring Soon",
+    body: `${set.name} is expected to retire on ${retiresOn}`,
+    // Retirement is LEGO's call, so it's filed under LEGO.com
+    data: { type: "retiring_soon", setNumber: set.setNumber, retailer: "lego" },
+  };
+
+  // Only sent once per set, so it skips the ledger (and leaves LEGO.com price alerts alone)
+  await deliverNotification(tokens, notification, set.msrp ?? 0);
+  logger.info(`Sent retiring_soon notification for ${set.setNumber} to ${tokens.length} devices`);
+}
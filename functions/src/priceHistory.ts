@@ -0,0 +1,199 @@
+/**
+ * Price history snapshots
+ *
+ * The price jobs append a "point" to price_history whenever a set's price or
+ * stock state changes at a retailer. A daily job compacts old points into
+ * daily rollups, and old daily rollups into weekly ones, so the collection
+ * stays bounded while charts keep their shape. Rollups are merged in
+ * transactions, so a replay compacting alongside the daily job can't count
+ * an entry twice.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, WriteOp } from "./db";
+import { PriceData, PriceHistoryEntry } from "./types";
+
+const HISTORY_COLLECTION = "price_history";
+
+// Raw points are kept for a week, daily rollups for ~3 months
+const POINT_RETENTION_DAYS = 7;
+const DAILY_RETENTION_DAYS = 90;
+
+// Source entries merged into a rollup per transaction; transactions allow
+// 500 writes, one of which is the rollup
+const MERGE_CHUNK_SIZE = 400;
+// Docs read per compaction pass
+const COMPACTION_PAGE_SIZE = 2000;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Whether a new price differs from the stored one enough to record
+ */
+export function hasPriceChanged(previous: PriceData | undefined, next: PriceData): boolean {
+  if (!previous) return true;
+  return previous.currentPrice !== next.currentPrice || previous.inStock !== next.inStock;
+}
+
+/**
+ * Queue a history point if the price or stock state changed
+ * @returns True if a point was queued
+ */
+export function queuePriceHistory(
+  writes: WriteOp[],
+  previous: PriceData | undefined,
+  next: PriceData
+): boolean {
+  if (!hasPriceChanged(previous, next)) return false;
+
+  const entry: PriceHistoryEntry = {
+    setNumber: next.setNumber,
+    retailer: next.retailer,
+    date: next.lastUpdated,
+    price: next.currentPrice,
+    originalPrice: next.originalPrice,
+    inStock: next.inStock,
+    granularity: "point",
+  };
+
+  writes.push((batch) => batch.set(db.collection(HISTORY_COLLECTION).doc(), entry));
+  return true;
+}
+
+/**
+ * Start of the UTC day (or Monday-based week) containing a date
+ */
+function periodStart(date: Date, granularity: "daily" | "weekly"): Date {
+  const start = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+  if (granularity === "weekly") {
+    const daysSinceMonday = (start.getUTCDay() + 6) % 7;
+    start.setUTCDate(start.getUTCDate() - daysSinceMonday);
+  }
+  return start;
+}
+
+/**
+ * Fold a set of entries for the same set/retailer/period into one rollup
+ */
+function mergeIntoRollup(
+  entries: PriceHistoryEntry[],
+  existing: PriceHistoryEntry | undefined,
+  granularity: "daily" | "weekly",
+  date: Date
+): PriceHistoryEntry {
+  const all = existing ? [existing, ...entries] : entries;
+  const latest = entries.reduce((a, b) => (a.date.toMillis() >= b.date.toMillis() ? a : b));
+
+  return {
+    setNumber: latest.setNumber,
+    retailer: latest.retailer,
+    date: admin.firestore.Timestamp.fromDate(date),
+    price: Math.min(...all.map((e) => e.price)),
+    maxPrice: Math.max(...all.map((e) => e.maxPrice ?? e.price)),
+    originalPrice: latest.originalPrice,
+    inStock: all.some((e) => e.inStock),
+    granularity,
+    samples: all.reduce((sum, e) => sum + (e.samples ?? 1), 0),
+  };
+}
+
+/**
+ * Roll one page of entries older than the cutoff into the next granularity
+ * @returns Number of source entries compacted
+ */
+async function compactPage(
+  from: "point" | "daily",
+  to: "daily" | "weekly",
+  cutoff: Date
+): Promise<number> {
+  const snapshot = await db.collection(HISTORY_COLLECTION)
+    .where("granularity", "==", from)
+    .where("date", "<", admin.firestore.Timestamp.fromDate(cutoff))
+    .orderBy("date", "asc")
+    .limit(COMPACTION_PAGE_SIZE)
+    .get();
+
+  if (snapshot.empty) return 0;
+
+  // Group by set, retailer and period
+  const groups = new Map<string, { date: Date; docs: admin.firestore.QueryDocumentSnapshot[] }>();
+  for (const doc of snapshot.docs) {
+    const entry = doc.data() as PriceHistoryEntry;
+    const date = periodStart(entry.date.toDate(), to);
+    const rollupId = `${entry.setNumber}_${entry.retailer}_${to}_${date.toISOString().slice(0, 10)}`;
+
+    const group = groups.get(rollupId) ?? { date, docs: [] };
+    group.docs.push(doc);
+    groups.set(rollupId, group);
+  }
+
+  let compacted = 0;
+  for (const [rollupId, group] of groups) {
+    const rollupRef = db.collection(HISTORY_COLLECTION).doc(rollupId);
+    for (let i = 0; i < group.docs.length; i += MERGE_CHUNK_SIZE) {
+      const refs = group.docs.slice(i, i + MERGE_CHUNK_SIZE).map((doc) => doc.ref);
+      compacted += await mergeChunk(rollupRef, refs, to, group.date);
+    }
+  }
+
+  return compacted;
+}
+
+/**
+ * Merge source entries into a rollup and delete them, in one transaction
+ * Sources are re-read inside it, so entries another compaction already
+ * merged (and deleted) aren't counted twice.
+ * @returns Number of source entries merged
+ */
+async function mergeChunk(
+  rollupRef: admin.firestore.DocumentReference,
+  refs: admin.firestore.DocumentReference[],
+  to: "daily" | "weekly",
+  date: Date
+): Promise<number> {
+  return db.runTransaction(async (transaction) => {
+    const [existing, ...sources] = await transaction.getAll(rollupRef, ...refs);
+    const remaining = sources.filter((doc) => doc.exists);
+    if (remaining.length === 0) return 0;
+
+    const rollup = mergeIntoRollup(
+      remaining.map((doc) => doc.data() as PriceHistoryEntry),
+      existing.exists ? existing.data() as PriceHistoryEntry : undefined,
+      to,
+      date
+    );
+
+    transaction.set(rollupRef, rollup);
+    remaining.forEach((doc) => transaction.delete(doc.ref));
+    return remaining.length;
+  });
+}
+
+/**
+ * Compact old history: points into daily rollups, dailies into weekly ones
+ * Stops early when the time budget runs out; the next run picks up the rest.
+ */
+export async function compactPriceHistory(budgetMs: number): Promise<{ points: number; dailies: number }> {
+  const deadline = Date.now() + budgetMs;
+  const now = Date.now();
+  let points = 0;
+  let dailies = 0;
+
+  const pointCutoff = new Date(now - POINT_RETENTION_DAYS * DAY_MS);
+  while (Date.now() < deadline) {
+    const compacted = await compactPage("point", "daily", pointCutoff);
+    if (compacted === 0) break;
+    points += compacted;
+  }
+
+  const dailyCutoff = new Date(now - DAILY_RETENTION_DAYS * DAY_MS);
+  while (Date.now() < deadline) {
+    const compacted = await compactPage("daily", "weekly", dailyCutoff);
+    if (compacted === 0) break;
+    dailies += compacted;
+  }
+
+  logger.info(`Compacted ${points} history points and ${dailies} daily rollups`);
+  return { points, dailies };
+}
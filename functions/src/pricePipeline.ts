@@ -0,0 +1,757 @@
+/**
+ * Sharded price update pipeline
+ *
+ * A price run covers every available or retiring catalog set. The run is
+ * split into shards (a range of set numbers × a group of retailers) that
+ * are enqueued on the processPriceShard task queue, so they run in
+ * parallel across instances and get retried on their own when one fails.
+ * Inside a shard each retailer is fetched with its own concurrency limit,
+ * and prices, history points and deals are committed in batches, then
+ * the touched sets' offers are refreshed (setOffers.ts).
+ * Progress is kept in price_runs/{runId}, with one doc per finished shard
+ * in its shards subcollection so a redelivered task isn't counted twice.
+ * Each run also has a job_runs record under the same ID, closed when its
+ * last shard finishes. Every retailer batch passes the anomaly guard
+ * (anomalyGuard.ts) before it's published.
+ * A dry run fetches prices the same way but publishes nothing: each shard
+ * stores what it would have changed in price_runs/{runId}/diffs, and the
+ * run leaves job records, retailer status and anomaly baselines alone.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { getFunctions } from "firebase-admin/functions";
+import { db, commitWrites, WriteOp } from "./db";
+import {
+  DealData,
+  JobName,
+  LegoSet,
+  PriceData,
+  PriceDistribution,
+  PriceReview,
+  PriceRun,
+  PriceRunDiff,
+  PriceShard,
+  RetailerId,
+  RetailerRunStats,
+} from "./types";
+import { getRegisteredRetailers, fetchRetailerPrice } from "./retailers";
+import { getVerifiedMsrp } from "./msrp";
+import { hasPriceChanged, queuePriceHistory } from "./priceHistory";
+import { DealScoreInputs, loadDealScoreInputs, recordPriceObservation, scoreDeal } from "./dealScore";
+import { verifyListPrice } from "./listPrice";
+import { cleanOldSetOffers, refreshSetOffers } from "./setOffers";
+import { notifyHotDeal, notifyWatchers, previewPriceNotifications } from "./notifications";
+import { appendErrors, describeError, finishJobRun, recordRetailerStats, startJobRun } from "./jobRuns";
+import {
+  findAnomalies,
+  getBaselines,
+  mergeDistributions,
+  quarantineBatch,
+  REVIEWS_COLLECTION,
+  summarizePrices,
+  updateBaselines,
+} from "./anomalyGuard";
+
+const RUNS_COLLECTION = "price_runs";
+// Task queue function that runs the shards (see processPriceShard in index.ts)
+const SHARD_QUEUE = "processPriceShard";
+
+// Tries per shard before it's recorded as failed; matches the queue's retryConfig
+export const SHARD_MAX_ATTEMPTS = 3;
+
+// Sets per shard and retailers per shard
+const SHARD_SIZE = 50;
+const RETAILERS_PER_SHARD = 3;
+// Parallel requests per retailer within a shard
+const DEFAULT_RETAILER_CONCURRENCY = 2;
+const RETAILER_CONCURRENCY: Partial<Record<RetailerId, number>> = {
+  amazon: 1,
+  walmart: 1,
+};
+// Pause between requests to the same retailer
+const REQUEST_DELAY_MS = 250;
+// Catalog set numbers read per page when planning a run
+const CATALOG_PAGE_SIZE = 1000;
+// Tasks enqueued in parallel when starting a run
+const ENQUEUE_CONCURRENCY = 10;
+
+// Smallest discount off MSRP saved as a deal
+const MIN_DEAL_PERCENT = 10;
+// Deals not refreshed for this long are removed once a run completes
+const DEAL_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Catalog docs read per getAll call
+const READ_CHUNK_SIZE = 300;
+// Entries kept per list in a shard's dry-run diff, and per list in a run report
+const MAX_DIFF_ENTRIES = 200;
+const MAX_REPORT_ENTRIES = 1000;
+
+/**
+ * Run a worker over items with at most `limit` running at once
+ */
+async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  worker: (item: T) => Promise<R>
+): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+
+  const lanes = Array.from({ length: Math.min(limit, items.length) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await worker(items[index]);
+    }
+  });
+
+  await Promise.all(lanes);
+  return results;
+}
+
+/**
+ * Percent off the set's verified MSRP, rounded
+ * @returns null if the set has no verified MSRP
+ */
+function percentOffMsrp(set: LegoSet, priceData: PriceData): number | null {
+  const msrp = getVerifiedMsrp(set);
+  return msrp === null ? null : Math.round(((msrp - priceData.currentPrice) / msrp) * 100);
+}
+
+/**
+ * Build a deal from a retailer price, measured against the set's verified MSRP
+ * @param scoring - Stats and theme medians for the deal score (see dealScore.ts)
+ * @returns null if the set has no verified MSRP, is out of stock, or isn't discounted enough
+ */
+export function buildDeal(set: LegoSet, priceData: PriceData, scoring: DealScoreInputs): DealData | null {
+  const msrp = getVerifiedMsrp(set);
+  const percentOff = percentOffMsrp(set, priceData);
+  if (msrp === null || percentOff === null || !priceData.inStock) return null;
+  if (percentOff < MIN_DEAL_PERCENT) return null;
+
+  return {
+    ...priceData,
+    originalPrice: msrp,
+    percentOff,
+    savings: Math.round((msrp - priceData.currentPrice) * 100) / 100,
+    ...scoreDeal(set, priceData, percentOff, scoring),
+  };
+}
+
+/**
+ * Remove deals that no run has refreshed recently
+ */
+async function cleanOldDeals(): Promise<void> {
+  const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - DEAL_MAX_AGE_MS);
+  const oldDeals = await db.collection("deals").where("lastUpdated", "<", cutoff).get();
+
+  await commitWrites(oldDeals.docs.map((doc) => (batch) => batch.delete(doc.ref)));
+  logger.info(`Cleaned ${oldDeals.size} old deals`);
+  await cleanOldSetOffers();
+}
+
+/**
+ * Set numbers of every catalog set that's priced each run, in ID order
+ */
+async function getPricedSetNumbers(): Promise<string[]> {
+  const setNumbers: string[] = [];
+  let last: string | undefined;
+
+  for (;;) {
+    let query = db.collection("lego_catalog")
+      .where("availability", "in", ["available", "retiring_soon"])
+      .orderBy(admin.firestore.FieldPath.documentId())
+      .select()
+      .limit(CATALOG_PAGE_SIZE);
+    if (last) query = query.startAfter(last);
+
+    const snapshot = await query.get();
+    snapshot.docs.forEach((doc) => setNumbers.push(doc.id));
+    if (snapshot.size < CATALOG_PAGE_SIZE) break;
+    last = snapshot.docs[snapshot.docs.length - 1].id;
+  }
+
+  return setNumbers;
+}
+
+/**
+ * Split a list into consecutive groups of `size`
+ */
+function chunk<T>(items: T[], size: number): T[][] {
+  const groups: T[][] = [];
+  for (let i = 0; i < items.length; i += size) {
+    groups.push(items.slice(i, i + size));
+  }
+  return groups;
+}
+
+/**
+ * Job that a run's record is filed under
+ */
+function jobFor(trigger: PriceRun["trigger"]): JobName {
+  return trigger === "scheduled" ? "updatePrices" : "manualPriceUpdate";
+}
+
+/**
+ * Add one set of per-retailer lookup counts to another
+ */
+function addRetailerStats(
+  total: Record<string, RetailerRunStats>,
+  more: Record<string, RetailerRunStats>
+): Record<string, RetailerRunStats> {
+  const sum = { ...total };
+  for (const [retailer, stats] of Object.entries(more)) {
+    sum[retailer] = {
+      attempts: (sum[retailer]?.attempts ?? 0) + stats.attempts,
+      successes: (sum[retailer]?.successes ?? 0) + stats.successes,
+    };
+  }
+  return sum;
+}
+
+/**
+ * Start a price run over the whole catalog and enqueue its shards
+ * @param options.notify - Send watcher and hot deal alerts for this run
+ * @param options.dryRun - Only record what the run would change
+ * @param options.retailers - Only check these retailers (defaults to all registered ones)
+ * @param options.inline - Run the shards here, one after another, instead of
+ *   on the task queue (for the admin CLI)
+ * @returns The run ID and its progress record, or null if the catalog is empty
+ */
+export async function startPriceRun(
+  trigger: PriceRun["trigger"],
+  options: { notify: boolean; dryRun?: boolean; retailers?: RetailerId[]; inline?: boolean }
+): Promise<{ runId: string; run: PriceRun } | null> {
+  const { notify } = options;
+  const dryRun = options.dryRun === true;
+  const runRef = db.collection(RUNS_COLLECTION).doc();
+  const job = jobFor(trigger);
+  if (!dryRun) await startJobRun(job, runRef.id);
+
+  let setNumbers: string[];
+  try {
+    setNumbers = await getPricedSetNumbers();
+  } catch (error) {
+    if (!dryRun) {
+      await finishJobRun(runRef.id, job, { setsProcessed: 0, dealsFound: 0, errors: [describeError(error)] });
+    }
+    throw error;
+  }
+
+  if (setNumbers.length === 0) {
+    if (!dryRun) {
+      await finishJobRun(runRef.id, job, { setsProcessed: 0, dealsFound: 0, errors: ["Catalog is empty"] });
+    }
+    return null;
+  }
+
+  const setRanges = chunk(setNumbers, SHARD_SIZE);
+  const registered = getRegisteredRetailers();
+  const selected = options.retailers
+    ? registered.filter((retailer) => options.retailers?.includes(retailer))
+    : registered;
+  const retailerGroups = chunk(selected, RETAILERS_PER_SHARD);
+  const now = admin.firestore.Timestamp.now();
+
+  const shards: PriceShard[] = setRanges.flatMap((range, rangeIndex) =>
+    retailerGroups.map((retailers, groupIndex) => ({
+      runId: runRef.id,
+      shardId: `${rangeIndex}-${groupIndex}`,
+      setNumbers: range,
+      retailers,
+      notify,
+      ...(dryRun ? { dryRun } : {}),
+    }))
+  );
+
+  const run: PriceRun = {
+    status: "running",
+    trigger,
+    notify,
+    dryRun,
+    startedAt: now,
+    updatedAt: now,
+    sets: setNumbers.length,
+    totalShards: shards.length,
+    completedShards: 0,
+    failedShards: 0,
+    pricesFetched: 0,
+    dealsFound: 0,
+    retailers: {},
+    errors: [],
+    quarantinedBatches: 0,
+    distributions: {},
+  };
+  await runRef.set(run);
+
+  if (options.inline) {
+    for (const shard of shards) {
+      try {
+        await runPriceShard(shard);
+      } catch (error) {
+        logger.error(`Price shard ${shard.shardId} failed:`, error);
+        await failPriceShard(shard, describeError(error));
+      }
+    }
+    return { runId: runRef.id, run };
+  }
+
+  const queue = getFunctions().taskQueue<PriceShard>(SHARD_QUEUE);
+  const enqueueErrors = await mapWithConcurrency(shards, ENQUEUE_CONCURRENCY, async (shard) => {
+    try {
+      // Task IDs make a repeated enqueue of the same shard a no-op
+      await queue.enqueue(shard, { id: `${shard.runId}-${shard.shardId}` });
+      return null;
+    } catch (error) {
+      logger.error(`Could not enqueue price shard ${shard.shardId}:`, error);
+      return `Shard ${shard.shardId} not enqueued: ${describeError(error)}`;
+    }
+  });
+
+  const failed = enqueueErrors.filter((error) => error !== null).length;
+  for (const [index, error] of enqueueErrors.entries()) {
+    if (error !== null) await failPriceShard(shards[index], error);
+  }
+
+  logger.info(
+    `Started ${dryRun ? "dry " : ""}price run ${runRef.id}: ${setNumbers.length} sets in ${shards.length} shards` +
+    (failed > 0 ? `, ${failed} failed to enqueue` : "")
+  );
+  return { runId: runRef.id, run: { ...run, failedShards: failed } };
+}
+
+/**
+ * What a shard did, as recorded on its run
+ */
+interface ShardResult {
+  status: "complete" | "failed";
+  pricesFetched: number;
+  dealsFound: number;
+  retailers: Record<string, RetailerRunStats>;
+  /** Retailer batches sent for review */
+  quarantined: number;
+  /** Distributions of the batches that were published */
+  distributions: Record<string, PriceDistribution>;
+  error?: string;
+}
+
+/**
+ * Record a finished shard on its run, once per shard
+ * The run is marked complete when its last shard finishes; its job run
+ * record is closed, the anomaly baselines updated and old deals cleaned up then.
+ */
+async function finishShard(shard: PriceShard, result: ShardResult): Promise<void> {
+  const runRef = db.collection(RUNS_COLLECTION).doc(shard.runId);
+  const shardRef = runRef.collection("shards").doc(shard.shardId);
+
+  const { status, pricesFetched, dealsFound, retailers, quarantined, distributions, error } = result;
+
+  const completedRun = await db.runTransaction(async (transaction) => {
+    const [runDoc, shardDoc] = await Promise.all([
+      transaction.get(runRef),
+      transaction.get(shardRef),
+    ]);
+    if (!runDoc.exists || shardDoc.exists) return null;
+
+    const run = runDoc.data() as PriceRun;
+    const now = admin.firestore.Timestamp.now();
+    const updated: PriceRun = {
+      ...run,
+      completedShards: run.completedShards + (status === "complete" ? 1 : 0),
+      failedShards: run.failedShards + (status === "failed" ? 1 : 0),
+      pricesFetched: run.pricesFetched + pricesFetched,
+      dealsFound: run.dealsFound + dealsFound,
+      retailers: addRetailerStats(run.retailers ?? {}, retailers),
+      errors: error ? appendErrors(run.errors ?? [], [error]) : run.errors ?? [],
+      quarantinedBatches: (run.quarantinedBatches ?? 0) + quarantined,
+      distributions: { ...run.distributions },
+      updatedAt: now,
+    };
+    for (const [retailer, distribution] of Object.entries(distributions)) {
+      const current = updated.distributions[retailer];
+      updated.distributions[retailer] = current ? mergeDistributions(current, distribution) : distribution;
+    }
+
+    const done = updated.completedShards + updated.failedShards >= run.totalShards;
+    if (done) {
+      updated.status = "complete";
+      updated.completedAt = now;
+    }
+
+    transaction.set(shardRef, {
+      status,
+      pricesFetched,
+      dealsFound,
+      quarantined,
+      finishedAt: now,
+      ...(error ? { error } : {}),
+    });
+    transaction.set(runRef, updated);
+    return done ? updated : null;
+  });
+
+  if (completedRun?.dryRun) {
+    logger.info(`Dry price run ${shard.runId} complete`);
+  } else if (completedRun) {
+    logger.info(`Price run ${shard.runId} complete`);
+    await finishJobRun(shard.runId, jobFor(completedRun.trigger), {
+      setsProcessed: completedRun.sets,
+      dealsFound: completedRun.dealsFound,
+      errors: completedRun.errors,
+      retailers: completedRun.retailers,
+    });
+    await updateBaselines(completedRun.distributions);
+    await cleanOldDeals();
+  }
+}
+
+/**
+ * Record a shard that used up its retries (or never got enqueued) as failed
+ */
+export async function failPriceShard(shard: PriceShard, error: string): Promise<void> {
+  await finishShard(shard, {
+    status: "failed",
+    pricesFetched: 0,
+    dealsFound: 0,
+    retailers: {},
+    quarantined: 0,
+    distributions: {},
+    error,
+  });
+}
+
+/**
+ * Store prices, history points and deals, then send their alerts
+ * A price older than the one already stored is skipped, so approving an
+ * old review can't roll a price back. List prices are verified first
+ * (see listPrice.ts). A stored deal whose price no longer qualifies is
+ * deleted, as a replay would.
+ * @param notify - Send watcher and hot deal alerts
+ */
+async function publishPrices(
+  entries: { set: LegoSet; priceData: PriceData }[],
+  notify: boolean
+): Promise<{ pricesFetched: number; dealsFound: number }> {
+  const priceRefs = entries.map(({ priceData }) =>
+    db.collection("prices").doc(`${priceData.setNumber}_${priceData.retailer}`)
+  );
+  const dealRefs = priceRefs.map((ref) => db.collection("deals").doc(ref.id));
+  const [previousDocs, dealDocs, scoring] = await Promise.all([
+    priceRefs.length > 0 ? db.getAll(...priceRefs) : Promise.resolve([]),
+    dealRefs.length > 0 ? db.getAll(...dealRefs) : Promise.resolve([]),
+    loadDealScoreInputs(entries.map(({ priceData }) => priceData.setNumber)),
+  ]);
+
+  const writes: WriteOp[] = [];
+  const changes: { previous: PriceData | undefined; next: PriceData }[] = [];
+  const deals: DealData[] = [];
+  let inflated = 0;
+
+  entries.forEach(({ set, priceData: fetched }, index) => {
+    const ref = priceRefs[index];
+    const previous = previousDocs[index].exists ? previousDocs[index].data() as PriceData : undefined;
+    if (previous && previous.lastUpdated.toMillis() > fetched.lastUpdated.toMillis()) return;
+
+    const stats = scoring.stats.get(fetched.setNumber)?.retailers[fetched.retailer];
+    const priceData = verifyListPrice(set, fetched, stats);
+    if (priceData.listPriceInflated) inflated++;
+
+    writes.push((batch) => batch.set(ref, priceData, { merge: true }));
+    queuePriceHistory(writes, previous, priceData);
+    recordPriceObservation(writes, scoring, priceData, (percentOffMsrp(set, priceData) ?? 0) >= MIN_DEAL_PERCENT);
+    changes.push({ previous, next: priceData });
+
+    const deal = buildDeal(set, priceData, scoring);
+    if (deal) {
+      writes.push((batch) => batch.set(dealRefs[index], deal, { merge: true }));
+      deals.push(deal);
+    } else if (dealDocs[index].exists) {
+      writes.push((batch) => batch.delete(dealRefs[index]));
+    }
+  });
+
+  await commitWrites(writes);
+  await refreshSetOffers(changes.map(({ next }) => next.setNumber));
+  if (inflated > 0) {
+    logger.info(`Flagged ${inflated} inflated list prices`);
+  }
+
+  // Alerts go out only after the prices they describe are stored
+  if (notify) {
+    for (const { previous, next } of changes) {
+      await notifyWatchers(previous, next);
+    }
+    for (const deal of deals) {
+      await notifyHotDeal(deal);
+    }
+  }
+
+  return { pricesFetched: changes.length, dealsFound: deals.length };
+}
+
+/**
+ * What publishing prices would change, without writing anything
+ * Deals and notifications are worked out the same way publishPrices does.
+ */
+async function diffPrices(
+  entries: { set: LegoSet; priceData: PriceData }[],
+  notify: boolean,
+  diff: PriceRunDiff
+): Promise<{ pricesFetched: number; dealsFound: number }> {
+  const docIds = entries.map(({ priceData }) => `${priceData.setNumber}_${priceData.retailer}`);
+  const [previousDocs, dealDocs] = docIds.length > 0
+    ? await Promise.all([
+      db.getAll(...docIds.map((id) => db.collection("prices").doc(id))),
+      db.getAll(...docIds.map((id) => db.collection("deals").doc(id))),
+    ])
+    : [[], []];
+  // Observations are folded in memory only, so scores match what publishing would store
+  const scoring = await loadDealScoreInputs(entries.map(({ priceData }) => priceData.setNumber));
+  const discarded: WriteOp[] = [];
+
+  let pricesFetched = 0;
+  let dealsFound = 0;
+  const add = <T>(list: T[], entry: T) => {
+    if (list.length < MAX_DIFF_ENTRIES) list.push(entry);
+    else diff.truncated = true;
+  };
+
+  for (const [index, { set, priceData: fetched }] of entries.entries()) {
+    const previous = previousDocs[index].exists ? previousDocs[index].data() as PriceData : undefined;
+    if (previous && previous.lastUpdated.toMillis() > fetched.lastUpdated.toMillis()) continue;
+    const stats = scoring.stats.get(fetched.setNumber)?.retailers[fetched.retailer];
+    const priceData = verifyListPrice(set, fetched, stats);
+    const currentDeal = dealDocs[index].exists ? dealDocs[index].data() as DealData : undefined;
+    const { setNumber, retailer } = priceData;
+    pricesFetched++;
+
+    if (hasPriceChanged(previous, priceData)) {
+      add(diff.priceMoves, {
+        setNumber,
+        retailer,
+        from: previous ? { price: previous.currentPrice, inStock: previous.inStock } : null,
+        to: { price: priceData.currentPrice, inStock: priceData.inStock },
+      });
+    }
+
+    recordPriceObservation(discarded, scoring, priceData, (percentOffMsrp(set, priceData) ?? 0) >= MIN_DEAL_PERCENT);
+    const deal = buildDeal(set, priceData, scoring);
+    if (deal) {
+      dealsFound++;
+      if (!currentDeal) {
+        add(diff.newDeals, { setNumber, retailer, percentOff: deal.percentOff, price: deal.currentPrice });
+      } else if (currentDeal.percentOff !== deal.percentOff || currentDeal.currentPrice !== deal.currentPrice) {
+        add(diff.updatedDeals, {
+          setNumber,
+          retailer,
+          fromPercentOff: currentDeal.percentOff,
+          percentOff: deal.percentOff,
+          price: deal.currentPrice,
+        });
+      }
+    } else if (currentDeal) {
+      add(diff.endedDeals, { setNumber, retailer, percentOff: currentDeal.percentOff });
+    }
+
+    if (notify) {
+      for (const preview of await previewPriceNotifications(previous, priceData, deal)) {
+        add(diff.notifications, preview);
+      }
+    }
+  }
+
+  return { pricesFetched, dealsFound };
+}
+
+/**
+ * Publish a quarantined batch
+ * @param notify - Also send the alerts the run held back (only if the run would have sent them)
+ * @returns What was published, or null if the review doesn't exist or was already decided
+ */
+export async function approvePriceReview(
+  reviewId: string,
+  notify: boolean
+): Promise<{ pricesFetched: number; dealsFound: number } | null> {
+  const ref = db.collection(REVIEWS_COLLECTION).doc(reviewId);
+
+  // Claim the review first so two approvals can't both publish it
+  const review = await db.runTransaction(async (transaction) => {
+    const doc = await transaction.get(ref);
+    if (!doc.exists || (doc.data() as PriceReview).status !== "pending") return null;
+
+    transaction.update(ref, { status: "approved", reviewedAt: admin.firestore.Timestamp.now() });
+    return doc.data() as PriceReview;
+  });
+  if (!review) return null;
+
+  try {
+    const sets = new Map<string, LegoSet>();
+    for (let i = 0; i < review.prices.length; i += READ_CHUNK_SIZE) {
+      const docs = await db.getAll(...review.prices
+        .slice(i, i + READ_CHUNK_SIZE)
+        .map((price) => db.collection("lego_catalog").doc(price.setNumber)));
+      docs.filter((doc) => doc.exists).forEach((doc) => sets.set(doc.id, doc.data() as LegoSet));
+    }
+
+    const entries = review.prices
+      .filter((priceData) => sets.has(priceData.setNumber))
+      .map((priceData) => ({ set: sets.get(priceData.setNumber) as LegoSet, priceData }));
+
+    const published = await publishPrices(entries, notify && review.notify);
+    logger.info(`Approved price review ${reviewId}: ${published.pricesFetched} prices published`);
+    return published;
+  } catch (error) {
+    await ref.update({ status: "pending", reviewedAt: admin.firestore.FieldValue.delete() });
+    throw error;
+  }
+}
+
+/**
+ * Whether a shard was already recorded, e.g. when a task is delivered twice
+ */
+async function isShardFinished(shard: PriceShard): Promise<boolean> {
+  const doc = await db.collection(RUNS_COLLECTION).doc(shard.runId)
+    .collection("shards").doc(shard.shardId).get();
+  return doc.exists;
+}
+
+/**
+ * Fetch, store and alert on prices for one shard
+ */
+export async function runPriceShard(shard: PriceShard): Promise<void> {
+  if (await isShardFinished(shard)) {
+    logger.info(`Price shard ${shard.runId}/${shard.shardId} already finished`);
+    return;
+  }
+
+  const catalogDocs = await db.getAll(
+    ...shard.setNumbers.map((setNumber) => db.collection("lego_catalog").doc(setNumber))
+  );
+  const sets = catalogDocs
+    .filter((doc) => doc.exists)
+    .map((doc) => doc.data() as LegoSet);
+
+  // Each retailer works through the shard's sets at its own pace
+  const fetched = await Promise.all(shard.retailers.map((retailer) =>
+    mapWithConcurrency(
+      sets,
+      RETAILER_CONCURRENCY[retailer] ?? DEFAULT_RETAILER_CONCURRENCY,
+      async (set) => {
+        const priceData = await fetchRetailerPrice(set, retailer);
+        await new Promise((resolve) => setTimeout(resolve, REQUEST_DELAY_MS));
+        return priceData ? { set, priceData } : null;
+      }
+    )
+  ));
+
+  const retailerStats: Record<string, RetailerRunStats> = {};
+  shard.retailers.forEach((retailer, index) => {
+    retailerStats[retailer] = {
+      attempts: sets.length,
+      successes: fetched[index].filter((result) => result !== null).length,
+    };
+  });
+
+  // Each retailer's batch is checked before anything from it is published
+  const baselines = await getBaselines(shard.retailers);
+  const diff: PriceRunDiff = {
+    priceMoves: [],
+    newDeals: [],
+    updatedDeals: [],
+    endedDeals: [],
+    notifications: [],
+    quarantined: [],
+    truncated: false,
+  };
+  const accepted: { set: LegoSet; priceData: PriceData }[] = [];
+  const distributions: Record<string, PriceDistribution> = {};
+  let quarantined = 0;
+
+  for (const [index, retailer] of shard.retailers.entries()) {
+    const batch = fetched[index].filter((result) => result !== null);
+    const distribution = summarizePrices(batch);
+    const baseline = baselines.get(retailer) ?? null;
+    const reasons = findAnomalies(distribution, baseline);
+
+    if (reasons.length > 0 && shard.dryRun) {
+      diff.quarantined.push({ retailer, prices: batch.length, reasons });
+      quarantined++;
+    } else if (reasons.length > 0) {
+      await quarantineBatch(
+        shard,
+        retailer,
+        batch.map(({ priceData }) => priceData),
+        distribution,
+        baseline,
+        reasons
+      );
+      quarantined++;
+    } else {
+      accepted.push(...batch);
+      distributions[retailer] = distribution;
+    }
+  }
+
+  const runRef = db.collection(RUNS_COLLECTION).doc(shard.runId);
+  let result: { pricesFetched: number; dealsFound: number };
+  if (shard.dryRun) {
+    result = await diffPrices(accepted, shard.notify, diff);
+    await runRef.collection("diffs").doc(shard.shardId).set(diff);
+  } else {
+    result = await publishPrices(accepted, shard.notify);
+    await recordRetailerStats(retailerStats);
+  }
+  const { pricesFetched, dealsFound } = result;
+
+  await finishShard(shard, {
+    status: "complete",
+    pricesFetched,
+    dealsFound,
+    retailers: retailerStats,
+    quarantined,
+    distributions,
+  });
+  logger.info(
+    `Price shard ${shard.runId}/${shard.shardId}: ${pricesFetched} prices, ${dealsFound} deals` +
+    (quarantined > 0 ? `, ${quarantined} batches quarantined` : "")
+  );
+}
+
+/**
+ * A price run's progress record and, for a dry run, its shards' diffs merged
+ * @returns null if there's no such run
+ */
+export async function getPriceRunReport(
+  runId: string
+): Promise<{ run: PriceRun; diff: PriceRunDiff | null } | null> {
+  const runRef = db.collection(RUNS_COLLECTION).doc(runId);
+  const runDoc = await runRef.get();
+  if (!runDoc.exists) return null;
+
+  const run = runDoc.data() as PriceRun;
+  if (!run.dryRun) return { run, diff: null };
+
+  const diffs = await runRef.collection("diffs").get();
+  const diff: PriceRunDiff = {
+    priceMoves: [],
+    newDeals: [],
+    updatedDeals: [],
+    endedDeals: [],
+    notifications: [],
+    quarantined: [],
+    truncated: false,
+  };
+  const lists = ["priceMoves", "newDeals", "updatedDeals", "endedDeals", "notifications", "quarantined"] as const;
+
+  for (const doc of diffs.docs) {
+    const shardDiff = doc.data() as PriceRunDiff;
+    diff.truncated = diff.truncated || shardDiff.truncated;
+    for (const list of lists) {
+      const merged = diff[list] as unknown[];
+      const room = MAX_REPORT_ENTRIES - merged.length;
+      if (shardDiff[list].length > room) diff.truncated = true;
+      merged.push(...shardDiff[list].slice(0, Math.max(0, room)));
+    }
+  }
+
+  return { run, diff };
+}
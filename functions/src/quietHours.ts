@@ -0,0 +1,117 @@
+/**
+ * Quiet hours and device-local days
+ *
+ * Devices can pick a local window (e.g. 22:00-07:00) during which pushes
+ * are held back, the daily notification cap resets at local midnight, and
+ * digests (and alerts held back by the cap) go out at a local hour.
+ * Hours are stored in the device's own timezone, so the checks here
+ * convert "now" into that timezone first.
+ */
+
+import { PushToken } from "./types";
+
+const HOUR_MS = 60 * 60 * 1000;
+// Local hour for digests when a device hasn't picked one
+const DEFAULT_DIGEST_HOUR = 9;
+
+/**
+ * Local date and time of day in a timezone
+ */
+function localTime(
+  date: Date,
+  timezone: string
+): { day: string; weekday: string; hour: number; minute: number; second: number } {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone: timezone,
+    weekday: "short",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "numeric",
+    minute: "numeric",
+    second: "numeric",
+    hourCycle: "h23",
+  }).formatToParts(date);
+
+  const get = (type: string) => parts.find((p) => p.type === type)?.value ?? "0";
+  return {
+    day: `${get("year")}-${get("month")}-${get("day")}`,
+    weekday: get("weekday"),
+    hour: Number(get("hour")),
+    minute: Number(get("minute")),
+    second: Number(get("second")),
+  };
+}
+
+/**
+ * Whether a device has a usable quiet hours window
+ */
+function hasQuietHours(tokenData: PushToken): boolean {
+  const { quietHoursStart: start, quietHoursEnd: end } = tokenData;
+  return typeof start === "number" && typeof end === "number" && start !== end;
+}
+
+/**
+ * Whether a local hour falls inside a start-end window (may wrap midnight)
+ */
+export function isHourInWindow(hour: number, start: number, end: number): boolean {
+  return start < end
+    ? hour >= start && hour < end
+    : hour >= start || hour < end;
+}
+
+/**
+ * When the device's current quiet hours window ends
+ * @returns The end of the window, or null if the device isn't in quiet hours
+ */
+export function getQuietHoursEnd(tokenData: PushToken, now: Date = new Date()): Date | null {
+  if (!hasQuietHours(tokenData)) return null;
+
+  const start = tokenData.quietHoursStart as number;
+  const end = tokenData.quietHoursEnd as number;
+  const { hour, minute, second } = localTime(now, tokenData.timezone || "UTC");
+
+  if (!isHourInWindow(hour, start, end)) return null;
+
+  const hoursLeft = (end - hour + 24) % 24;
+  const msIntoHour = (minute * 60 + second) * 1000;
+  return new Date(now.getTime() + hoursLeft * HOUR_MS - msIntoHour);
+}
+
+/**
+ * The device's current local date as YYYY-MM-DD
+ */
+export function getLocalDay(tokenData: PushToken, now: Date = new Date()): string {
+  return localTime(now, tokenData.timezone || "UTC").day;
+}
+
+/**
+ * The start of the device's next local day
+ */
+export function getNextLocalMidnight(tokenData: PushToken, now: Date = new Date()): Date {
+  const { hour, minute, second } = localTime(now, tokenData.timezone || "UTC");
+  const msIntoDay = ((hour * 60 + minute) * 60 + second) * 1000;
+  return new Date(now.getTime() + 24 * HOUR_MS - msIntoDay);
+}
+
+/**
+ * The local hour the device's digests go out at
+ */
+export function getDigestHour(tokenData: PushToken): number {
+  return tokenData.digestHour ?? DEFAULT_DIGEST_HOUR;
+}
+
+/**
+ * The device's digest hour on its next local day
+ */
+export function getNextDayDigestTime(tokenData: PushToken, now: Date = new Date()): Date {
+  return new Date(getNextLocalMidnight(tokenData, now).getTime() + getDigestHour(tokenData) * HOUR_MS);
+}
+
+/**
+ * The device's current local hour and short weekday name ("Mon", "Sun", ...)
+ */
+export function getLocalHour(tokenData: PushToken, now: Date = new Date()): { hour: number; weekday: string } {
+  const { hour, weekday } = localTime(now, tokenData.timezone || "UTC");
+  return { hour, weekday };
+}
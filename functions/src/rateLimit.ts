@@ -0,0 +1,125 @@
+/**
+ * Distributed rate limiting for the HTTP functions
+ *
+ * Counters live in Firestore so every function instance shares them and
+ * they survive cold starts. Each endpoint has its own quotas, counted per
+ * client IP and, once the request names one, per push token. Counters use
+ * fixed windows updated in a transaction; a request over quota gets the
+ * seconds until its window resets, for a Retry-After header.
+ * Counter docs carry an expiresAt field for a Firestore TTL policy.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { createHash } from "crypto";
+import { db } from "./db";
+
+const RATE_LIMITS_COLLECTION = "rate_limits";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Endpoints with their own quotas
+ */
+export type RateLimitedEndpoint =
+  | "registerPushToken"
+  | "updateNotificationPreferences"
+  | "unregisterPushToken"
+  | "sendTestNotification";
+
+/**
+ * What a counter is keyed on
+ */
+export type RateLimitScope = "ip" | "token";
+
+interface Quota {
+  /** Requests allowed per window */
+  limit: number;
+  windowMs: number;
+}
+
+const QUOTAS: Record<RateLimitedEndpoint, Record<RateLimitScope, Quota>> = {
+  registerPushToken: {
+    ip: { limit: 30, windowMs: MINUTE_MS },
+    token: { limit: 10, windowMs: MINUTE_MS },
+  },
+  updateNotificationPreferences: {
+    ip: { limit: 30, windowMs: MINUTE_MS },
+    token: { limit: 20, windowMs: MINUTE_MS },
+  },
+  unregisterPushToken: {
+    ip: { limit: 30, windowMs: MINUTE_MS },
+    token: { limit: 5, windowMs: MINUTE_MS },
+  },
+  // Each test sends a real push, so keep these tight
+  sendTestNotification: {
+    ip: { limit: 5, windowMs: MINUTE_MS },
+    token: { limit: 3, windowMs: 60 * MINUTE_MS },
+  },
+};
+
+/**
+ * A fixed-window counter doc
+ */
+interface RateLimitCounter {
+  count: number;
+  windowStart: number;
+  expiresAt: admin.firestore.Timestamp;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  /** Seconds until the window resets (0 when allowed) */
+  retryAfterSeconds: number;
+}
+
+/**
+ * Counter doc ID; IPs and tokens are hashed so neither ends up in a doc ID
+ */
+function counterId(endpoint: RateLimitedEndpoint, scope: RateLimitScope, value: string): string {
+  const hash = createHash("sha256").update(value).digest("hex").slice(0, 32);
+  return `${endpoint}_${scope}_${hash}`;
+}
+
+/**
+ * Count a request against an endpoint's quota for an IP or token
+ * Fails open if Firestore is unavailable, so an outage there doesn't take
+ * the endpoints down with it.
+ */
+export async function checkRateLimit(
+  endpoint: RateLimitedEndpoint,
+  scope: RateLimitScope,
+  value: string
+): Promise<RateLimitResult> {
+  const { limit, windowMs } = QUOTAS[endpoint][scope];
+  const ref = db.collection(RATE_LIMITS_COLLECTION).doc(counterId(endpoint, scope, value));
+
+  try {
+    return await db.runTransaction(async (transaction) => {
+      const now = Date.now();
+      const doc = await transaction.get(ref);
+      const counter = doc.data() as RateLimitCounter | undefined;
+
+      if (!counter || now >= counter.windowStart + windowMs) {
+        const fresh: RateLimitCounter = {
+          count: 1,
+          windowStart: now,
+          expiresAt: admin.firestore.Timestamp.fromMillis(now + windowMs),
+        };
+        transaction.set(ref, fresh);
+        return { allowed: true, retryAfterSeconds: 0 };
+      }
+
+      if (counter.count >= limit) {
+        const retryAfterMs = counter.windowStart + windowMs - now;
+        return { allowed: false, retryAfterSeconds: Math.max(1, Math.ceil(retryAfterMs / 1000)) };
+      }
+
+      transaction.update(ref, { count: counter.count + 1 });
+      return { allowed: true, retryAfterSeconds: 0 };
+    });
+  } catch (error) {
+    logger.warn(`Rate limit check failed for ${endpoint}:`, error);
+    return { allowed: true, retryAfterSeconds: 0 };
+  }
+}
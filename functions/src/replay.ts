@@ -0,0 +1,300 @@
+/**
+ * Deal replay
+ *
+ * Rebuilds the deals collection from stored prices under the current deal
+ * rules (MSRP verification, minimum discount, deal score), for when those
+ * rules change and existing deals would otherwise stay wrong until prices
+ * move. A replay walks prices in ID order, then sweeps deals whose price is
+ * gone, then optionally re-runs history compaction under the current
+ * retention rules. Rollups can't be rebuilt from raw points that were
+ * already compacted away, so that phase only catches history up. Every set
+ * a replay touches gets its offers rebuilt (see setOffers.ts).
+ *
+ * Progress is checkpointed in replay_runs after every page, and
+ * replay_runs/_active points at the latest run so only one runs at a time.
+ * Each task invocation works until its time budget runs out and then
+ * enqueues the next one. Replays never send notifications.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { getFunctions } from "firebase-admin/functions";
+import { db, commitWrites, WriteOp } from "./db";
+import { DealData, LegoSet, PriceData, ReplayChange, ReplayRun } from "./types";
+import { buildDeal } from "./pricePipeline";
+import { loadDealScoreInputs } from "./dealScore";
+import { refreshSetOffers } from "./setOffers";
+import { compactPriceHistory } from "./priceHistory";
+import { describeError } from "./jobRuns";
+
+const RUNS_COLLECTION = "replay_runs";
+// Latest run's ID; claimed in a transaction so two starts can't both go ahead
+const ACTIVE_DOC = db.collection(RUNS_COLLECTION).doc("_active");
+// Task queue function that continues replays (see replayDealsStep in index.ts)
+const STEP_QUEUE = "replayDealsStep";
+
+// Tries per replay step before the run is marked failed; matches the queue's retryConfig
+export const REPLAY_MAX_ATTEMPTS = 3;
+
+// Prices (or deals) handled per page
+const PAGE_SIZE = 300;
+// Changes kept on the run record
+const MAX_CHANGES = 500;
+// Least time worth starting a compaction pass with; it would find nothing with less
+const MIN_COMPACTION_BUDGET_MS = 30 * 1000;
+
+/**
+ * Start a replay, unless one is already running
+ * @returns The new run's ID, or null if a replay is in progress
+ */
+export async function startReplay(compactHistory: boolean): Promise<string | null> {
+  const now = admin.firestore.Timestamp.now();
+  const run: ReplayRun = {
+    status: "running",
+    phase: "deals",
+    compactHistory,
+    cursor: null,
+    invocations: 0,
+    startedAt: now,
+    updatedAt: now,
+    pricesScanned: 0,
+    dealsCreated: 0,
+    dealsUpdated: 0,
+    dealsRemoved: 0,
+    dealsUnchanged: 0,
+    historyPointsCompacted: 0,
+    dailyRollupsCompacted: 0,
+    changes: [],
+  };
+
+  const ref = db.collection(RUNS_COLLECTION).doc();
+  const started = await db.runTransaction(async (transaction) => {
+    const active = await transaction.get(ACTIVE_DOC);
+    const activeId = active.exists ? (active.data() as { runId: string }).runId : null;
+    if (activeId) {
+      const activeRun = await transaction.get(db.collection(RUNS_COLLECTION).doc(activeId));
+      if (activeRun.exists && (activeRun.data() as ReplayRun).status === "running") return false;
+    }
+
+    transaction.set(ref, run);
+    transaction.set(ACTIVE_DOC, { runId: ref.id });
+    return true;
+  });
+  if (!started) return null;
+
+  try {
+    await enqueueReplayStep(ref.id, 0);
+  } catch (error) {
+    // Don't leave a run nothing will continue holding the lock
+    await failReplay(ref.id, describeError(error));
+    throw error;
+  }
+
+  logger.info(`Started deal replay ${ref.id}${compactHistory ? " with history compaction" : ""}`);
+  return ref.id;
+}
+
+/**
+ * Queue the next step of a replay
+ */
+async function enqueueReplayStep(runId: string, step: number): Promise<void> {
+  await getFunctions().taskQueue<{ runId: string }>(STEP_QUEUE).enqueue(
+    { runId },
+    { id: `${runId}-${step}` }
+  );
+}
+
+/**
+ * A replay's record
+ * @returns null if there's no such run
+ */
+export async function getReplayRun(runId: string): Promise<ReplayRun | null> {
+  const doc = await db.collection(RUNS_COLLECTION).doc(runId).get();
+  return doc.exists ? doc.data() as ReplayRun : null;
+}
+
+/**
+ * Mark a replay failed, e.g. once a step used up its retries
+ */
+export async function failReplay(runId: string, error: string): Promise<void> {
+  await db.collection(RUNS_COLLECTION).doc(runId).update({
+    status: "failed",
+    error,
+    updatedAt: admin.firestore.Timestamp.now(),
+  });
+}
+
+/**
+ * Whether a rebuilt deal differs from the stored one
+ */
+function isDealChanged(existing: DealData, next: DealData): boolean {
+  return existing.percentOff !== next.percentOff ||
+    existing.currentPrice !== next.currentPrice ||
+    existing.originalPrice !== next.originalPrice ||
+    existing.inStock !== next.inStock ||
+    existing.dealScore !== next.dealScore;
+}
+
+/**
+ * Rebuild the deals for one page of prices
+ * @returns The ID of the last price handled, or null once prices run out
+ */
+async function replayDealsPage(run: ReplayRun): Promise<string | null> {
+  let query = db.collection("prices")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(PAGE_SIZE);
+  if (run.cursor) query = query.startAfter(run.cursor);
+
+  const snapshot = await query.get();
+  if (snapshot.empty) return null;
+
+  const prices = snapshot.docs.map((doc) => doc.data() as PriceData);
+  const setNumbers = [...new Set(prices.map((price) => price.setNumber))];
+  const [setDocs, dealDocs, scoring] = await Promise.all([
+    db.getAll(...setNumbers.map((setNumber) => db.collection("lego_catalog").doc(setNumber))),
+    db.getAll(...snapshot.docs.map((doc) => db.collection("deals").doc(doc.id))),
+    loadDealScoreInputs(setNumbers),
+  ]);
+  const sets = new Map(setDocs
+    .filter((doc) => doc.exists)
+    .map((doc) => [doc.id, doc.data() as LegoSet]));
+
+  const writes: WriteOp[] = [];
+
+  prices.forEach((price, index) => {
+    const dealDoc = dealDocs[index];
+    const existing = dealDoc.exists ? dealDoc.data() as DealData : undefined;
+    const set = sets.get(price.setNumber);
+    const deal = set ? buildDeal(set, price, scoring) : null;
+    let change: ReplayChange["change"] | null = null;
+
+    if (deal && !existing) {
+      writes.push((batch) => batch.set(dealDoc.ref, deal));
+      change = "created";
+      run.dealsCreated++;
+    } else if (deal && existing && isDealChanged(existing, deal)) {
+      writes.push((batch) => batch.set(dealDoc.ref, deal));
+      change = "updated";
+      run.dealsUpdated++;
+    } else if (!deal && existing) {
+      writes.push((batch) => batch.delete(dealDoc.ref));
+      change = "removed";
+      run.dealsRemoved++;
+    } else if (deal) {
+      run.dealsUnchanged++;
+    }
+
+    if (change && run.changes.length < MAX_CHANGES) {
+      run.changes.push({
+        setNumber: price.setNumber,
+        retailer: price.retailer,
+        change,
+        fromPercentOff: existing?.percentOff ?? null,
+        percentOff: deal?.percentOff ?? null,
+      });
+    }
+  });
+
+  await commitWrites(writes);
+  await refreshSetOffers(setNumbers);
+  run.pricesScanned += prices.length;
+  return snapshot.docs[snapshot.docs.length - 1].id;
+}
+
+/**
+ * Remove one page's deals whose price doc no longer exists
+ * @returns The ID of the last deal checked, or null once deals run out
+ */
+async function sweepOrphanedDealsPage(run: ReplayRun): Promise<string | null> {
+  let query = db.collection("deals")
+    .orderBy(admin.firestore.FieldPath.documentId())
+    .limit(PAGE_SIZE);
+  if (run.cursor) query = query.startAfter(run.cursor);
+
+  const snapshot = await query.get();
+  if (snapshot.empty) return null;
+
+  const priceDocs = await db.getAll(
+    ...snapshot.docs.map((doc) => db.collection("prices").doc(doc.id))
+  );
+  const orphans = snapshot.docs.filter((_, index) => !priceDocs[index].exists);
+
+  await commitWrites(orphans.map((doc) => (batch) => batch.delete(doc.ref)));
+  await refreshSetOffers(orphans.map((doc) => (doc.data() as DealData).setNumber));
+  for (const doc of orphans) {
+    const deal = doc.data() as DealData;
+    run.dealsRemoved++;
+    if (run.changes.length < MAX_CHANGES) {
+      run.changes.push({
+        setNumber: deal.setNumber,
+        retailer: deal.retailer,
+        change: "removed",
+        fromPercentOff: deal.percentOff,
+        percentOff: null,
+      });
+    }
+  }
+
+  return snapshot.docs[snapshot.docs.length - 1].id;
+}
+
+/**
+ * Move a run on to its next phase, completing it after the last one
+ */
+function nextPhase(run: ReplayRun): void {
+  run.cursor = null;
+  if (run.phase === "deals") {
+    run.phase = "orphans";
+  } else if (run.phase === "orphans" && run.compactHistory) {
+    run.phase = "history";
+  } else {
+    run.phase = "done";
+    run.status = "complete";
+    run.completedAt = admin.firestore.Timestamp.now();
+  }
+}
+
+/**
+ * Continue a replay from its checkpoint until it finishes or time runs out,
+ * then queue the next step if there's more to do
+ * @param budgetMs - Time to spend before stopping at a page boundary
+ */
+export async function continueReplay(runId: string, budgetMs: number): Promise<void> {
+  const deadline = Date.now() + budgetMs;
+  const ref = db.collection(RUNS_COLLECTION).doc(runId);
+  const snapshot = await ref.get();
+  if (!snapshot.exists) return;
+
+  const run = snapshot.data() as ReplayRun;
+  if (run.status !== "running") return;
+  run.invocations++;
+
+  while (run.status === "running" && Date.now() < deadline) {
+    if (run.phase === "history") {
+      if (deadline - Date.now() < MIN_COMPACTION_BUDGET_MS) break;
+      const { points, dailies } = await compactPriceHistory(deadline - Date.now());
+      run.historyPointsCompacted += points;
+      run.dailyRollupsCompacted += dailies;
+      // Compaction stops at the deadline; a pass that found nothing means it's caught up
+      if (points + dailies === 0) nextPhase(run);
+    } else {
+      const last = run.phase === "deals" ? await replayDealsPage(run) : await sweepOrphanedDealsPage(run);
+      if (last) run.cursor = last;
+      else nextPhase(run);
+    }
+
+    run.updatedAt = admin.firestore.Timestamp.now();
+    await ref.set(run);
+  }
+
+  if (run.phase === "done") {
+    logger.info(
+      `Deal replay ${runId} complete: ${run.dealsCreated} created, ${run.dealsUpdated} updated, ` +
+      `${run.dealsRemoved} removed, ${run.dealsUnchanged} unchanged`
+    );
+    return;
+  }
+
+  logger.info(`Deal replay ${runId} paused in ${run.phase} phase after ${run.pricesScanned} prices`);
+  await enqueueReplayStep(runId, run.invocations);
+}
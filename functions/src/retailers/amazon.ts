@@ -0,0 +1,58 @@
+/**
+ * Amazon adapter
+ *
+ * Parses the search results page: each result is a
+ * data-component-type="s-search-result" block with the title in an <h2>,
+ * the selling price in the first .a-price and the list price in .a-text-price.
+ */
+
+import { sanitizeSetNumber } from "../validation";
+import { RetailerPriceAdapter } from "./types";
+import { decodeHtmlEntities, mentionsSetNumber, parsePrice } from "./parsing";
+
+const RESULT_MARKER = /<div[^>]+data-component-type="s-search-result"/g;
+const TITLE_PATTERN = /<h2[^>]*>[\s\S]*?<span[^>]*>([^<]+)<\/span>/;
+const PRICE_PATTERN = /<span class="a-price"[^>]*>\s*<span class="a-offscreen">([^<]+)<\/span>/;
+const LIST_PRICE_PATTERN = /<span class="a-price a-text-price"[^>]*>\s*<span class="a-offscreen">([^<]+)<\/span>/;
+const ASIN_PATTERN = /data-asin="([A-Z0-9]{10})"/;
+
+/**
+ * Split a search page into one HTML chunk per result
+ */
+function splitResults(html: string): string[] {
+  const starts = [...html.matchAll(RESULT_MARKER)].map((match) => match.index ?? 0);
+  return starts.map((start, i) => html.slice(start, starts[i + 1] ?? html.length));
+}
+
+export const amazonAdapter: RetailerPriceAdapter = {
+  id: "amazon",
+  domain: "amazon.com",
+
+  buildRequestUrl(set) {
+    const cleanSetNum = sanitizeSetNumber(set.setNumber);
+    return cleanSetNum ? `https://www.amazon.com/s?k=LEGO+${cleanSetNum}` : "";
+  },
+
+  parse(body, set) {
+    for (const result of splitResults(body)) {
+      const title = decodeHtmlEntities(result.match(TITLE_PATTERN)?.[1] ?? "");
+      if (!/lego/i.test(title) || !mentionsSetNumber(title, set)) continue;
+
+      const currentPrice = parsePrice(result.match(PRICE_PATTERN)?.[1]);
+      if (currentPrice === null) continue;
+
+      const listPrice = parsePrice(result.match(LIST_PRICE_PATTERN)?.[1]);
+      const asin = result.match(ASIN_PATTERN)?.[1];
+
+      return {
+        currentPrice,
+        originalPrice: listPrice !== null && listPrice > currentPrice ? listPrice : undefined,
+        // Search results only show a price when there is a buyable offer
+        inStock: true,
+        url: asin ? `https://www.amazon.com/dp/${asin}` : undefined,
+      };
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,48 @@
+/**
+ * Best Buy adapter
+ *
+ * Uses the official Best Buy Products API. Requires BEST_BUY_API_KEY.
+ */
+
+import { sanitizeSetNumber } from "../validation";
+import { RetailerPriceAdapter } from "./types";
+import { mentionsSetNumber, parseJson, parsePrice } from "./parsing";
+
+const BEST_BUY_API_KEY = process.env.BEST_BUY_API_KEY || "";
+
+export const bestBuyAdapter: RetailerPriceAdapter = {
+  id: "best_buy",
+  domain: "bestbuy.com",
+  headers: { "Accept": "application/json" },
+
+  buildRequestUrl(set) {
+    const cleanSetNum = sanitizeSetNumber(set.setNumber);
+    if (!cleanSetNum || !BEST_BUY_API_KEY) return "";
+
+    return `https://api.bestbuy.com/v1/products((search=LEGO&search=${cleanSetNum}))` +
+      `?apiKey=${encodeURIComponent(BEST_BUY_API_KEY)}&format=json` +
+      "&show=sku,name,salePrice,regularPrice,onlineAvailability,url&pageSize=10";
+  },
+
+  parse(body, set) {
+    const products = parseJson(body)?.products;
+    if (!Array.isArray(products)) return null;
+
+    const product = products.find((candidate: any) =>
+      /lego/i.test(candidate?.name ?? "") && mentionsSetNumber(candidate.name, set)
+    );
+    if (!product) return null;
+
+    const currentPrice = parsePrice(product.salePrice);
+    if (currentPrice === null) return null;
+
+    const regularPrice = parsePrice(product.regularPrice);
+
+    return {
+      currentPrice,
+      originalPrice: regularPrice !== null && regularPrice > currentPrice ? regularPrice : undefined,
+      inStock: product.onlineAvailability === true,
+      url: typeof product.url === "string" ? product.url : undefined,
+    };
+  },
+};
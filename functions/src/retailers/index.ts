@@ -0,0 +1,46 @@
+/**
+ * Retailer price adapters
+ *
+ * Registers one adapter per supported retailer. To add a retailer, write an
+ * adapter (see types.ts) and register it here.
+ */
+
+import { registerAdapter } from "./registry";
+import { legoAdapter } from "./lego";
+import { amazonAdapter } from "./amazon";
+import { walmartAdapter } from "./walmart";
+import { targetAdapter } from "./target";
+import { bestBuyAdapter } from "./bestBuy";
+import {
+  kohlsAdapter,
+  gamestopAdapter,
+  shopDisneyAdapter,
+  macysAdapter,
+  barnesNobleAdapter,
+  samsClubAdapter,
+  walgreensAdapter,
+} from "./jsonLdRetailers";
+
+[
+  legoAdapter,
+  amazonAdapter,
+  walmartAdapter,
+  targetAdapter,
+  bestBuyAdapter,
+  kohlsAdapter,
+  gamestopAdapter,
+  shopDisneyAdapter,
+  macysAdapter,
+  barnesNobleAdapter,
+  samsClubAdapter,
+  walgreensAdapter,
+].forEach(registerAdapter);
+
+export {
+  registerAdapter,
+  getAdapter,
+  getRegisteredRetailers,
+  fetchRetailerPrice,
+  fetchRetailerQuote,
+} from "./registry";
+export type { RetailerPriceAdapter, RetailerQuote } from "./types";
@@ -0,0 +1,74 @@
+/**
+ * Generic adapter for retailers that publish schema.org Product JSON-LD
+ */
+
+import { LegoSet, RetailerId } from "../types";
+import { RetailerPriceAdapter, RetailerQuote } from "./types";
+import {
+  absoluteUrl,
+  extractJsonLdProducts,
+  isInStockAvailability,
+  mentionsSetNumber,
+  parsePrice,
+} from "./parsing";
+
+interface JsonLdAdapterConfig {
+  id: RetailerId;
+  domain: string;
+  buildRequestUrl: (set: LegoSet) => string;
+}
+
+/**
+ * Read a quote out of a single JSON-LD Product node
+ */
+export function quoteFromJsonLdProduct(product: any, origin: string): RetailerQuote | null {
+  const offers = Array.isArray(product.offers) ? product.offers : [product.offers];
+
+  for (const offer of offers) {
+    if (!offer) continue;
+
+    const currentPrice = parsePrice(offer.price ?? offer.lowPrice);
+    if (currentPrice === null) continue;
+
+    // Strikethrough prices are published as a price specification
+    const specs = Array.isArray(offer.priceSpecification)
+      ? offer.priceSpecification
+      : [offer.priceSpecification];
+    const listSpec = specs.find((spec: any) =>
+      typeof spec?.priceType === "string" && /ListPrice|StrikethroughPrice/i.test(spec.priceType)
+    );
+    const listPrice = parsePrice(listSpec?.price);
+
+    return {
+      currentPrice,
+      originalPrice: listPrice !== null && listPrice > currentPrice ? listPrice : undefined,
+      inStock: isInStockAvailability(offer.availability),
+      url: absoluteUrl(offer.url ?? product.url, origin),
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Build an adapter that prices a set from the JSON-LD on a retailer page
+ */
+export function createJsonLdAdapter(config: JsonLdAdapterConfig): RetailerPriceAdapter {
+  const origin = `https://www.${config.domain}`;
+
+  return {
+    id: config.id,
+    domain: config.domain,
+    buildRequestUrl: config.buildRequestUrl,
+    parse(body, set) {
+      const product = extractJsonLdProducts(body).find((candidate) =>
+        mentionsSetNumber(candidate.name, set) ||
+        mentionsSetNumber(candidate.sku, set) ||
+        mentionsSetNumber(candidate.mpn, set) ||
+        mentionsSetNumber(candidate.productID, set)
+      );
+
+      return product ? quoteFromJsonLdProduct(product, origin) : null;
+    },
+  };
+}
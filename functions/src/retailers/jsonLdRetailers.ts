@@ -0,0 +1,61 @@
+/**
+ * Retailers whose search pages embed schema.org Product JSON-LD
+ *
+ * These share the generic JSON-LD parser and only differ in where to search.
+ */
+
+import { sanitizeSetNumber } from "../validation";
+import { LegoSet } from "../types";
+import { createJsonLdAdapter } from "./jsonLd";
+
+/**
+ * Build a search URL builder for a "LEGO <number>" query
+ */
+function searchUrl(template: (cleanSetNum: string) => string): (set: LegoSet) => string {
+  return (set) => {
+    const cleanSetNum = sanitizeSetNumber(set.setNumber);
+    return cleanSetNum ? template(cleanSetNum) : "";
+  };
+}
+
+export const kohlsAdapter = createJsonLdAdapter({
+  id: "kohls",
+  domain: "kohls.com",
+  buildRequestUrl: searchUrl((num) => `https://www.kohls.com/search.jsp?search=LEGO+${num}`),
+});
+
+export const gamestopAdapter = createJsonLdAdapter({
+  id: "gamestop",
+  domain: "gamestop.com",
+  buildRequestUrl: searchUrl((num) => `https://www.gamestop.com/search/?q=LEGO+${num}`),
+});
+
+export const shopDisneyAdapter = createJsonLdAdapter({
+  id: "shop_disney",
+  domain: "shopdisney.com",
+  buildRequestUrl: searchUrl((num) => `https://www.shopdisney.com/search?q=LEGO+${num}`),
+});
+
+export const macysAdapter = createJsonLdAdapter({
+  id: "macys",
+  domain: "macys.com",
+  buildRequestUrl: searchUrl((num) => `https://www.macys.com/shop/featured/lego+${num}`),
+});
+
+export const barnesNobleAdapter = createJsonLdAdapter({
+  id: "barnes_noble",
+  domain: "barnesandnoble.com",
+  buildRequestUrl: searchUrl((num) => `https://www.barnesandnoble.com/s/LEGO+${num}`),
+});
+
+export const samsClubAdapter = createJsonLdAdapter({
+  id: "sams_club",
+  domain: "samsclub.com",
+  buildRequestUrl: searchUrl((num) => `https://www.samsclub.com/s/LEGO+${num}`),
+});
+
+export const walgreensAdapter = createJsonLdAdapter({
+  id: "walgreens",
+  domain: "walgreens.com",
+  buildRequestUrl: searchUrl((num) => `https://www.walgreens.com/search/results.jsp?Ntt=LEGO+${num}`),
+});
@@ -0,0 +1,32 @@
+/**
+ * LEGO.com adapter
+ *
+ * Product pages live at a predictable URL and carry a single JSON-LD
+ * Product node for the set, so no title matching is needed.
+ */
+
+import { sanitizeSetNumber } from "../validation";
+import { RetailerPriceAdapter } from "./types";
+import { extractJsonLdProducts, mentionsSetNumber } from "./parsing";
+import { quoteFromJsonLdProduct } from "./jsonLd";
+
+export const legoAdapter: RetailerPriceAdapter = {
+  id: "lego",
+  domain: "lego.com",
+
+  buildRequestUrl(set) {
+    const cleanSetNum = sanitizeSetNumber(set.setNumber);
+    return cleanSetNum ? `https://www.lego.com/en-us/product/${cleanSetNum}` : "";
+  },
+
+  parse(body, set) {
+    const products = extractJsonLdProducts(body);
+
+    // Prefer the node that names the set; fall back to the page's only product
+    const product = products.find((candidate) =>
+      mentionsSetNumber(candidate.sku, set) || mentionsSetNumber(candidate.productID, set)
+    ) ?? (products.length === 1 ? products[0] : undefined);
+
+    return product ? quoteFromJsonLdProduct(product, "https://www.lego.com") : null;
+  },
+};
@@ -0,0 +1,131 @@
+/**
+ * Parsing helpers shared by the retailer adapters
+ */
+
+import { LegoSet } from "../types";
+import { sanitizeSetNumber } from "../validation";
+
+const JSON_LD_PATTERN = /<script[^>]*type=["']application\/ld\+json["'][^>]*>([\s\S]*?)<\/script>/gi;
+const NEXT_DATA_PATTERN = /<script[^>]*id=["']__NEXT_DATA__["'][^>]*>([\s\S]*?)<\/script>/i;
+
+/**
+ * Parse a price from a number or a string like "$1,049.99"
+ */
+export function parsePrice(value: unknown): number | null {
+  if (typeof value === "number") {
+    return Number.isFinite(value) && value > 0 ? Math.round(value * 100) / 100 : null;
+  }
+  if (typeof value !== "string") return null;
+
+  const match = value.replace(/,/g, "").match(/\d+(\.\d+)?/);
+  if (!match) return null;
+
+  const price = parseFloat(match[0]);
+  return price > 0 ? Math.round(price * 100) / 100 : null;
+}
+
+/**
+ * Decode the handful of HTML entities that show up in product titles
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text
+    .replace(/&amp;/g, "&")
+    .replace(/&quot;/g, "\"")
+    .replace(/&#39;|&#x27;|&apos;/g, "'")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ");
+}
+
+/**
+ * Check that a product title or SKU refers to this exact set
+ * ("75192" must not match "751920" or "175192")
+ */
+export function mentionsSetNumber(text: string | undefined, set: LegoSet): boolean {
+  const number = sanitizeSetNumber(set.setNumber);
+  if (!text || !number) return false;
+  return new RegExp(`(^|\\D)${number}(\\D|$)`).test(text);
+}
+
+/**
+ * Map a schema.org / retailer availability value to in-stock
+ * Negative values are checked first: "NOT_AVAILABLE" and "Unavailable"
+ * contain "available" too.
+ */
+export function isInStockAvailability(availability: unknown): boolean {
+  if (typeof availability !== "string") return false;
+  if (/OutOfStock|OUT_OF_STOCK|SoldOut|Discontinued|unavailable|not[\s_-]*available/i.test(availability)) {
+    return false;
+  }
+  return /InStock|IN_STOCK|LimitedAvailability|OnlineOnly|available/i.test(availability);
+}
+
+/**
+ * Collect every schema.org Product object embedded as JSON-LD
+ */
+export function extractJsonLdProducts(html: string): any[] {
+  const products: any[] = [];
+
+  const visit = (node: any): void => {
+    if (!node || typeof node !== "object") return;
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+      return;
+    }
+
+    const type = node["@type"];
+    if (type === "Product" || (Array.isArray(type) && type.includes("Product"))) {
+      products.push(node);
+    }
+    if (node["@graph"]) visit(node["@graph"]);
+    if (node.itemListElement) visit(node.itemListElement);
+    if (node.item) visit(node.item);
+  };
+
+  for (const match of html.matchAll(JSON_LD_PATTERN)) {
+    try {
+      visit(JSON.parse(match[1].trim()));
+    } catch {
+      // Retailers occasionally ship malformed JSON-LD blocks - skip them
+    }
+  }
+
+  return products;
+}
+
+/**
+ * Extract the Next.js page data blob some retailers render into the page
+ */
+export function extractNextData(html: string): any | null {
+  const match = html.match(NEXT_DATA_PATTERN);
+  if (!match) return null;
+
+  try {
+    return JSON.parse(match[1]);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Parse a JSON API body, returning null instead of throwing
+ */
+export function parseJson(body: string): any | null {
+  try {
+    return JSON.parse(body);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Resolve a possibly-relative product link against a retailer origin
+ */
+export function absoluteUrl(href: string | undefined, origin: string): string | undefined {
+  if (!href) return undefined;
+  try {
+    return new URL(decodeHtmlEntities(href), origin).toString();
+  } catch {
+    return undefined;
+  }
+}
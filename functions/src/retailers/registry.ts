@@ -0,0 +1,155 @@
+/**
+ * Retailer adapter registry
+ *
+ * The price jobs go through here instead of talking to retailers directly:
+ * look up the adapter, fetch its payload, and turn the parsed quote into
+ * the PriceData shape stored in Firestore.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { LegoSet, PriceData, RetailerId } from "../types";
+import { RetailerPriceAdapter, RetailerQuote } from "./types";
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+const DEFAULT_HEADERS: Record<string, string> = {
+  "User-Agent": "Mozilla/5.0 (compatible; BrickDealHunter/1.0; +https://brickdealhunter.com)",
+  "Accept": "text/html,application/xhtml+xml,application/json;q=0.9,*/*;q=0.8",
+  "Accept-Language": "en-US,en;q=0.9",
+};
+
+const adapters = new Map<RetailerId, RetailerPriceAdapter>();
+
+/**
+ * Register (or replace) the adapter for a retailer
+ */
+export function registerAdapter(adapter: RetailerPriceAdapter): void {
+  adapters.set(adapter.id, adapter);
+}
+
+/**
+ * Get the adapter for a retailer, if one is registered
+ */
+export function getAdapter(retailer: string): RetailerPriceAdapter | undefined {
+  return adapters.get(retailer as RetailerId);
+}
+
+/**
+ * All retailers that currently have an adapter
+ */
+export function getRegisteredRetailers(): RetailerId[] {
+  return [...adapters.keys()];
+}
+
+/**
+ * Check that a URL is https and belongs to the adapter's domain
+ */
+function isAllowedUrl(url: string, domain: string): boolean {
+  try {
+    const { protocol, hostname } = new URL(url);
+    return protocol === "https:" && (hostname === domain || hostname.endsWith(`.${domain}`));
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Combine a parsed quote with catalog data into a PriceData record
+ */
+export function toPriceData(
+  set: LegoSet,
+  adapter: RetailerPriceAdapter,
+  quote: RetailerQuote,
+  requestUrl: string
+): PriceData {
+  const productUrl = quote.url && isAllowedUrl(quote.url, adapter.domain)
+    ? quote.url
+    : requestUrl;
+
+  return {
+    setNumber: set.setNumber,
+    setName: set.name,
+    retailer: adapter.id,
+    currentPrice: quote.currentPrice,
+    // Without a retailer list price, fall back to the catalog MSRP; the
+    // price pipeline replaces this with a verified reference (listPrice.ts)
+    originalPrice: quote.originalPrice ?? set.msrp ?? set.price,
+    claimedOriginalPrice: quote.originalPrice ?? null,
+    url: productUrl,
+    inStock: quote.inStock,
+    lastUpdated: admin.firestore.Timestamp.now(),
+    imageUrl: set.imageUrl,
+    theme: set.theme,
+    themeId: set.themeId,
+    subTheme: set.subTheme,
+    subThemeId: set.subThemeId,
+    pieces: set.pieces,
+    availability: set.availability,
+    retirementDate: set.retirementDate ?? null,
+  };
+}
+
+/**
+ * Fetch and parse an adapter's payload for a set
+ */
+async function fetchQuote(
+  set: LegoSet,
+  adapter: RetailerPriceAdapter
+): Promise<{ quote: RetailerQuote; requestUrl: string } | null> {
+  const requestUrl = adapter.buildRequestUrl(set);
+  if (!requestUrl) return null;
+
+  if (!isAllowedUrl(requestUrl, adapter.domain)) {
+    logger.warn(`Refusing ${adapter.id} request outside ${adapter.domain}`);
+    return null;
+  }
+
+  try {
+    const response = await fetch(requestUrl, {
+      headers: { ...DEFAULT_HEADERS, ...adapter.headers },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+    });
+
+    if (!response.ok) {
+      logger.warn(`${adapter.id} returned ${response.status} for ${set.setNumber}`);
+      return null;
+    }
+
+    const quote = adapter.parse(await response.text(), set);
+    return quote ? { quote, requestUrl } : null;
+  } catch (error) {
+    logger.warn(`${adapter.id} price fetch failed for ${set.setNumber}:`, error);
+    return null;
+  }
+}
+
+/**
+ * Fetch the raw quote for a set at a retailer (no catalog fallbacks applied)
+ */
+export async function fetchRetailerQuote(
+  set: LegoSet,
+  retailer: string
+): Promise<RetailerQuote | null> {
+  const adapter = getAdapter(retailer);
+  if (!adapter) return null;
+
+  const result = await fetchQuote(set, adapter);
+  return result?.quote ?? null;
+}
+
+/**
+ * Fetch and parse the current price of a set at a retailer
+ * Returns null when there is no adapter, the request fails,
+ * or the retailer doesn't list the set.
+ */
+export async function fetchRetailerPrice(
+  set: LegoSet,
+  retailer: string
+): Promise<PriceData | null> {
+  const adapter = getAdapter(retailer);
+  if (!adapter) return null;
+
+  const result = await fetchQuote(set, adapter);
+  return result ? toPriceData(set, adapter, result.quote, result.requestUrl) : null;
+}
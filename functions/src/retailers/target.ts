@@ -0,0 +1,60 @@
+/**
+ * Target adapter
+ *
+ * Target's search page renders client-side, so this adapter queries the
+ * RedSky search API the site itself uses. Requires TARGET_REDSKY_KEY.
+ */
+
+import { sanitizeSetNumber } from "../validation";
+import { RetailerPriceAdapter } from "./types";
+import {
+  absoluteUrl,
+  decodeHtmlEntities,
+  isInStockAvailability,
+  mentionsSetNumber,
+  parseJson,
+  parsePrice,
+} from "./parsing";
+
+const TARGET_REDSKY_KEY = process.env.TARGET_REDSKY_KEY || "";
+
+export const targetAdapter: RetailerPriceAdapter = {
+  id: "target",
+  domain: "target.com",
+  headers: { "Accept": "application/json" },
+
+  buildRequestUrl(set) {
+    const cleanSetNum = sanitizeSetNumber(set.setNumber);
+    if (!cleanSetNum || !TARGET_REDSKY_KEY) return "";
+
+    return "https://redsky.target.com/redsky_aggregations/v1/web/plp_search_v2" +
+      `?key=${encodeURIComponent(TARGET_REDSKY_KEY)}&keyword=LEGO+${cleanSetNum}` +
+      "&channel=WEB&count=24&default_purchasability_filter=true&page=%2Fs%2FLEGO";
+  },
+
+  parse(body, set) {
+    const products = parseJson(body)?.data?.search?.products;
+    if (!Array.isArray(products)) return null;
+
+    for (const product of products) {
+      const title = decodeHtmlEntities(product?.item?.product_description?.title ?? "");
+      if (!/lego/i.test(title) || !mentionsSetNumber(title, set)) continue;
+
+      const currentPrice = parsePrice(product.price?.current_retail ?? product.price?.current_retail_min);
+      if (currentPrice === null) continue;
+
+      const regularPrice = parsePrice(product.price?.reg_retail ?? product.price?.reg_retail_max);
+      const availability = product.fulfillment?.shipping_options?.availability_status;
+
+      return {
+        currentPrice,
+        originalPrice: regularPrice !== null && regularPrice > currentPrice ? regularPrice : undefined,
+        // The search is filtered to purchasable items; trust it when fulfillment is omitted
+        inStock: availability === undefined ? true : isInStockAvailability(availability),
+        url: absoluteUrl(product.item?.enrichment?.buy_url, "https://www.target.com"),
+      };
+    }
+
+    return null;
+  },
+};
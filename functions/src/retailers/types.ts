@@ -0,0 +1,37 @@
+/**
+ * Retailer price adapter contract
+ *
+ * Each retailer gets one adapter that knows where to look a set up and how
+ * to read the price out of whatever comes back (HTML page or API JSON).
+ * Adapters never touch the network themselves - the registry does the
+ * fetching, so parsers can run offline against saved payloads.
+ */
+
+import { LegoSet, RetailerId } from "../types";
+
+/**
+ * Price information parsed from a single retailer payload
+ */
+export interface RetailerQuote {
+  /** Current selling price in USD */
+  currentPrice: number;
+  /** Retailer's list/"was" price, when the payload exposes one */
+  originalPrice?: number;
+  /** Whether the retailer can currently sell the set */
+  inStock: boolean;
+  /** Product page URL, when the payload points to one */
+  url?: string;
+}
+
+export interface RetailerPriceAdapter {
+  /** Retailer this adapter prices */
+  readonly id: RetailerId;
+  /** Domain every request and product URL must belong to */
+  readonly domain: string;
+  /** Extra headers for the request (API keys, Accept, ...) */
+  readonly headers?: Record<string, string>;
+  /** URL to request for a set, or "" if the set can't be looked up */
+  buildRequestUrl(set: LegoSet): string;
+  /** Parse a fetched payload, or return null if the set isn't listed */
+  parse(body: string, set: LegoSet): RetailerQuote | null;
+}
@@ -0,0 +1,54 @@
+/**
+ * Walmart adapter
+ *
+ * The search page is a Next.js app; results are read from __NEXT_DATA__
+ * under props.pageProps.initialData.searchResult.itemStacks[].items[].
+ */
+
+import { sanitizeSetNumber } from "../validation";
+import { RetailerPriceAdapter } from "./types";
+import {
+  absoluteUrl,
+  extractNextData,
+  isInStockAvailability,
+  mentionsSetNumber,
+  parsePrice,
+} from "./parsing";
+
+export const walmartAdapter: RetailerPriceAdapter = {
+  id: "walmart",
+  domain: "walmart.com",
+
+  buildRequestUrl(set) {
+    const cleanSetNum = sanitizeSetNumber(set.setNumber);
+    return cleanSetNum ? `https://www.walmart.com/search?q=LEGO+${cleanSetNum}` : "";
+  },
+
+  parse(body, set) {
+    const data = extractNextData(body);
+    const stacks = data?.props?.pageProps?.initialData?.searchResult?.itemStacks;
+    if (!Array.isArray(stacks)) return null;
+
+    for (const stack of stacks) {
+      for (const item of stack?.items ?? []) {
+        if (item?.__typename && item.__typename !== "Product") continue;
+        if (!/lego/i.test(item?.name ?? "") || !mentionsSetNumber(item.name, set)) continue;
+
+        const currentPrice = parsePrice(item.price ?? item.priceInfo?.linePrice);
+        if (currentPrice === null) continue;
+
+        const wasPrice = parsePrice(item.priceInfo?.wasPrice);
+        const availability = item.availabilityStatusV2?.value ?? item.availabilityStatus;
+
+        return {
+          currentPrice,
+          originalPrice: wasPrice !== null && wasPrice > currentPrice ? wasPrice : undefined,
+          inStock: isInStockAvailability(availability),
+          url: absoluteUrl(item.canonicalUrl, "https://www.walmart.com"),
+        };
+      }
+    }
+
+    return null;
+  },
+};
@@ -0,0 +1,235 @@
+/**
+ * Retirement tracking
+ *
+ * Expected retirement dates come from imported retirement lists (CSV/JSON,
+ * the same formats as MSRP datasets) and are stored on catalog entries
+ * with their source. Availability follows from them: a set moves to
+ * "retiring_soon" inside the retirement window and to "sold_out" once the
+ * date passes. A daily job re-checks the dates so those transitions happen
+ * on their own, and alerts opted-in watchers as a set starts retiring.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites, WriteOp } from "./db";
+import { LegoSet } from "./types";
+import { normalizeSetNumber, parseDatasetRows, pickField, SET_NUMBER_KEYS } from "./datasets";
+import { notifyRetiringWatchers } from "./notifications";
+
+// Sets are "retiring soon" this many days before their retirement date
+export const RETIRING_SOON_DAYS = 120;
+
+const DATE_KEYS = ["retirement_date", "retirementdate", "retires", "retiring", "expected_retirement", "date"];
+const SOURCE_KEYS = ["source"];
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const REQUEST_TIMEOUT_MS = 30000;
+// Catalog docs read per getAll call
+const READ_CHUNK_SIZE = 300;
+
+/**
+ * An expected retirement date from a retirement list
+ */
+export interface RetirementRecord {
+  setNumber: string;
+  /** YYYY-MM-DD */
+  retirementDate: string;
+  source: string;
+}
+
+/**
+ * Last day of a month as YYYY-MM-DD
+ * @param month - 1-12
+ */
+function lastDayOfMonth(year: number, month: number): string {
+  return new Date(Date.UTC(year, month, 0)).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a retirement date into YYYY-MM-DD
+ * Lists often only give a month or a year; those resolve to its last day.
+ */
+export function parseRetirementDate(value: unknown): string | null {
+  const text = String(value ?? "").trim();
+  if (!text) return null;
+
+  const yearOnly = text.match(/^(\d{4})$/);
+  if (yearOnly) return `${yearOnly[1]}-12-31`;
+
+  const yearMonth = text.match(/^(\d{4})-(\d{2})$/);
+  if (yearMonth) {
+    return lastDayOfMonth(Number(yearMonth[1]), Number(yearMonth[2]));
+  }
+
+  // "Dec 2025", "December 2025"
+  const monthName = text.match(/^([A-Za-z]+)\.?\s+(\d{4})$/);
+  if (monthName) {
+    const month = Date.parse(`${monthName[1]} 1, ${monthName[2]} UTC`);
+    return Number.isNaN(month)
+      ? null
+      : lastDayOfMonth(Number(monthName[2]), new Date(month).getUTCMonth() + 1);
+  }
+
+  if (/^\d{4}-\d{2}-\d{2}/.test(text)) return text.slice(0, 10);
+
+  // "December 31, 2025" and similar
+  const parsed = Date.parse(`${text} UTC`);
+  return Number.isNaN(parsed) ? null : new Date(parsed).toISOString().slice(0, 10);
+}
+
+/**
+ * Parse a retirement list (CSV or JSON)
+ * @param source - Used for rows without their own source column
+ */
+export function parseRetirementList(text: string, source: string): RetirementRecord[] {
+  const records: RetirementRecord[] = [];
+
+  for (const row of parseDatasetRows(text)) {
+    const setNumber = normalizeSetNumber(pickField(row, SET_NUMBER_KEYS));
+    const retirementDate = parseRetirementDate(pickField(row, DATE_KEYS));
+    if (!setNumber || !retirementDate) continue;
+
+    const rowSource = String(pickField(row, SOURCE_KEYS) ?? "").trim();
+    records.push({ setNumber, retirementDate, source: rowSource || source });
+  }
+
+  return records;
+}
+
+/**
+ * Availability a set should have today, given its retirement date and year
+ */
+export function getAvailability(set: LegoSet, now: Date = new Date()): LegoSet["availability"] {
+  if (set.removed) return "sold_out";
+
+  const released = (set.year ?? 0) <= now.getUTCFullYear();
+
+  if (set.retirementDate) {
+    const daysLeft = (Date.parse(`${set.retirementDate}T00:00:00Z`) - now.getTime()) / DAY_MS;
+    if (daysLeft <= 0) return "sold_out";
+    if (daysLeft <= RETIRING_SOON_DAYS) return "retiring_soon";
+    return released ? "available" : "coming_soon";
+  }
+
+  return set.availability === "coming_soon" && released ? "available" : set.availability;
+}
+
+/**
+ * Queue an availability update for a set, if it changed
+ * @returns Whether the set just started retiring
+ */
+function queueTransition(writes: WriteOp[], ref: admin.firestore.DocumentReference, set: LegoSet, now: Date): boolean {
+  const availability = getAvailability(set, now);
+  if (availability === set.availability) return false;
+
+  writes.push((batch) => batch.update(ref, { availability }));
+  return availability === "retiring_soon";
+}
+
+/**
+ * Store retirement dates on catalog entries and update their availability
+ * Sets that aren't in the catalog are skipped.
+ */
+export async function applyRetirementRecords(
+  records: RetirementRecord[]
+): Promise<{ updated: number; unknown: number; retiring: number }> {
+  const now = new Date();
+  const updatedAt = admin.firestore.Timestamp.fromDate(now);
+  const writes: WriteOp[] = [];
+  const retiring: LegoSet[] = [];
+  let updated = 0;
+  let unknown = 0;
+
+  for (let i = 0; i < records.length; i += READ_CHUNK_SIZE) {
+    const chunk = records.slice(i, i + READ_CHUNK_SIZE);
+    const docs = await db.getAll(
+      ...chunk.map((record) => db.collection("lego_catalog").doc(record.setNumber))
+    );
+
+    chunk.forEach((record, index) => {
+      const doc = docs[index];
+      if (!doc.exists) {
+        unknown++;
+        return;
+      }
+
+      const existing = doc.data() as LegoSet;
+      if (existing.retirementDate === record.retirementDate &&
+          existing.retirementSource === record.source) return;
+
+      const set: LegoSet = {
+        ...existing,
+        retirementDate: record.retirementDate,
+        retirementSource: record.source,
+      };
+      writes.push((batch) => batch.update(doc.ref, {
+        retirementDate: record.retirementDate,
+        retirementSource: record.source,
+        retirementUpdatedAt: updatedAt,
+      }));
+      if (queueTransition(writes, doc.ref, set, now)) retiring.push(set);
+      updated++;
+    });
+  }
+
+  await commitWrites(writes);
+  for (const set of retiring) {
+    await notifyRetiringWatchers(set);
+  }
+
+  logger.info(`Retirement import: ${updated} updated, ${unknown} unknown, ${retiring.length} now retiring`);
+  return { updated, unknown, retiring: retiring.length };
+}
+
+/**
+ * Import the retirement list hosted at RETIREMENT_LIST_URL, if one is set
+ * Rows without a source column are credited to the list's host.
+ */
+export async function importRetirementList(): Promise<number> {
+  const url = process.env.RETIREMENT_LIST_URL;
+  if (!url) return 0;
+
+  const response = await fetch(url, { signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS) });
+  if (!response.ok) {
+    throw new Error(`Retirement list returned ${response.status}`);
+  }
+
+  const records = parseRetirementList(await response.text(), new URL(url).hostname);
+  const { updated } = await applyRetirementRecords(records);
+  return updated;
+}
+
+/**
+ * Move sets along as their dates come up: coming soon to available once
+ * released, then retiring soon and sold out around the retirement date
+ * @returns Number of sets whose availability changed
+ */
+export async function updateAvailability(): Promise<number> {
+  const now = new Date();
+  const horizon = new Date(now.getTime() + RETIRING_SOON_DAYS * DAY_MS).toISOString().slice(0, 10);
+
+  const [dated, upcoming] = await Promise.all([
+    db.collection("lego_catalog").where("retirementDate", "<=", horizon).get(),
+    db.collection("lego_catalog").where("availability", "==", "coming_soon").get(),
+  ]);
+
+  const writes: WriteOp[] = [];
+  const retiring: LegoSet[] = [];
+  const checked = new Set<string>();
+
+  for (const doc of [...dated.docs, ...upcoming.docs]) {
+    if (checked.has(doc.id)) continue;
+    checked.add(doc.id);
+
+    const set = doc.data() as LegoSet;
+    if (queueTransition(writes, doc.ref, set, now)) retiring.push(set);
+  }
+
+  await commitWrites(writes);
+  for (const set of retiring) {
+    await notifyRetiringWatchers(set);
+  }
+
+  logger.info(`Availability updated for ${writes.length} sets, ${retiring.length} now retiring`);
+  return writes.length;
+}
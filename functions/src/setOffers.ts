@@ -0,0 +1,135 @@
+/**
+ * Per-set offers
+ *
+ * prices and deals hold one doc per set and retailer, so a feed built from
+ * them lists a set once for every retailer discounting it. set_offers keeps
+ * one doc per set with every retailer's current price and stock state and
+ * the best offer picked from them (in stock first, then cheapest), which
+ * the app's deal feed reads. Price runs and replays refresh the docs of the
+ * sets they touched; each refresh rebuilds the doc from the stored prices
+ * and deals in a transaction, so shards pricing different retailers for the
+ * same set can't overwrite each other's offers.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites } from "./db";
+import { DealData, PriceData, SetOffer, SetOffers } from "./types";
+import { getRegisteredRetailers } from "./retailers";
+import { calculatePercentOff } from "./notifications";
+
+const OFFERS_COLLECTION = "set_offers";
+
+// Prices older than this are left out, matching how long stale deals are kept
+const OFFER_MAX_AGE_MS = 24 * 60 * 60 * 1000;
+// Sets refreshed in parallel
+const REFRESH_CONCURRENCY = 5;
+
+/**
+ * Order offers best first: in stock before out of stock, then cheapest
+ */
+function compareOffers(a: SetOffer, b: SetOffer): number {
+  if (a.inStock !== b.inStock) return a.inStock ? -1 : 1;
+  return a.currentPrice - b.currentPrice;
+}
+
+/**
+ * An offer from a stored price, with its deal score if the deal is current
+ */
+function toOffer(price: PriceData, deal: DealData | undefined): SetOffer {
+  const isCurrentDeal = deal !== undefined && deal.lastUpdated.toMillis() === price.lastUpdated.toMillis();
+
+  return {
+    retailer: price.retailer,
+    currentPrice: price.currentPrice,
+    originalPrice: price.originalPrice,
+    percentOff: isCurrentDeal ? deal.percentOff : Math.max(0, calculatePercentOff(price)),
+    inStock: price.inStock,
+    url: price.url,
+    lastUpdated: price.lastUpdated,
+    claimedOriginalPrice: price.claimedOriginalPrice ?? null,
+    listPriceInflated: price.listPriceInflated === true,
+    isDeal: isCurrentDeal,
+    dealScore: isCurrentDeal ? deal.dealScore ?? null : null,
+  };
+}
+
+/**
+ * Rebuild one set's offers doc from its stored prices and deals
+ */
+async function refreshSetOffer(setNumber: string, retailers: string[]): Promise<void> {
+  const ids = retailers.map((retailer) => `${setNumber}_${retailer}`);
+  const offerRef = db.collection(OFFERS_COLLECTION).doc(setNumber);
+  const cutoff = Date.now() - OFFER_MAX_AGE_MS;
+
+  await db.runTransaction(async (transaction) => {
+    const [priceDocs, dealDocs] = await Promise.all([
+      transaction.getAll(...ids.map((id) => db.collection("prices").doc(id))),
+      transaction.getAll(...ids.map((id) => db.collection("deals").doc(id))),
+    ]);
+
+    const prices: { price: PriceData; deal: DealData | undefined }[] = [];
+    priceDocs.forEach((doc, index) => {
+      if (!doc.exists) return;
+      const price = doc.data() as PriceData;
+      if (price.lastUpdated.toMillis() < cutoff) return;
+      prices.push({ price, deal: dealDocs[index].exists ? dealDocs[index].data() as DealData : undefined });
+    });
+
+    if (prices.length === 0) {
+      transaction.delete(offerRef);
+      return;
+    }
+
+    const offers = prices.map(({ price, deal }) => toOffer(price, deal)).sort(compareOffers);
+    const best = offers[0];
+    // Set details are the same on every retailer's price; take them from the best one
+    const { price: details } = prices.find(({ price }) => price.retailer === best.retailer) ?? prices[0];
+
+    const doc: SetOffers = {
+      setNumber,
+      setName: details.setName,
+      imageUrl: details.imageUrl ?? null,
+      theme: details.theme ?? null,
+      themeId: details.themeId ?? null,
+      subTheme: details.subTheme ?? null,
+      subThemeId: details.subThemeId ?? null,
+      pieces: details.pieces ?? null,
+      availability: details.availability ?? null,
+      retirementDate: details.retirementDate ?? null,
+      best,
+      bestPercentOff: best.inStock && best.isDeal ? best.percentOff : 0,
+      bestDealScore: best.dealScore,
+      offers,
+      updatedAt: admin.firestore.Timestamp.now(),
+    };
+    transaction.set(offerRef, doc);
+  });
+}
+
+/**
+ * Rebuild the offers docs of the given sets
+ */
+export async function refreshSetOffers(setNumbers: string[]): Promise<void> {
+  const queue = [...new Set(setNumbers)];
+  const retailers = getRegisteredRetailers();
+
+  const lanes = Array.from({ length: Math.min(REFRESH_CONCURRENCY, queue.length) }, async () => {
+    for (let setNumber = queue.shift(); setNumber; setNumber = queue.shift()) {
+      await refreshSetOffer(setNumber, retailers);
+    }
+  });
+  await Promise.all(lanes);
+}
+
+/**
+ * Remove offers docs no price run has refreshed recently
+ */
+export async function cleanOldSetOffers(): Promise<number> {
+  const cutoff = admin.firestore.Timestamp.fromMillis(Date.now() - OFFER_MAX_AGE_MS);
+  const stale = await db.collection(OFFERS_COLLECTION).where("updatedAt", "<", cutoff).get();
+
+  await commitWrites(stale.docs.map((doc) => (batch) => batch.delete(doc.ref)));
+  logger.info(`Cleaned ${stale.size} old set offers`);
+  return stale.size;
+}
@@ -0,0 +1,132 @@
+/**
+ * Rebrickable theme tree
+ *
+ * Rebrickable themes form a hierarchy (Star Wars > Ultimate Collector
+ * Series, ...) and sets point at the most specific one. The whole tree is
+ * stored in the themes collection so catalog entries can be filed under
+ * their root theme and sub-theme, and the app can list every theme.
+ */
+
+import * as logger from "firebase-functions/logger";
+import * as admin from "firebase-admin";
+import { db, commitWrites } from "./db";
+import { ThemeData } from "./types";
+
+const REBRICKABLE_API_KEY = process.env.REBRICKABLE_API_KEY || "";
+const THEMES_URL = "https://rebrickable.com/api/v3/lego/themes/?page_size=1000";
+// Guards against a parent loop in bad data
+const MAX_THEME_DEPTH = 10;
+
+/**
+ * Root theme and sub-theme a set is filed under
+ */
+export interface ResolvedTheme {
+  /** Root theme name, e.g. "Star Wars" */
+  theme: string;
+  /** Root theme ID */
+  themeId: number;
+  /** Theme directly under the root, e.g. "Ultimate Collector Series"; null for root-level sets */
+  subTheme: string | null;
+  subThemeId: number | null;
+}
+
+export type ThemeResolver = (themeId: number) => ResolvedTheme;
+
+/**
+ * Fetch every theme from Rebrickable, following pagination
+ */
+async function fetchThemeTree(): Promise<ThemeData[]> {
+  const themes: ThemeData[] = [];
+  let url: string | null = THEMES_URL;
+
+  while (url) {
+    const response: Response = await fetch(url, {
+      headers: {
+        "Authorization": `key ${REBRICKABLE_API_KEY}`,
+        "Accept": "application/json",
+      },
+    });
+
+    if (!response.ok) {
+      throw new Error(`Rebrickable themes error: ${response.status}`);
+    }
+
+    const data = await response.json();
+    for (const theme of data.results || []) {
+      themes.push({ id: theme.id, name: theme.name, parentId: theme.parent_id ?? null });
+    }
+    url = data.next || null;
+  }
+
+  return themes;
+}
+
+/**
+ * Build a resolver that files a theme ID under its root and sub-theme
+ * Unknown IDs resolve to a generic "LEGO" root.
+ */
+export function buildThemeResolver(themes: ThemeData[]): ThemeResolver {
+  const byId = new Map(themes.map((theme) => [theme.id, theme]));
+
+  return (themeId) => {
+    let current = byId.get(themeId);
+    if (!current) {
+      return { theme: "LEGO", themeId, subTheme: null, subThemeId: null };
+    }
+
+    // Walk up to the root, remembering the theme just below it
+    let child: ThemeData | null = null;
+    for (let depth = 0; current.parentId !== null && depth < MAX_THEME_DEPTH; depth++) {
+      const parent = byId.get(current.parentId);
+      if (!parent) break;
+      child = current;
+      current = parent;
+    }
+
+    return {
+      theme: current.name,
+      themeId: current.id,
+      subTheme: child?.name ?? null,
+      subThemeId: child?.id ?? null,
+    };
+  };
+}
+
+/**
+ * Fetch the theme tree from Rebrickable and store it in the themes collection
+ * @returns The stored themes
+ */
+export async function syncThemes(): Promise<ThemeData[]> {
+  const themes = await fetchThemeTree();
+  const resolve = buildThemeResolver(themes);
+  const lastUpdated = admin.firestore.Timestamp.now();
+
+  await commitWrites(themes.map((theme) => (batch) =>
+    batch.set(db.collection("themes").doc(String(theme.id)), {
+      ...theme,
+      rootId: resolve(theme.id).themeId,
+      lastUpdated,
+    })
+  ));
+
+  logger.info(`Saved ${themes.length} themes`);
+  return themes;
+}
+
+/**
+ * Resolver for the stored theme tree, syncing from Rebrickable if it's empty
+ */
+export async function getThemeResolver(): Promise<ThemeResolver> {
+  const snapshot = await db.collection("themes").get();
+  let themes = snapshot.docs.map((doc) => doc.data() as ThemeData);
+
+  if (themes.length === 0) {
+    try {
+      themes = await syncThemes();
+    } catch (error) {
+      logger.warn("Could not fetch themes:", error);
+    }
+  }
+
+  return buildThemeResolver(themes);
+}
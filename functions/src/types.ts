@@ -0,0 +1,666 @@
+/**
+ * Shared types for the Brick Deal Hunter Cloud Functions
+ */
+
+import * as admin from "firebase-admin";
+
+/**
+ * Supported retailer IDs (matches RetailerId in the app)
+ */
+export type RetailerId =
+  | "lego"
+  | "amazon"
+  | "walmart"
+  | "target"
+  | "barnes_noble"
+  | "sams_club"
+  | "walgreens"
+  | "best_buy"
+  | "kohls"
+  | "gamestop"
+  | "shop_disney"
+  | "macys";
+
+export interface LegoSet {
+  setNumber: string;
+  name: string;
+  /** Rough price estimate from the piece count; never used for discounts */
+  price: number;
+  /** Official US list price, once imported (see msrp/) */
+  msrp?: number;
+  /** Where the MSRP came from ("dataset", "lego_com", ...) */
+  msrpSource?: string;
+  /** How much the MSRP can be trusted, 0-1 */
+  msrpConfidence?: number;
+  msrpUpdatedAt?: admin.firestore.Timestamp;
+  imageUrl: string;
+  url: string;
+  /** Root theme name (see themes.ts) */
+  theme?: string;
+  themeId?: number;
+  /** Theme directly under the root, null for root-level sets */
+  subTheme?: string | null;
+  subThemeId?: number | null;
+  pieces?: number;
+  year?: number;
+  availability: "available" | "coming_soon" | "sold_out" | "retiring_soon";
+  /** Rebrickable's last_modified_dt when the set was last synced */
+  rebrickableModifiedAt?: string;
+  /** Expected retirement date (YYYY-MM-DD), from an imported retirement list */
+  retirementDate?: string;
+  /** Where the retirement date came from */
+  retirementSource?: string;
+  retirementUpdatedAt?: admin.firestore.Timestamp;
+  /** Set no longer listed by Rebrickable */
+  removed?: boolean;
+  removedAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * Progress of the catalog sync, checkpointed after every page
+ */
+export interface CatalogSyncState {
+  /** Rebrickable page expected to hold the sets after the cursor */
+  page: number;
+  /** Last set number synced this pass, null before the first page */
+  cursor?: string | null;
+  status: "running" | "complete";
+  startedAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  completedAt?: admin.firestore.Timestamp;
+  /** Sets listed so far this pass */
+  seen: number;
+  /** Sets written because they were new or modified */
+  changed: number;
+  /** Sets marked removed at the end of the pass */
+  removed: number;
+}
+
+/**
+ * Where the MSRP import's scan for sets missing a verified MSRP left off
+ */
+export interface MsrpCandidateCursor {
+  /** Last catalog doc ID scanned, null to start from the beginning */
+  lastSetNumber: string | null;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * One unit of a price run: a range of catalog sets checked at a group of
+ * retailers, dispatched through the processPriceShard task queue
+ */
+export interface PriceShard {
+  runId: string;
+  shardId: string;
+  setNumbers: string[];
+  retailers: RetailerId[];
+  /** Send watcher and hot deal alerts for the prices found */
+  notify: boolean;
+  /** Record what would change in the run's diffs instead of writing it */
+  dryRun?: boolean;
+}
+
+/**
+ * Progress record for a price run, kept in price_runs
+ */
+export interface PriceRun {
+  status: "running" | "complete";
+  trigger: "scheduled" | "manual";
+  notify: boolean;
+  /** Nothing was published; shards recorded diffs in price_runs/{runId}/diffs */
+  dryRun: boolean;
+  startedAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  completedAt?: admin.firestore.Timestamp;
+  /** Catalog sets covered by the run */
+  sets: number;
+  totalShards: number;
+  completedShards: number;
+  /** Shards that failed to enqueue or used up their retries */
+  failedShards: number;
+  pricesFetched: number;
+  dealsFound: number;
+  /** Price lookups per retailer across the run's finished shards */
+  retailers: Record<string, RetailerRunStats>;
+  /** Why shards failed (capped) */
+  errors: string[];
+  /** Retailer batches held in price_reviews instead of being published */
+  quarantinedBatches: number;
+  /** Distribution of the published prices per retailer, folded into the baselines */
+  distributions: Record<string, PriceDistribution>;
+}
+
+/**
+ * Shape of a batch of prices from one retailer: how many were in stock and
+ * how they spread over discount buckets (percent below MSRP, see anomalyGuard.ts)
+ */
+export interface PriceDistribution {
+  samples: number;
+  inStock: number;
+  /** Counts per discount bucket */
+  buckets: number[];
+}
+
+/**
+ * A retailer's recent price distributions, in price_baselines
+ */
+export interface PriceBaseline {
+  retailer: string;
+  /** One distribution per recent run, newest first */
+  recent: PriceDistribution[];
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * A retailer batch that looked wrong, held in price_reviews until an admin
+ * approves (publishes) or rejects it
+ */
+export interface PriceReview {
+  runId: string;
+  shardId: string;
+  retailer: string;
+  status: "pending" | "approved" | "rejected";
+  reasons: string[];
+  distribution: PriceDistribution;
+  /** What the batch was compared against; null without run history */
+  baseline: PriceDistribution | null;
+  prices: PriceData[];
+  /** Whether the run would have sent alerts for these prices */
+  notify: boolean;
+  createdAt: admin.firestore.Timestamp;
+  reviewedAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * A notification a price update would send, for dry runs
+ * Recipients are counted before the per-device ledger, quiet hours and
+ * daily caps, so some of them might only get it later or not at all.
+ */
+export interface NotificationPreview {
+  type: NotificationPayload["data"]["type"];
+  setNumber: string;
+  retailer: string;
+  title: string;
+  body: string;
+  recipients: number;
+}
+
+/**
+ * What a dry-run shard would have changed
+ */
+export interface PriceRunDiff {
+  priceMoves: {
+    setNumber: string;
+    retailer: string;
+    /** null for the first price seen */
+    from: { price: number; inStock: boolean } | null;
+    to: { price: number; inStock: boolean };
+  }[];
+  newDeals: { setNumber: string; retailer: string; percentOff: number; price: number }[];
+  updatedDeals: { setNumber: string; retailer: string; fromPercentOff: number; percentOff: number; price: number }[];
+  /** Current deals the new price no longer qualifies for; the stale-deal cleanup would remove them */
+  endedDeals: { setNumber: string; retailer: string; percentOff: number }[];
+  notifications: NotificationPreview[];
+  /** Batches the anomaly guard would have held for review */
+  quarantined: { retailer: string; prices: number; reasons: string[] }[];
+  /** Set when lists were cut short */
+  truncated: boolean;
+}
+
+/**
+ * What a dry-run catalog sync would have changed
+ */
+export interface CatalogSyncDiff {
+  fromPage: number;
+  /** Page a real sync would continue from */
+  nextPage: number;
+  /** Whether the listing reached its last page (removals aren't previewed) */
+  reachedEnd: boolean;
+  newSets: string[];
+  changedSets: string[];
+  /** Sets marked removed that Rebrickable lists again */
+  returningSets: string[];
+  truncated: boolean;
+}
+
+/**
+ * Jobs that keep run records in job_runs
+ */
+export type JobName = "updateLegoCatalog" | "updatePrices" | "manualCatalogUpdate" | "manualPriceUpdate";
+
+/**
+ * Price lookups made at one retailer during a run
+ */
+export interface RetailerRunStats {
+  attempts: number;
+  /** Lookups that returned a price */
+  successes: number;
+}
+
+/**
+ * A job run record in job_runs
+ */
+export interface JobRun {
+  job: JobName;
+  status: "running" | "succeeded" | "failed";
+  startedAt: admin.firestore.Timestamp;
+  finishedAt?: admin.firestore.Timestamp;
+  durationMs?: number;
+  setsProcessed: number;
+  dealsFound: number;
+  errors: string[];
+  /** Per-retailer lookups with their success rate (0-1), for price jobs */
+  retailers: Record<string, RetailerRunStats & { successRate: number }>;
+  /** Set for scheduled dry runs; their diff is kept in catalog_diffs under the same ID */
+  dryRun?: boolean;
+}
+
+/**
+ * Latest run of a job, kept in job_status so /status needs no queries
+ */
+export interface JobStatus {
+  job: JobName;
+  lastRunId: string;
+  lastStatus: JobRun["status"];
+  lastFinishedAt: admin.firestore.Timestamp;
+  lastSuccessAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * When prices were last fetched from a retailer, kept in retailer_status
+ */
+export interface RetailerStatus {
+  retailer: string;
+  lastAttemptAt: admin.firestore.Timestamp;
+  /** Last time a lookup returned a price */
+  lastSuccessAt?: admin.firestore.Timestamp;
+  /** Success rate of the most recent shard to reach this retailer */
+  lastSuccessRate: number;
+}
+
+/**
+ * A Rebrickable theme as stored in the themes collection
+ */
+export interface ThemeData {
+  id: number;
+  name: string;
+  parentId: number | null;
+  /** Top of this theme's hierarchy (itself for root themes) */
+  rootId?: number;
+}
+
+export interface PriceData {
+  setNumber: string;
+  setName: string;
+  retailer: string;
+  currentPrice: number;
+  /** Reference price: the verified MSRP or recent prices when available (see listPrice.ts) */
+  originalPrice: number;
+  /** The retailer's own list/"was" price, null when it didn't show one */
+  claimedOriginalPrice?: number | null;
+  /** What originalPrice comes from; "retailer" means it couldn't be verified */
+  originalPriceSource?: "msrp" | "history" | "retailer";
+  /** The retailer's list price is above the MSRP or its own recent prices */
+  listPriceInflated?: boolean;
+  listPriceReasons?: string[];
+  url: string;
+  inStock: boolean;
+  lastUpdated: admin.firestore.Timestamp;
+  theme?: string;
+  themeId?: number;
+  subTheme?: string | null;
+  subThemeId?: number | null;
+  imageUrl?: string;
+  pieces?: number;
+  availability?: LegoSet["availability"];
+  retirementDate?: string | null;
+}
+
+export interface DealData extends PriceData {
+  percentOff: number;
+  savings: number;
+  /** Overall deal quality, 0-100 (see dealScore.ts) */
+  dealScore: number;
+  dealScoreFactors: DealScoreFactors;
+}
+
+/**
+ * One retailer's current price for a set, within its set_offers doc
+ */
+export interface SetOffer {
+  retailer: string;
+  currentPrice: number;
+  originalPrice: number;
+  /** Percent off the verified reference; 0 when the reference isn't verified */
+  percentOff: number;
+  inStock: boolean;
+  url: string;
+  lastUpdated: admin.firestore.Timestamp;
+  claimedOriginalPrice: number | null;
+  listPriceInflated: boolean;
+  /** Whether this price is currently a deal (see the deals collection) */
+  isDeal: boolean;
+  /** The deal's score, null if this price isn't a deal */
+  dealScore: number | null;
+}
+
+/**
+ * Every retailer's current price for a set and the best of them, kept in
+ * set_offers/{setNumber} (see setOffers.ts)
+ */
+export interface SetOffers {
+  setNumber: string;
+  setName: string;
+  imageUrl: string | null;
+  theme: string | null;
+  themeId: number | null;
+  subTheme: string | null;
+  subThemeId: number | null;
+  pieces: number | null;
+  availability: LegoSet["availability"] | null;
+  retirementDate: string | null;
+  /** Cheapest offer, preferring in-stock ones */
+  best: SetOffer;
+  /** The best offer's percent off if it's a current deal, otherwise 0 (for the deal feed query) */
+  bestPercentOff: number;
+  bestDealScore: number | null;
+  /** Cheapest first, in-stock before out of stock */
+  offers: SetOffer[];
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * The parts of a deal's score, each 0-100
+ * A factor is null when there isn't enough data for it yet.
+ */
+export interface DealScoreFactors {
+  /** Percent off the verified MSRP */
+  discount: number;
+  /** Closeness to the lowest price seen for the set at any retailer */
+  historicalLow: number | null;
+  /** Price per piece against the theme's median */
+  pricePerPiece: number | null;
+  /** 100 for sets retiring soon */
+  retirement: number;
+  /** How rarely this retailer has discounted the set */
+  rarity: number | null;
+}
+
+/**
+ * Prices the runs have seen for a set at one retailer
+ */
+export interface RetailerPriceStats {
+  /** In-stock prices seen */
+  observations: number;
+  /** Of those, prices discounted enough to be a deal */
+  discounted: number;
+  lowPrice: number;
+  lowPriceAt: admin.firestore.Timestamp;
+  /** Highest in-stock price in roughly the last 90 days */
+  recentHigh?: number;
+  recentHighAt?: admin.firestore.Timestamp;
+}
+
+/**
+ * A set's price observations by retailer, kept in set_price_stats
+ */
+export interface SetPriceStats {
+  setNumber: string;
+  retailers: Record<string, RetailerPriceStats>;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Median verified MSRP per piece by root theme ID, kept in deal_score_stats/themes
+ */
+export interface ThemePriceStats {
+  medians: Record<string, number>;
+  /** Sets each median was taken over */
+  sets: Record<string, number>;
+  updatedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Per-set alert target: an absolute price or a percent off the list price
+ */
+export interface SetTarget {
+  type: "price" | "percent";
+  value: number;
+}
+
+export interface PushToken {
+  token: string;
+  platform: 'ios' | 'android' | 'web';
+  notificationsEnabled: boolean;
+  minDiscountThreshold: number;
+  /** Rebrickable theme IDs (root or sub-theme) */
+  watchedThemes: number[];
+  watchedSets: string[];
+  /** Watched sets the user muted from the Alerts tab */
+  mutedSets?: string[];
+  /** Watched theme IDs the user muted from the Alerts tab */
+  mutedThemes?: number[];
+  /** Target price per watched set, keyed by set number */
+  setTargets?: Record<string, SetTarget>;
+  /** Local hour (0-23) quiet hours start, null when off */
+  quietHoursStart?: number | null;
+  /** Local hour (0-23) quiet hours end */
+  quietHoursEnd?: number | null;
+  /** IANA timezone of the device, e.g. "America/Chicago" */
+  timezone?: string;
+  /** Deal digest cadence; instant alerts are sent either way */
+  digestCadence?: "off" | "daily" | "weekly";
+  /** Local hour (0-23) the digest goes out */
+  digestHour?: number;
+  lastDigestAt?: admin.firestore.Timestamp;
+  /** Alert when a watched set is about to retire */
+  retirementAlerts?: boolean;
+  /** Failed deliveries reported by Expo */
+  deliveryFailures?: number;
+  /** Expo error code of the last failed delivery */
+  lastDeliveryError?: string;
+  lastDeliveryErrorAt?: admin.firestore.Timestamp;
+  lastUpdated: admin.firestore.Timestamp;
+}
+
+export interface NotificationPayload {
+  title: string;
+  body: string;
+  data: {
+    type: 'deal' | 'price_drop' | 'back_in_stock' | 'target_reached' | 'retiring_soon' | 'summary' | 'digest';
+    setNumber?: string;
+    retailer?: string;
+    percentOff?: number;
+    /** Number of notifications grouped into a summary or deals in a digest */
+    count?: number;
+    /** Home screen filters a digest opens with */
+    minDiscount?: number;
+    themeIds?: number[];
+  };
+}
+
+/**
+ * A single message for the Expo push API
+ */
+export interface ExpoPushMessage {
+  to: string;
+  title: string;
+  body: string;
+  data: NotificationPayload["data"];
+}
+
+/**
+ * A push ticket waiting for its Expo receipt
+ */
+export interface PushTicketRecord {
+  ticketId: string;
+  token: string;
+  message: ExpoPushMessage;
+  /** Send attempts so far, including the one this ticket is for */
+  attempts: number;
+  createdAt: admin.firestore.Timestamp;
+  /** Receipts aren't ready right away; don't ask before this */
+  checkAfter: admin.firestore.Timestamp;
+}
+
+/**
+ * A failed message waiting to be sent again
+ */
+export interface PushRetry {
+  token: string;
+  message: ExpoPushMessage;
+  attempts: number;
+  nextAttemptAt: admin.firestore.Timestamp;
+  lastError: string;
+}
+
+/**
+ * A notification held back for later delivery: during the device's quiet
+ * hours, or after it hit its daily cap
+ */
+export interface DeferredNotification {
+  token: string;
+  notification: NotificationPayload;
+  reason: "quiet_hours" | "daily_cap";
+  createdAt: admin.firestore.Timestamp;
+  /** When the quiet hours window ends, or for capped-out alerts the next day's digest hour */
+  deliverAfter: admin.firestore.Timestamp;
+}
+
+/**
+ * The last alert a device got for a set at a retailer
+ * Another alert for the same set and retailer only goes out at a lower price.
+ */
+export interface NotificationLedgerEntry {
+  token: string;
+  setNumber: string;
+  retailer: string;
+  price: number;
+  type: NotificationPayload["data"]["type"];
+  notifiedAt: admin.firestore.Timestamp;
+  /** After this the entry no longer blocks a repeat alert */
+  expiresAt: admin.firestore.Timestamp;
+}
+
+/**
+ * Alerts sent to a device on its current local day
+ */
+export interface NotificationCap {
+  day: string;
+  count: number;
+}
+
+/**
+ * A price_history entry. Raw "point" entries are written whenever a price
+ * or stock state changes; older points are compacted into "daily" and then
+ * "weekly" rollups, where price is the lowest price seen in the period.
+ */
+export interface PriceHistoryEntry {
+  setNumber: string;
+  retailer: string;
+  date: admin.firestore.Timestamp;
+  price: number;
+  originalPrice: number;
+  inStock: boolean;
+  granularity: "point" | "daily" | "weekly";
+  /** Highest price in the period (rollups only) */
+  maxPrice?: number;
+  /** Number of entries folded into this rollup */
+  samples?: number;
+}
+
+/**
+ * An MSRP change recorded in msrp_history
+ */
+export interface MsrpChange {
+  setNumber: string;
+  /** MSRP before the change; null for the first import */
+  previousMsrp: number | null;
+  msrp: number;
+  source: string;
+  confidence: number;
+  changedAt: admin.firestore.Timestamp;
+}
+
+/**
+ * What an admin key may do
+ * keys:manage covers creating, rotating and revoking admin keys.
+ */
+export type AdminScope = "catalog:write" | "prices:write" | "push:send" | "keys:manage";
+
+/**
+ * An admin credential in admin_keys; only a hash of its secret is stored
+ */
+export interface AdminKey {
+  name: string;
+  /** SHA-256 of the key's secret, hex encoded */
+  secretHash: string;
+  scopes: AdminScope[];
+  createdAt: admin.firestore.Timestamp;
+  expiresAt: admin.firestore.Timestamp;
+  revokedAt?: admin.firestore.Timestamp;
+  lastUsedAt?: admin.firestore.Timestamp;
+  /** The key that replaced this one when it was rotated */
+  replacedBy?: string;
+}
+
+/**
+ * A use (or attempted use) of an admin endpoint, recorded in admin_audit_log
+ */
+export interface AdminAuditEntry {
+  endpoint: string;
+  scope: AdminScope;
+  allowed: boolean;
+  /** Why the request was refused, or how it was let through */
+  reason: string;
+  /** null when no known key was presented */
+  keyId: string | null;
+  keyName: string | null;
+  ip: string;
+  method: string;
+  at: admin.firestore.Timestamp;
+  /** For a Firestore TTL policy */
+  expiresAt: admin.firestore.Timestamp;
+}
+
+/**
+ * A deal the replay created, changed or removed
+ */
+export interface ReplayChange {
+  setNumber: string;
+  retailer: string;
+  change: "created" | "updated" | "removed";
+  /** null when there was no deal before */
+  fromPercentOff: number | null;
+  /** null when the deal was removed */
+  percentOff: number | null;
+}
+
+/**
+ * A replay of the deal rules over stored prices, in replay_runs
+ * Phases run in order: rebuild deals from prices, remove deals whose price
+ * is gone, then (optionally) compact history under the current rules.
+ */
+export interface ReplayRun {
+  status: "running" | "complete" | "failed";
+  phase: "deals" | "orphans" | "history" | "done";
+  /** Re-run history compaction after the deals; existing rollups aren't rebuilt */
+  compactHistory: boolean;
+  /** Last doc ID handled in the current phase */
+  cursor: string | null;
+  /** Task invocations so far; each continues from the checkpoint */
+  invocations: number;
+  startedAt: admin.firestore.Timestamp;
+  updatedAt: admin.firestore.Timestamp;
+  completedAt?: admin.firestore.Timestamp;
+  pricesScanned: number;
+  dealsCreated: number;
+  dealsUpdated: number;
+  dealsRemoved: number;
+  dealsUnchanged: number;
+  historyPointsCompacted: number;
+  dailyRollupsCompacted: number;
+  /** First changes made (capped), for the report */
+  changes: ReplayChange[];
+  error?: string;
+}
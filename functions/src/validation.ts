@@ -0,0 +1,85 @@
+/**
+ * Input validation helpers shared by the HTTP endpoints and price adapters
+ */
+
+import { SetTarget } from "./types";
+
+/**
+ * Validate LEGO set number format
+ * Valid formats: "75192", "75192-1", "10294-1"
+ */
+export function isValidSetNumber(setNumber: string): boolean {
+  if (!setNumber || typeof setNumber !== "string") return false;
+  // Allow digits with optional -1 suffix
+  return /^\d{4,6}(-\d)?$/.test(setNumber);
+}
+
+/**
+ * Sanitize set number for URL usage
+ */
+export function sanitizeSetNumber(setNumber: string): string {
+  if (!isValidSetNumber(setNumber)) return "";
+  // Remove -1 suffix and ensure only digits
+  return setNumber.replace(/-\d$/, "").replace(/[^\d]/g, "");
+}
+
+/**
+ * Validate Expo push token format
+ * Expo tokens start with "ExponentPushToken["
+ */
+export function isValidExpoPushToken(token: string): boolean {
+  if (!token || typeof token !== "string") return false;
+  return /^ExponentPushToken\[[a-zA-Z0-9_-]+\]$/.test(token);
+}
+
+/**
+ * Validate per-set alert targets from a preferences payload
+ * Drops entries with an invalid set number, type or value.
+ */
+export function sanitizeSetTargets(raw: unknown): Record<string, SetTarget> {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return {};
+
+  const targets: Record<string, SetTarget> = {};
+  for (const [setNumber, target] of Object.entries(raw).slice(0, 100)) {
+    if (!isValidSetNumber(setNumber) || !target || typeof target !== "object") continue;
+
+    const { type, value } = target as Partial<SetTarget>;
+    if (typeof value !== "number" || !Number.isFinite(value) || value <= 0) continue;
+
+    if (type === "price" && value <= 10000) {
+      targets[setNumber] = { type, value: Math.round(value * 100) / 100 };
+    } else if (type === "percent" && value <= 100) {
+      targets[setNumber] = { type, value: Math.round(value) };
+    }
+  }
+  return targets;
+}
+
+/**
+ * Validate a local hour (0-23), returning null when invalid or off
+ */
+export function sanitizeHour(hour: unknown): number | null {
+  return Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) <= 23
+    ? hour as number
+    : null;
+}
+
+/**
+ * Validate an IANA timezone name
+ */
+export function isValidTimeZone(timezone: unknown): timezone is string {
+  if (typeof timezone !== "string" || timezone.length > 64) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: timezone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a digest cadence
+ */
+export function isValidDigestCadence(cadence: unknown): cadence is "off" | "daily" | "weekly" {
+  return cadence === "off" || cadence === "daily" || cadence === "weekly";
+}
@@ -0,0 +1,93 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { findAnomalies, summarizePrices } from "../src/anomalyGuard";
+import { PriceDistribution } from "../src/types";
+import { retailerPrice, setWithMsrp } from "./helpers";
+
+/**
+ * A distribution with some prices 40%+ off and the rest under 10% off
+ */
+function distribution(samples: number, deep: number, inStock = samples): PriceDistribution {
+  return { samples, inStock, buckets: [samples - deep, 0, 0, 0, deep, 0] };
+}
+
+describe("anomaly guard", () => {
+  describe("summarizePrices", () => {
+    it("measures discounts against the verified MSRP over the retailer's claim", () => {
+      const set = setWithMsrp("75192-1", 100);
+      const result = summarizePrices([{ set, priceData: retailerPrice(set, 85, { claimedOriginalPrice: 200 }) }]);
+      assert.deepEqual(result.buckets, [0, 1, 0, 0, 0, 0]);
+    });
+
+    it("falls back to the claimed list price without a verified MSRP", () => {
+      const set = setWithMsrp("75192-1", 100, { msrpConfidence: 0.5 });
+      const result = summarizePrices([{ set, priceData: retailerPrice(set, 85, { claimedOriginalPrice: 200 }) }]);
+      assert.deepEqual(result.buckets, [0, 0, 0, 0, 0, 1]);
+    });
+
+    it("leaves out prices with neither a verified MSRP nor a claimed list price", () => {
+      const set = setWithMsrp("75192-1", 100, { msrpConfidence: 0.5 });
+      const result = summarizePrices([{ set, priceData: retailerPrice(set, 10, { originalPrice: 100 }) }]);
+      assert.deepEqual(result, { samples: 0, inStock: 0, buckets: [0, 0, 0, 0, 0, 0] });
+    });
+
+    it("counts exactly 40% off as a deep discount", () => {
+      const set = setWithMsrp("75192-1", 100);
+      const result = summarizePrices([
+        { set, priceData: retailerPrice(set, 60) },
+        { set, priceData: retailerPrice(set, 60.01, { inStock: false }) },
+      ]);
+      assert.deepEqual(result, { samples: 2, inStock: 1, buckets: [0, 0, 0, 1, 1, 0] });
+    });
+  });
+
+  describe("findAnomalies", () => {
+    const baseline = distribution(500, 25);
+
+    it("accepts a batch that looks like its baseline", () => {
+      assert.deepEqual(findAnomalies(distribution(100, 6), baseline), []);
+    });
+
+    it("ignores an empty batch", () => {
+      assert.deepEqual(findAnomalies(distribution(0, 0), baseline), []);
+    });
+
+    it("flags a batch mostly made of deep discounts, even without a baseline", () => {
+      assert.deepEqual(findAnomalies(distribution(100, 51), null), ["51% of prices are 40%+ off"]);
+    });
+
+    it("allows exactly half the batch to be deep discounts without a baseline", () => {
+      assert.deepEqual(findAnomalies(distribution(100, 50), null), []);
+    });
+
+    it("flags a rise in deep discounts over the baseline", () => {
+      assert.deepEqual(findAnomalies(distribution(100, 35), baseline), [
+        "40%+ discounts at 35% against 5% in recent runs",
+      ]);
+    });
+
+    it("doesn't compare against a baseline with too few prices", () => {
+      assert.deepEqual(findAnomalies(distribution(100, 35), distribution(99, 5)), []);
+      assert.equal(findAnomalies(distribution(100, 35), distribution(100, 5)).length, 1);
+    });
+
+    it("checks small batches for deep discounts", () => {
+      assert.deepEqual(findAnomalies(distribution(3, 3), null), ["100% of prices are 40%+ off"]);
+      assert.deepEqual(findAnomalies(distribution(4, 2), baseline), [
+        "40%+ discounts at 50% against 5% in recent runs",
+      ]);
+    });
+
+    it("only compares the in-stock rate from MIN_SAMPLES prices on", () => {
+      assert.deepEqual(findAnomalies(distribution(19, 1, 0), baseline), []);
+      assert.deepEqual(findAnomalies(distribution(20, 1, 0), baseline), [
+        "In stock rate 0% against 100% in recent runs",
+      ]);
+    });
+
+    it("flags a histogram that shifted away from the baseline", () => {
+      const shifted: PriceDistribution = { samples: 100, inStock: 100, buckets: [10, 80, 5, 0, 5, 0] };
+      assert.deepEqual(findAnomalies(shifted, baseline), ["Discount histogram differs from recent runs by 85%"]);
+    });
+  });
+});
@@ -0,0 +1,40 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { normalizeSetNumber, parseDatasetRows } from "../src/datasets";
+
+describe("dataset parsing", () => {
+  describe("parseDatasetRows", () => {
+    it("parses CSV with quoted fields, escaped quotes and CRLF line endings", () => {
+      const rows = parseDatasetRows("\uFEFFset_num,name\r\n75192-1,\"Millennium Falcon, UCS\"\r\n\r\n10294-1,\"The \"\"Titanic\"\"\"\r\n");
+      assert.deepEqual(rows, [
+        { set_num: "75192-1", name: "Millennium Falcon, UCS" },
+        { set_num: "10294-1", name: "The \"Titanic\"" },
+      ]);
+    });
+
+    it("parses JSON arrays and { sets: [...] } objects", () => {
+      assert.deepEqual(parseDatasetRows("[{\"set_num\": \"75192-1\"}, 5]"), [{ set_num: "75192-1" }]);
+      assert.deepEqual(parseDatasetRows("{\"sets\": [{\"set_num\": \"75192-1\"}]}"), [{ set_num: "75192-1" }]);
+    });
+
+    it("returns no rows for malformed or empty input", () => {
+      assert.deepEqual(parseDatasetRows("[{\"set_num\": "), []);
+      assert.deepEqual(parseDatasetRows("{\"items\": []}"), []);
+      assert.deepEqual(parseDatasetRows(""), []);
+    });
+  });
+
+  describe("normalizeSetNumber", () => {
+    it("adds the default variant", () => {
+      assert.equal(normalizeSetNumber(" 75192 "), "75192-1");
+      assert.equal(normalizeSetNumber("75192-2"), "75192-2");
+      assert.equal(normalizeSetNumber(10294), "10294-1");
+    });
+
+    it("rejects values that aren't set numbers", () => {
+      for (const value of ["abc", "123", "75192-12", "", undefined]) {
+        assert.equal(normalizeSetNumber(value), null, String(value));
+      }
+    });
+  });
+});
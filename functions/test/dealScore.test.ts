@@ -0,0 +1,72 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import * as admin from "firebase-admin";
+import { DealScoreInputs, scoreDeal } from "../src/dealScore";
+import { RetailerPriceStats } from "../src/types";
+import { retailerPrice, setWithMsrp } from "./helpers";
+
+function stats(observations: number, lowPrice: number, discounted = 0): RetailerPriceStats {
+  return { observations, discounted, lowPrice, lowPriceAt: admin.firestore.Timestamp.now() };
+}
+
+function inputs(
+  retailers: Record<string, RetailerPriceStats> = {},
+  themeMedians: Record<string, number> = {}
+): DealScoreInputs {
+  return {
+    stats: new Map([["75192-1", { setNumber: "75192-1", retailers, updatedAt: admin.firestore.Timestamp.now() }]]),
+    themeMedians,
+  };
+}
+
+describe("deal score", () => {
+  const set = setWithMsrp("75192-1", 100, { themeId: 158, pieces: 100 });
+
+  it("scores on the discount alone without stats, reweighting the rest", () => {
+    const { dealScore, dealScoreFactors } = scoreDeal(set, retailerPrice(set, 50), 50, inputs());
+    assert.deepEqual(dealScoreFactors, {
+      discount: 100,
+      historicalLow: null,
+      pricePerPiece: null,
+      retirement: 0,
+      rarity: null,
+    });
+    assert.equal(dealScore, 78);
+  });
+
+  it("counts retiring sets", () => {
+    const retiring = { ...set, availability: "retiring_soon" as const };
+    assert.equal(scoreDeal(retiring, retailerPrice(retiring, 50), 50, inputs()).dealScore, 100);
+  });
+
+  it("trusts the historical low and rarity once there are enough observations", () => {
+    const few = scoreDeal(set, retailerPrice(set, 50), 50, inputs({ walmart: stats(23, 50) }));
+    assert.equal(few.dealScoreFactors.historicalLow, null);
+    assert.equal(few.dealScoreFactors.rarity, null);
+
+    const enough = scoreDeal(set, retailerPrice(set, 50), 50, inputs({ walmart: stats(24, 50) }));
+    assert.equal(enough.dealScoreFactors.historicalLow, 100);
+    assert.equal(enough.dealScoreFactors.rarity, 100);
+    assert.equal(enough.dealScore, 88);
+  });
+
+  it("takes the historical low across retailers but rarity from the deal's own retailer", () => {
+    const { dealScoreFactors } = scoreDeal(
+      set,
+      retailerPrice(set, 55),
+      45,
+      inputs({ walmart: stats(12, 60), target: stats(12, 50) })
+    );
+    assert.equal(dealScoreFactors.historicalLow, 60);
+    assert.equal(dealScoreFactors.rarity, null);
+  });
+
+  it("compares price per piece with the theme median", () => {
+    const medians = { "158": 0.1 };
+    assert.equal(scoreDeal(set, retailerPrice(set, 6), 94, inputs({}, medians)).dealScoreFactors.pricePerPiece, 100);
+    assert.equal(scoreDeal(set, retailerPrice(set, 12), 88, inputs({}, medians)).dealScoreFactors.pricePerPiece, 0);
+
+    const small = { ...set, pieces: 49 };
+    assert.equal(scoreDeal(small, retailerPrice(small, 6), 94, inputs({}, medians)).dealScoreFactors.pricePerPiece, null);
+  });
+});
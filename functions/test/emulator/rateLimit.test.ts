@@ -0,0 +1,135 @@
+/**
+ * checkRateLimit against the Firestore emulator
+ * Run with `npm run test:emulator`, which starts the emulator around mocha.
+ */
+
+import { strict as assert } from "assert";
+import { afterEach, before, beforeEach, describe, it } from "mocha";
+import * as admin from "firebase-admin";
+import { db } from "../../src/db";
+import { checkRateLimit } from "../../src/rateLimit";
+
+const MINUTE_MS = 60 * 1000;
+
+/**
+ * Delete every document in the emulator's database
+ */
+async function clearFirestore(): Promise<void> {
+  const project = process.env.GCLOUD_PROJECT;
+  const response = await fetch(
+    `http://${process.env.FIRESTORE_EMULATOR_HOST}/emulator/v1/projects/${project}/databases/(default)/documents`,
+    { method: "DELETE" }
+  );
+  assert.ok(response.ok, `Could not clear the emulator: ${response.status}`);
+}
+
+/**
+ * The only counter doc, after a test has made requests for one endpoint, scope and value
+ */
+async function onlyCounter(): Promise<admin.firestore.QueryDocumentSnapshot> {
+  const snapshot = await db.collection("rate_limits").get();
+  assert.equal(snapshot.size, 1);
+  return snapshot.docs[0];
+}
+
+describe("checkRateLimit", function () {
+  this.timeout(10000);
+
+  before(function () {
+    if (!process.env.FIRESTORE_EMULATOR_HOST || !process.env.GCLOUD_PROJECT) {
+      throw new Error("These tests need the Firestore emulator; run them with npm run test:emulator");
+    }
+  });
+
+  beforeEach(clearFirestore);
+
+  it("allows requests up to the token quota and rejects the next one", async () => {
+    for (let i = 0; i < 5; i++) {
+      assert.deepEqual(
+        await checkRateLimit("unregisterPushToken", "token", "token-a"),
+        { allowed: true, retryAfterSeconds: 0 }
+      );
+    }
+
+    const result = await checkRateLimit("unregisterPushToken", "token", "token-a");
+    assert.equal(result.allowed, false);
+  });
+
+  it("counts each endpoint, scope and value separately", async () => {
+    for (let i = 0; i < 5; i++) {
+      await checkRateLimit("unregisterPushToken", "token", "token-a");
+    }
+
+    assert.equal((await checkRateLimit("unregisterPushToken", "token", "token-a")).allowed, false);
+    assert.equal((await checkRateLimit("unregisterPushToken", "token", "token-b")).allowed, true);
+    assert.equal((await checkRateLimit("registerPushToken", "token", "token-a")).allowed, true);
+    assert.equal((await checkRateLimit("unregisterPushToken", "ip", "token-a")).allowed, true);
+  });
+
+  it("applies the per-IP quota", async () => {
+    for (let i = 0; i < 5; i++) {
+      assert.equal((await checkRateLimit("sendTestNotification", "ip", "203.0.113.7")).allowed, true);
+    }
+
+    assert.equal((await checkRateLimit("sendTestNotification", "ip", "203.0.113.7")).allowed, false);
+    assert.equal((await checkRateLimit("sendTestNotification", "ip", "203.0.113.8")).allowed, true);
+  });
+
+  it("returns the seconds left in the window for Retry-After", async () => {
+    for (let i = 0; i < 3; i++) {
+      await checkRateLimit("sendTestNotification", "token", "token-a");
+    }
+
+    // The token quota's window is an hour
+    const fresh = await checkRateLimit("sendTestNotification", "token", "token-a");
+    assert.equal(fresh.allowed, false);
+    assert.ok(fresh.retryAfterSeconds > 3590 && fresh.retryAfterSeconds <= 3600, String(fresh.retryAfterSeconds));
+
+    const counter = await onlyCounter();
+    await counter.ref.update({ windowStart: Date.now() - 60 * MINUTE_MS + 30 * 1000 });
+
+    const later = await checkRateLimit("sendTestNotification", "token", "token-a");
+    assert.equal(later.allowed, false);
+    assert.ok(later.retryAfterSeconds > 25 && later.retryAfterSeconds <= 30, String(later.retryAfterSeconds));
+  });
+
+  it("starts a new window once the old one has ended", async () => {
+    for (let i = 0; i < 5; i++) {
+      await checkRateLimit("unregisterPushToken", "token", "token-a");
+    }
+    assert.equal((await checkRateLimit("unregisterPushToken", "token", "token-a")).allowed, false);
+
+    const counter = await onlyCounter();
+    const expiredStart = Date.now() - MINUTE_MS - 1;
+    await counter.ref.update({ windowStart: expiredStart });
+
+    assert.deepEqual(
+      await checkRateLimit("unregisterPushToken", "token", "token-a"),
+      { allowed: true, retryAfterSeconds: 0 }
+    );
+
+    const renewed = (await counter.ref.get()).data();
+    assert.equal(renewed?.count, 1);
+    assert.ok(renewed?.windowStart > expiredStart + MINUTE_MS);
+    assert.ok(renewed?.expiresAt.toMillis() > Date.now());
+  });
+
+  describe("when Firestore fails", () => {
+    const runTransaction = db.runTransaction;
+
+    beforeEach(() => {
+      db.runTransaction = (() => Promise.reject(new Error("unavailable"))) as typeof db.runTransaction;
+    });
+
+    afterEach(() => {
+      db.runTransaction = runTransaction;
+    });
+
+    it("fails open", async () => {
+      assert.deepEqual(
+        await checkRateLimit("sendTestNotification", "token", "token-a"),
+        { allowed: true, retryAfterSeconds: 0 }
+      );
+    });
+  });
+});
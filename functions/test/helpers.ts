@@ -0,0 +1,55 @@
+/**
+ * Catalog sets, retailer prices and devices for the pipeline and notification tests
+ */
+
+import * as admin from "firebase-admin";
+import { LegoSet, PriceData, PushToken } from "../src/types";
+import { catalogSet } from "./retailers/fixtures";
+
+/**
+ * A catalog set with an MSRP (verified unless the confidence is overridden)
+ */
+export function setWithMsrp(setNumber: string, msrp: number, overrides: Partial<LegoSet> = {}): LegoSet {
+  return {
+    ...catalogSet(setNumber, `Set ${setNumber}`),
+    msrp,
+    msrpSource: "dataset",
+    msrpConfidence: 1,
+    ...overrides,
+  };
+}
+
+/**
+ * An in-stock price for a set, as a retailer adapter returns it
+ */
+export function retailerPrice(set: LegoSet, currentPrice: number, overrides: Partial<PriceData> = {}): PriceData {
+  return {
+    setNumber: set.setNumber,
+    setName: set.name,
+    retailer: "walmart",
+    currentPrice,
+    originalPrice: currentPrice,
+    claimedOriginalPrice: null,
+    url: `https://www.walmart.com/ip/${set.setNumber}`,
+    inStock: true,
+    lastUpdated: admin.firestore.Timestamp.now(),
+    ...overrides,
+  };
+}
+
+/**
+ * A registered device with default preferences
+ */
+export function device(overrides: Partial<PushToken> = {}): PushToken {
+  return {
+    token: "ExponentPushToken[test]",
+    platform: "ios",
+    notificationsEnabled: true,
+    minDiscountThreshold: 20,
+    watchedThemes: [],
+    watchedSets: [],
+    timezone: "UTC",
+    lastUpdated: admin.firestore.Timestamp.now(),
+    ...overrides,
+  };
+}
@@ -0,0 +1,64 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import * as admin from "firebase-admin";
+import { verifyListPrice } from "../src/listPrice";
+import { RetailerPriceStats } from "../src/types";
+import { retailerPrice, setWithMsrp } from "./helpers";
+
+function stats(observations: number, recentHigh: number): RetailerPriceStats {
+  const now = admin.firestore.Timestamp.now();
+  return { observations, discounted: 0, lowPrice: recentHigh, lowPriceAt: now, recentHigh, recentHighAt: now };
+}
+
+describe("verifyListPrice", () => {
+  const set = setWithMsrp("75192-1", 100);
+  const unverified = setWithMsrp("75192-1", 100, { msrpConfidence: 0.5 });
+
+  it("measures against the verified MSRP and keeps the retailer's claim", () => {
+    const verified = verifyListPrice(set, retailerPrice(set, 80, { originalPrice: 105, claimedOriginalPrice: 105 }), undefined);
+    assert.equal(verified.originalPrice, 100);
+    assert.equal(verified.originalPriceSource, "msrp");
+    assert.equal(verified.claimedOriginalPrice, 105);
+    assert.equal(verified.listPriceInflated, false);
+  });
+
+  it("flags a claim more than 5% above the MSRP", () => {
+    const verified = verifyListPrice(set, retailerPrice(set, 80, { claimedOriginalPrice: 106 }), undefined);
+    assert.equal(verified.listPriceInflated, true);
+    assert.deepEqual(verified.listPriceReasons, ["List price $106.00 is 6% above the $100.00 MSRP"]);
+  });
+
+  it("doesn't flag a claim that doesn't advertise a discount", () => {
+    const verified = verifyListPrice(set, retailerPrice(set, 160, { claimedOriginalPrice: 150 }), undefined);
+    assert.equal(verified.listPriceInflated, false);
+  });
+
+  it("falls back to the retailer's recent high without a verified MSRP", () => {
+    const verified = verifyListPrice(
+      unverified,
+      retailerPrice(unverified, 80, { originalPrice: 111, claimedOriginalPrice: 111 }),
+      stats(24, 100)
+    );
+    assert.equal(verified.originalPrice, 100);
+    assert.equal(verified.originalPriceSource, "history");
+    assert.deepEqual(verified.listPriceReasons, [
+      "List price $111.00 is 11% above the highest recent price here ($100.00)",
+    ]);
+  });
+
+  it("never puts the reference below the current price", () => {
+    const verified = verifyListPrice(unverified, retailerPrice(unverified, 120), stats(24, 100));
+    assert.equal(verified.originalPrice, 120);
+  });
+
+  it("leaves the retailer's price unverified with too few observations", () => {
+    const verified = verifyListPrice(
+      unverified,
+      retailerPrice(unverified, 80, { originalPrice: 111, claimedOriginalPrice: 111 }),
+      stats(23, 100)
+    );
+    assert.equal(verified.originalPrice, 111);
+    assert.equal(verified.originalPriceSource, "retailer");
+    assert.equal(verified.listPriceInflated, false);
+  });
+});
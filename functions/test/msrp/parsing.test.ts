@@ -0,0 +1,33 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { parseMsrpDataset } from "../../src/msrp/parsing";
+
+describe("parseMsrpDataset", () => {
+  it("reads prices from any of the price columns, with an optional confidence", () => {
+    const csv = [
+      "set_num,US_Price,confidence",
+      "75192-1,$849.99,",
+      "10294,679.99,0.5",
+      "42115-1,449.99,2",
+    ].join("\n");
+
+    assert.deepEqual(parseMsrpDataset(csv, "dataset", 0.95), [
+      { setNumber: "75192-1", msrp: 849.99, source: "dataset", confidence: 0.95 },
+      { setNumber: "10294-1", msrp: 679.99, source: "dataset", confidence: 0.5 },
+      { setNumber: "42115-1", msrp: 449.99, source: "dataset", confidence: 0.95 },
+    ]);
+  });
+
+  it("skips rows without a price or with an implausible one", () => {
+    const json = JSON.stringify([
+      { set_number: "75192-1", msrp: 849.99 },
+      { set_number: "21330-1", msrp: 12000 },
+      { set_number: "40000-1", msrp: "" },
+      { set_number: "not a set", msrp: 10 },
+    ]);
+
+    assert.deepEqual(parseMsrpDataset(json, "dataset", 0.95), [
+      { setNumber: "75192-1", msrp: 849.99, source: "dataset", confidence: 0.95 },
+    ]);
+  });
+});
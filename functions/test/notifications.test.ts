@@ -0,0 +1,48 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { planDelivery } from "../src/notifications";
+import { device } from "./helpers";
+
+// The default NOTIFICATION_DAILY_CAP
+const DAILY_CAP = 10;
+
+describe("notifications", () => {
+  describe("planDelivery", () => {
+    const now = new Date("2026-01-15T12:00:00Z");
+
+    it("sends and counts an alert under the daily cap", () => {
+      assert.deepEqual(planDelivery(device(), { day: "2026-01-15", count: 3 }, now), {
+        cap: { day: "2026-01-15", count: 4 },
+      });
+      assert.deepEqual(planDelivery(device(), undefined, now), { cap: { day: "2026-01-15", count: 1 } });
+    });
+
+    it("sends the last alert the cap allows", () => {
+      assert.deepEqual(planDelivery(device(), { day: "2026-01-15", count: DAILY_CAP - 1 }, now), {
+        cap: { day: "2026-01-15", count: DAILY_CAP },
+      });
+    });
+
+    it("starts a new count on a new local day", () => {
+      assert.deepEqual(planDelivery(device(), { day: "2026-01-14", count: DAILY_CAP }, now), {
+        cap: { day: "2026-01-15", count: 1 },
+      });
+    });
+
+    it("holds alerts past the cap until the next day's digest hour", () => {
+      const plan = planDelivery(device(), { day: "2026-01-15", count: DAILY_CAP }, now);
+      assert.deepEqual(plan, { reason: "daily_cap", deferUntil: new Date("2026-01-16T09:00:00Z") });
+    });
+
+    it("leaves the digest an hour to pick up held alerts for devices with one", () => {
+      const plan = planDelivery(device({ digestCadence: "daily" }), { day: "2026-01-15", count: DAILY_CAP }, now);
+      assert.deepEqual(plan, { reason: "daily_cap", deferUntil: new Date("2026-01-16T10:00:00Z") });
+    });
+
+    it("holds alerts during quiet hours before checking the cap", () => {
+      const quiet = device({ quietHoursStart: 22, quietHoursEnd: 7 });
+      const plan = planDelivery(quiet, { day: "2026-01-15", count: DAILY_CAP }, new Date("2026-01-15T23:30:00Z"));
+      assert.deepEqual(plan, { reason: "quiet_hours", deferUntil: new Date("2026-01-16T07:00:00Z") });
+    });
+  });
+});
@@ -0,0 +1,31 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { buildDeal } from "../src/pricePipeline";
+import { DealScoreInputs } from "../src/dealScore";
+import { retailerPrice, setWithMsrp } from "./helpers";
+
+describe("buildDeal", () => {
+  const scoring: DealScoreInputs = { stats: new Map(), themeMedians: {} };
+  const set = setWithMsrp("75192-1", 100);
+
+  it("builds a deal at the minimum discount, measured against the MSRP", () => {
+    const deal = buildDeal(set, retailerPrice(set, 90, { originalPrice: 120 }), scoring);
+    assert.equal(deal?.percentOff, 10);
+    assert.equal(deal?.originalPrice, 100);
+    assert.equal(deal?.savings, 10);
+  });
+
+  it("skips discounts that round below the minimum", () => {
+    assert.equal(buildDeal(set, retailerPrice(set, 90.6), scoring), null);
+    assert.notEqual(buildDeal(set, retailerPrice(set, 90.4), scoring), null);
+  });
+
+  it("skips out-of-stock prices", () => {
+    assert.equal(buildDeal(set, retailerPrice(set, 50, { inStock: false }), scoring), null);
+  });
+
+  it("skips sets without a verified MSRP", () => {
+    const unverified = setWithMsrp("75192-1", 100, { msrpConfidence: 0.5 });
+    assert.equal(buildDeal(unverified, retailerPrice(unverified, 50), scoring), null);
+  });
+});
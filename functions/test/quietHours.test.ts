@@ -0,0 +1,63 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { getNextDayDigestTime, getQuietHoursEnd, isHourInWindow } from "../src/quietHours";
+import { device } from "./helpers";
+
+describe("quiet hours", () => {
+  describe("isHourInWindow", () => {
+    it("handles a window within one day", () => {
+      assert.equal(isHourInWindow(13, 13, 15), true);
+      assert.equal(isHourInWindow(14, 13, 15), true);
+      assert.equal(isHourInWindow(15, 13, 15), false);
+      assert.equal(isHourInWindow(12, 13, 15), false);
+    });
+
+    it("handles a window crossing midnight", () => {
+      for (const hour of [22, 23, 0, 6]) {
+        assert.equal(isHourInWindow(hour, 22, 7), true, String(hour));
+      }
+      for (const hour of [7, 12, 21]) {
+        assert.equal(isHourInWindow(hour, 22, 7), false, String(hour));
+      }
+    });
+  });
+
+  describe("getQuietHoursEnd", () => {
+    const quiet = device({ quietHoursStart: 22, quietHoursEnd: 7 });
+
+    it("returns the end of a window crossing midnight", () => {
+      const end = getQuietHoursEnd(quiet, new Date("2026-01-15T23:30:00Z"));
+      assert.equal(end?.toISOString(), "2026-01-16T07:00:00.000Z");
+    });
+
+    it("returns null once the window has ended", () => {
+      assert.equal(getQuietHoursEnd(quiet, new Date("2026-01-16T07:00:00Z")), null);
+    });
+
+    it("uses the device's timezone", () => {
+      const chicago = { ...quiet, timezone: "America/Chicago" };
+      // 22:30 in Chicago
+      const end = getQuietHoursEnd(chicago, new Date("2026-01-15T04:30:00Z"));
+      assert.equal(end?.toISOString(), "2026-01-15T13:00:00.000Z");
+    });
+
+    it("treats a window that starts and ends at the same hour as off", () => {
+      const empty = device({ quietHoursStart: 22, quietHoursEnd: 22 });
+      assert.equal(getQuietHoursEnd(empty, new Date("2026-01-15T22:30:00Z")), null);
+    });
+  });
+
+  describe("getNextDayDigestTime", () => {
+    it("defaults to 9:00 on the next local day", () => {
+      const time = getNextDayDigestTime(device(), new Date("2026-01-15T23:00:00Z"));
+      assert.equal(time.toISOString(), "2026-01-16T09:00:00.000Z");
+    });
+
+    it("uses the device's digest hour and timezone", () => {
+      const chicago = device({ timezone: "America/Chicago", digestHour: 18 });
+      // Still January 14th in Chicago
+      const time = getNextDayDigestTime(chicago, new Date("2026-01-15T04:30:00Z"));
+      assert.equal(time.toISOString(), "2026-01-16T00:00:00.000Z");
+    });
+  });
+});
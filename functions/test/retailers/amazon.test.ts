@@ -0,0 +1,27 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { amazonAdapter } from "../../src/retailers/amazon";
+import { loadFixture, MILLENNIUM_FALCON, SMALL_FALCON, UNLISTED_SET } from "./fixtures";
+
+describe("amazonAdapter", () => {
+  const page = loadFixture("amazon-search.html");
+
+  it("skips results for other sets and reads the matching one", () => {
+    assert.deepEqual(amazonAdapter.parse(page, MILLENNIUM_FALCON), {
+      currentPrice: 759.99,
+      originalPrice: 849.99,
+      inStock: true,
+      url: "https://www.amazon.com/dp/B075SDMMMV",
+    });
+  });
+
+  it("leaves the list price out when the result has none", () => {
+    const quote = amazonAdapter.parse(page, SMALL_FALCON);
+    assert.equal(quote?.currentPrice, 84.99);
+    assert.equal(quote?.originalPrice, undefined);
+  });
+
+  it("returns null when no result names the set", () => {
+    assert.equal(amazonAdapter.parse(page, UNLISTED_SET), null);
+  });
+});
@@ -0,0 +1,27 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { bestBuyAdapter } from "../../src/retailers/bestBuy";
+import { loadFixture, MILLENNIUM_FALCON, SMALL_FALCON, UNLISTED_SET } from "./fixtures";
+
+describe("bestBuyAdapter", () => {
+  const body = loadFixture("bestbuy-products.json");
+
+  it("reads the matching product from the Products API response", () => {
+    assert.deepEqual(bestBuyAdapter.parse(body, MILLENNIUM_FALCON), {
+      currentPrice: 799.99,
+      originalPrice: 849.99,
+      inStock: false,
+      url: "https://api.bestbuy.com/click/-/6202244/pdp",
+    });
+  });
+
+  it("leaves the list price out when it matches the sale price", () => {
+    const quote = bestBuyAdapter.parse(body, SMALL_FALCON);
+    assert.equal(quote?.originalPrice, undefined);
+    assert.equal(quote?.inStock, true);
+  });
+
+  it("returns null when no product names the set", () => {
+    assert.equal(bestBuyAdapter.parse(body, UNLISTED_SET), null);
+  });
+});
@@ -0,0 +1,36 @@
+/**
+ * Saved retailer payloads and a catalog set to parse them for
+ */
+
+import { readFileSync } from "fs";
+import { join } from "path";
+import { LegoSet } from "../../src/types";
+
+const FIXTURES_DIR = join(__dirname, "..", "fixtures", "retailers");
+
+/**
+ * Read a saved payload from test/fixtures/retailers
+ */
+export function loadFixture(name: string): string {
+  return readFileSync(join(FIXTURES_DIR, name), "utf8");
+}
+
+/**
+ * A catalog set as the price pipeline passes it to the adapters
+ */
+export function catalogSet(setNumber: string, name: string): LegoSet {
+  return {
+    setNumber,
+    name,
+    price: 0,
+    imageUrl: "",
+    url: "",
+    availability: "available",
+  };
+}
+
+export const MILLENNIUM_FALCON = catalogSet("75192-1", "Millennium Falcon");
+// Listed on the same pages, with a set number that contains neither of the others
+export const SMALL_FALCON = catalogSet("75375-1", "Millennium Falcon");
+// Not on any of the saved pages
+export const UNLISTED_SET = catalogSet("10294-1", "Titanic");
@@ -0,0 +1,52 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import {
+  kohlsAdapter,
+  gamestopAdapter,
+  shopDisneyAdapter,
+  macysAdapter,
+  barnesNobleAdapter,
+  samsClubAdapter,
+  walgreensAdapter,
+} from "../../src/retailers/jsonLdRetailers";
+import { loadFixture, MILLENNIUM_FALCON, SMALL_FALCON, UNLISTED_SET } from "./fixtures";
+
+describe("JSON-LD adapters", () => {
+  const page = loadFixture("jsonld-search.html");
+  const adapters = [
+    kohlsAdapter,
+    gamestopAdapter,
+    shopDisneyAdapter,
+    macysAdapter,
+    barnesNobleAdapter,
+    samsClubAdapter,
+    walgreensAdapter,
+  ];
+
+  for (const adapter of adapters) {
+    describe(adapter.id, () => {
+      it("builds a search URL on its own domain", () => {
+        const url = new URL(adapter.buildRequestUrl(MILLENNIUM_FALCON));
+        assert.ok(url.hostname.endsWith(adapter.domain));
+        assert.match(url.href, /75192/);
+      });
+
+      it("finds the product by MPN in an ItemList and reads the strikethrough price", () => {
+        assert.deepEqual(adapter.parse(page, MILLENNIUM_FALCON), {
+          currentPrice: 719.99,
+          originalPrice: 849.99,
+          inStock: true,
+          url: `https://www.${adapter.domain}/product/lego-star-wars-ucs-millennium-falcon-75192`,
+        });
+      });
+    });
+  }
+
+  it("finds a product by SKU", () => {
+    assert.equal(kohlsAdapter.parse(page, SMALL_FALCON)?.currentPrice, 84.99);
+  });
+
+  it("returns null when no product names the set", () => {
+    assert.equal(kohlsAdapter.parse(page, UNLISTED_SET), null);
+  });
+});
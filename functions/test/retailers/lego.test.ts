@@ -0,0 +1,25 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { legoAdapter } from "../../src/retailers/lego";
+import { loadFixture, MILLENNIUM_FALCON } from "./fixtures";
+
+describe("legoAdapter", () => {
+  const page = loadFixture("lego-75192.html");
+
+  it("builds the product page URL from the set number", () => {
+    assert.equal(legoAdapter.buildRequestUrl(MILLENNIUM_FALCON), "https://www.lego.com/en-us/product/75192");
+  });
+
+  it("reads the Product JSON-LD and ignores the breadcrumbs", () => {
+    assert.deepEqual(legoAdapter.parse(page, MILLENNIUM_FALCON), {
+      currentPrice: 849.99,
+      originalPrice: undefined,
+      inStock: true,
+      url: "https://www.lego.com/en-us/product/millennium-falcon-75192",
+    });
+  });
+
+  it("returns null for a page without a Product node", () => {
+    assert.equal(legoAdapter.parse("<html><body>Page not found</body></html>", MILLENNIUM_FALCON), null);
+  });
+});
@@ -0,0 +1,54 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { isInStockAvailability, mentionsSetNumber, parsePrice } from "../../src/retailers/parsing";
+import { MILLENNIUM_FALCON } from "./fixtures";
+
+describe("retailer parsing helpers", () => {
+  describe("isInStockAvailability", () => {
+    it("accepts in-stock values", () => {
+      for (const value of ["https://schema.org/InStock", "IN_STOCK", "LimitedAvailability", "OnlineOnly", "Available"]) {
+        assert.equal(isInStockAvailability(value), true, value);
+      }
+    });
+
+    it("rejects out-of-stock values, including ones that contain \"available\"", () => {
+      for (const value of [
+        "https://schema.org/OutOfStock",
+        "OUT_OF_STOCK",
+        "NOT_AVAILABLE",
+        "Unavailable",
+        "Not Available",
+        "SoldOut",
+        "https://schema.org/Discontinued",
+      ]) {
+        assert.equal(isInStockAvailability(value), false, value);
+      }
+    });
+
+    it("rejects missing values", () => {
+      assert.equal(isInStockAvailability(undefined), false);
+      assert.equal(isInStockAvailability(""), false);
+    });
+  });
+
+  describe("parsePrice", () => {
+    it("parses numbers and formatted strings", () => {
+      assert.equal(parsePrice(849.99), 849.99);
+      assert.equal(parsePrice("$1,049.99"), 1049.99);
+    });
+
+    it("rejects zero and unparseable values", () => {
+      assert.equal(parsePrice(0), null);
+      assert.equal(parsePrice("Price unavailable"), null);
+      assert.equal(parsePrice(null), null);
+    });
+  });
+
+  describe("mentionsSetNumber", () => {
+    it("matches the set number only as a whole number", () => {
+      assert.equal(mentionsSetNumber("LEGO Millennium Falcon 75192", MILLENNIUM_FALCON), true);
+      assert.equal(mentionsSetNumber("LEGO 751920", MILLENNIUM_FALCON), false);
+      assert.equal(mentionsSetNumber("LEGO 175192", MILLENNIUM_FALCON), false);
+    });
+  });
+});
@@ -0,0 +1,25 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { targetAdapter } from "../../src/retailers/target";
+import { loadFixture, MILLENNIUM_FALCON, UNLISTED_SET } from "./fixtures";
+
+describe("targetAdapter", () => {
+  const body = loadFixture("target-search.json");
+
+  it("reads the matching product from the RedSky response", () => {
+    assert.deepEqual(targetAdapter.parse(body, MILLENNIUM_FALCON), {
+      currentPrice: 764.99,
+      originalPrice: 849.99,
+      inStock: true,
+      url: "https://www.target.com/p/lego-star-wars-ucs-millennium-falcon-75192/-/A-53096234",
+    });
+  });
+
+  it("returns null when no product names the set", () => {
+    assert.equal(targetAdapter.parse(body, UNLISTED_SET), null);
+  });
+
+  it("returns null for a body that isn't JSON", () => {
+    assert.equal(targetAdapter.parse("<html>Access Denied</html>", MILLENNIUM_FALCON), null);
+  });
+});
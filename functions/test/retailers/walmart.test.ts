@@ -0,0 +1,29 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { walmartAdapter } from "../../src/retailers/walmart";
+import { loadFixture, MILLENNIUM_FALCON, UNLISTED_SET } from "./fixtures";
+
+describe("walmartAdapter", () => {
+  it("reads the matching product from __NEXT_DATA__, skipping ads and other sets", () => {
+    assert.deepEqual(walmartAdapter.parse(loadFixture("walmart-search.html"), MILLENNIUM_FALCON), {
+      currentPrice: 799.99,
+      originalPrice: 849.99,
+      inStock: true,
+      url: "https://www.walmart.com/ip/LEGO-Star-Wars-UCS-Millennium-Falcon-75192/5002",
+    });
+  });
+
+  it("reports NOT_AVAILABLE products as out of stock", () => {
+    const quote = walmartAdapter.parse(loadFixture("walmart-search-unavailable.html"), MILLENNIUM_FALCON);
+    assert.equal(quote?.currentPrice, 849.99);
+    assert.equal(quote?.inStock, false);
+  });
+
+  it("returns null when no product names the set", () => {
+    assert.equal(walmartAdapter.parse(loadFixture("walmart-search.html"), UNLISTED_SET), null);
+  });
+
+  it("returns null for a page without search data", () => {
+    assert.equal(walmartAdapter.parse("<html><body>Robot check</body></html>", MILLENNIUM_FALCON), null);
+  });
+});
@@ -0,0 +1,67 @@
+import { strict as assert } from "assert";
+import { describe, it } from "mocha";
+import { getAvailability, parseRetirementDate, parseRetirementList } from "../src/retirement";
+import { catalogSet } from "./retailers/fixtures";
+
+describe("retirement", () => {
+  describe("parseRetirementDate", () => {
+    it("resolves a year or a month to its last day", () => {
+      assert.equal(parseRetirementDate("2025"), "2025-12-31");
+      assert.equal(parseRetirementDate(2025), "2025-12-31");
+      assert.equal(parseRetirementDate("2025-02"), "2025-02-28");
+      assert.equal(parseRetirementDate("2024-02"), "2024-02-29");
+      assert.equal(parseRetirementDate("Dec 2025"), "2025-12-31");
+      assert.equal(parseRetirementDate("June 2026"), "2026-06-30");
+    });
+
+    it("keeps full dates", () => {
+      assert.equal(parseRetirementDate("2025-06-15"), "2025-06-15");
+      assert.equal(parseRetirementDate("2025-06-15T12:00:00Z"), "2025-06-15");
+      assert.equal(parseRetirementDate("December 30, 2025"), "2025-12-30");
+    });
+
+    it("rejects values that aren't dates", () => {
+      for (const value of ["", "soon", "Smarch 2025", null, undefined]) {
+        assert.equal(parseRetirementDate(value), null, String(value));
+      }
+    });
+  });
+
+  describe("parseRetirementList", () => {
+    it("reads set numbers, dates and per-row sources, skipping unusable rows", () => {
+      const csv = [
+        "Set_Num,Expected_Retirement,Source",
+        "75192,Dec 2025,",
+        "10294-1,\"December 30, 2025\",brickfanatics",
+        "abc,2025,",
+        "21330-1,soon,",
+      ].join("\n");
+
+      assert.deepEqual(parseRetirementList(csv, "list"), [
+        { setNumber: "75192-1", retirementDate: "2025-12-31", source: "list" },
+        { setNumber: "10294-1", retirementDate: "2025-12-30", source: "brickfanatics" },
+      ]);
+    });
+  });
+
+  describe("getAvailability", () => {
+    const now = new Date("2026-01-01T00:00:00Z");
+    const set = { ...catalogSet("75192-1", "Millennium Falcon"), year: 2017 };
+
+    it("marks sets retiring within 120 days", () => {
+      assert.equal(getAvailability({ ...set, retirementDate: "2026-05-01" }, now), "retiring_soon");
+      assert.equal(getAvailability({ ...set, retirementDate: "2026-05-02" }, now), "available");
+    });
+
+    it("marks sets past their retirement date or removed as sold out", () => {
+      assert.equal(getAvailability({ ...set, retirementDate: "2026-01-01" }, now), "sold_out");
+      assert.equal(getAvailability({ ...set, removed: true }, now), "sold_out");
+    });
+
+    it("releases coming soon sets in their year", () => {
+      const upcoming = { ...set, year: 2026, availability: "coming_soon" as const };
+      assert.equal(getAvailability(upcoming, now), "available");
+      assert.equal(getAvailability({ ...upcoming, year: 2027, retirementDate: "2029-12-31" }, now), "coming_soon");
+    });
+  });
+});
@@ -3,9 +3,11 @@
 // ============================================
 // The main card that shows a LEGO deal.
 // Displays set image, name, prices, discount badge,
-// and retailer info. Tapping opens the set detail.
+// deal score, and retailer info. Tapping opens the set detail.
+// Retailers caught inflating their list price get a warning.
+// Sets sold at several retailers can expand a price comparison.
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   View,
   Text,
@@ -13,9 +15,9 @@ import {
   Pressable,
   Linking,
 } from 'react-native';
-import { ExternalLink } from 'lucide-react-native';
-import { Deal } from '../types';
-import { COLORS, ThemeColors } from '../constants/colors';
+import { ExternalLink, AlertTriangle, ChevronDown, ChevronUp } from 'lucide-react-native';
+import { Deal, RetailerOffer } from '../types';
+import { COLORS, ThemeColors, getDealRatingColor } from '../constants/colors';
 import { SPACING, SHADOWS, BORDER_RADIUS } from '../constants/theme';
 import {
   formatCurrency,
@@ -23,6 +25,7 @@ import {
   formatPieceCount,
   formatRelativeTime,
 } from '../utils/formatters';
+import { getDealRating } from '../utils/priceCalculations';
 import { SetImage } from './SetImage';
 import { DiscountBadge } from './DiscountBadge';
 import { RetailerChip } from './RetailerChip';
@@ -56,20 +59,48 @@ export function DealCard({
 }: DealCardProps) {
   const colors = useThemeColors();
   const styles = createStyles(colors);
+  const [showOffers, setShowOffers] = useState(false);
 
-  const { set, price, percentOff, savings } = deal;
+  const { set, price, percentOff, savings, dealScore } = deal;
+  const scoreColor = getDealRatingColor(getDealRating(deal), colors);
 
-  // Open the retailer's product page
-  const handleBuyPress = async () => {
-    if (price.url) {
+  const offers = deal.offers ?? [];
+
+  // Open a retailer's product page
+  const openUrl = async (url: string) => {
+    if (url) {
       try {
-        await Linking.openURL(price.url);
+        await Linking.openURL(url);
       } catch (error) {
         console.error('Failed to open URL:', error);
       }
     }
   };
 
+  const handleBuyPress = () => openUrl(price.url);
+
+  const renderOffer = (offer: RetailerOffer, index: number) => (
+    <Pressable
+      key={offer.price.retailer}
+      style={({ pressed }) => [styles.offerRow, pressed && styles.offerRowPressed]}
+      onPress={() => openUrl(offer.price.url)}
+      accessibilityRole="link"
+      accessibilityLabel={`${formatCurrency(offer.price.currentPrice)} at ${offer.price.retailer}` +
+        (offer.price.inStock ? '' : ', out of stock')}
+    >
+      <RetailerChip retailerId={offer.price.retailer} size="small" />
+      <View style={styles.offerPrice}>
+        {index === 0 && <Text style={styles.bestTag}>Best</Text>}
+        <Text style={[styles.offerPriceText, !offer.price.inStock && styles.offerUnavailable]}>
+          {formatCurrency(offer.price.currentPrice)}
+        </Text>
+        <Text style={[styles.offerDetail, offer.isDeal && styles.offerDetailDeal]}>
+          {!offer.price.inStock ? 'Out of stock' : offer.percentOff > 0 ? `${offer.percentOff}% off` : 'No discount'}
+        </Text>
+      </View>
+    </Pressable>
+  );
+
   return (
     <Pressable
       style={({ pressed }) => [
@@ -78,11 +109,19 @@ export function DealCard({
       ]}
       onPress={onPress}
       accessibilityRole="button"
-      accessibilityLabel={`${set.name}, ${percentOff}% off at ${price.retailer}`}
+      accessibilityLabel={`${set.name}, ${percentOff}% off at ${price.retailer}` +
+        (dealScore !== undefined ? `, deal score ${dealScore}` : '')}
     >
-      {/* Discount badge in corner */}
+      {/* Discount badge and deal score in corner */}
       <View style={styles.badgeContainer}>
         <DiscountBadge percentOff={percentOff} size="medium" />
+        {dealScore !== undefined && (
+          <View style={[styles.scoreBadge, { borderColor: scoreColor }]}>
+            <Text style={[styles.scoreText, { color: scoreColor }]}>
+              Score {dealScore}
+            </Text>
+          </View>
+        )}
       </View>
 
       {/* Main content row */}
@@ -128,6 +167,17 @@ export function DealCard({
             </Text>
           )}
 
+          {/* Retailer's "was" price is higher than the MSRP or its recent prices */}
+          {price.listPriceInflated && (
+            <View style={styles.inflatedWarning}>
+              <AlertTriangle size={12} color={colors.warning} />
+              <Text style={styles.inflatedWarningText}>
+                Inflated list price
+                {price.claimedOriginalPrice ? ` (claims ${formatCurrency(price.claimedOriginalPrice)})` : ''}
+              </Text>
+            </View>
+          )}
+
           {/* Bottom row: retailer + buy button */}
           <View style={styles.bottomRow}>
             <RetailerChip retailerId={price.retailer} size="small" />
@@ -155,6 +205,24 @@ export function DealCard({
         </View>
       </View>
 
+      {/* Every retailer's price for the set, best first */}
+      {offers.length > 1 && (
+        <View style={styles.offers}>
+          <Pressable
+            style={styles.offersToggle}
+            onPress={() => setShowOffers(!showOffers)}
+            accessibilityRole="button"
+            accessibilityState={{ expanded: showOffers }}
+          >
+            <Text style={styles.offersToggleText}>Compare {offers.length} retailers</Text>
+            {showOffers
+              ? <ChevronUp size={14} color={colors.textSecondary} />
+              : <ChevronDown size={14} color={colors.textSecondary} />}
+          </Pressable>
+          {showOffers && offers.map(renderOffer)}
+        </View>
+      )}
+
       {/* Stock status indicator */}
       {!price.inStock && (
         <View style={styles.outOfStock}>
@@ -183,6 +251,19 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     top: SPACING.sm,
     right: SPACING.sm,
     zIndex: 1,
+    alignItems: 'flex-end',
+    gap: 4,
+  },
+  scoreBadge: {
+    borderWidth: 1,
+    borderRadius: 4,
+    paddingHorizontal: 6,
+    paddingVertical: 1,
+    backgroundColor: colors.cardBackground,
+  },
+  scoreText: {
+    fontSize: 10,
+    fontWeight: '700',
   },
   content: {
     flexDirection: 'row',
@@ -225,6 +306,17 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     color: colors.dealGood,
     marginBottom: 8,
   },
+  inflatedWarning: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+    marginBottom: 8,
+  },
+  inflatedWarningText: {
+    fontSize: 11,
+    fontWeight: '600',
+    color: colors.warning,
+  },
   bottomRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -253,6 +345,61 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     color: colors.textTertiary,
     marginTop: 8,
   },
+  offers: {
+    marginTop: SPACING.md,
+    borderTopWidth: 1,
+    borderTopColor: colors.border,
+    paddingTop: SPACING.sm,
+  },
+  offersToggle: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 4,
+  },
+  offersToggleText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  offerRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    paddingVertical: 6,
+  },
+  offerRowPressed: {
+    opacity: 0.7,
+  },
+  offerPrice: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 8,
+  },
+  bestTag: {
+    fontSize: 10,
+    fontWeight: '700',
+    color: colors.dealGood,
+  },
+  offerPriceText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  offerUnavailable: {
+    color: colors.textTertiary,
+    textDecorationLine: 'line-through',
+  },
+  offerDetail: {
+    fontSize: 11,
+    color: colors.textTertiary,
+    minWidth: 64,
+    textAlign: 'right',
+  },
+  offerDetailDeal: {
+    color: colors.dealGood,
+    fontWeight: '600',
+  },
   outOfStock: {
     position: 'absolute',
     top: 0,
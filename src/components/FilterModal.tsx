@@ -5,7 +5,7 @@
 // Allows users to filter by discount %, theme,
 // retailer, price range, and stock status.
 
-import React from 'react';
+import React, { useMemo } from 'react';
 import {
   View,
   Text,
@@ -22,6 +22,7 @@ import { SPACING, BORDER_RADIUS, SHADOWS } from '../constants/theme';
 import { POPULAR_THEMES } from '../constants/theme';
 import { ALL_RETAILER_IDS, RETAILERS } from '../constants/retailers';
 import { useFiltersStore } from '../store/useFiltersStore';
+import { useDealsStore, useDealThemes } from '../store/useDealsStore';
 import { RetailerId } from '../types';
 
 /**
@@ -63,6 +64,19 @@ export function FilterModal({ visible, onClose }: FilterModalProps) {
     hasActiveFilters,
   } = useFiltersStore();
 
+  const allThemes = useDealsStore((state) => state.themes);
+  const dealThemes = useDealThemes();
+
+  // Themes with deals, plus any still selected; popular themes until the list loads
+  const themeOptions = useMemo(() => {
+    if (dealThemes.length === 0) return POPULAR_THEMES;
+
+    const selectedExtras = allThemes.filter(
+      (theme) => themes.includes(theme.id) && !dealThemes.some((t) => t.id === theme.id)
+    );
+    return [...dealThemes, ...selectedExtras];
+  }, [allThemes, dealThemes, themes]);
+
   return (
     <Modal
       visible={visible}
@@ -175,7 +189,7 @@ export function FilterModal({ visible, onClose }: FilterModalProps) {
                   : `${themes.length} selected`}
               </Text>
               <View style={styles.chipGrid}>
-                {POPULAR_THEMES.map((theme) => (
+                {themeOptions.map((theme) => (
                   <Pressable
                     key={theme.id}
                     style={[
@@ -0,0 +1,432 @@
+// ============================================
+// PRICE HISTORY CHART COMPONENT
+// ============================================
+// Line chart of a set's price over time, one line
+// per retailer. Shows MSRP and the all-time low,
+// and lets the user tap the chart to inspect prices.
+
+import React, { useMemo, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  Pressable,
+  useWindowDimensions,
+} from 'react-native';
+import {
+  VictoryChart,
+  VictoryLine,
+  VictoryAxis,
+  VictoryScatter,
+  VictoryVoronoiContainer,
+} from 'victory-native';
+import { TrendingDown } from 'lucide-react-native';
+
+import { PriceHistoryPoint, RetailerId } from '../types';
+import { ThemeColors } from '../constants/colors';
+import { SPACING, BORDER_RADIUS } from '../constants/theme';
+import { RETAILERS, getRetailerName } from '../constants/retailers';
+import { formatCurrency, formatDate, formatShortDate } from '../utils/formatters';
+import { findAllTimeLow } from '../utils/priceCalculations';
+import { useThemeColors } from '../hooks/useTheme';
+import { LoadingSkeleton } from './LoadingSkeleton';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Selectable chart ranges
+ */
+const RANGES = [
+  { days: 30, label: '30D' },
+  { days: 90, label: '90D' },
+  { days: 365, label: '1Y' },
+] as const;
+
+type RangeDays = (typeof RANGES)[number]['days'];
+
+/**
+ * A plotted point (Victory reads x/y)
+ */
+interface ChartPoint {
+  x: Date;
+  y: number;
+  retailer: RetailerId;
+}
+
+/**
+ * Props for the PriceHistoryChart component
+ */
+interface PriceHistoryChartProps {
+  /** Full price history for the set, any order */
+  history: PriceHistoryPoint[];
+  /** Official MSRP, drawn as a reference line */
+  msrp: number | null;
+  /** Whether history is still loading */
+  isLoading?: boolean;
+}
+
+/**
+ * Build one step series per retailer for the selected range.
+ * History only records changes, so each line starts from the last
+ * price before the range and is carried forward to today.
+ */
+function buildSeries(
+  history: PriceHistoryPoint[],
+  days: number,
+  now: number
+): Array<{ retailer: RetailerId; points: ChartPoint[] }> {
+  const start = now - days * DAY_MS;
+  const byRetailer = new Map<RetailerId, PriceHistoryPoint[]>();
+
+  for (const point of history) {
+    const list = byRetailer.get(point.retailer) || [];
+    list.push(point);
+    byRetailer.set(point.retailer, list);
+  }
+
+  const series: Array<{ retailer: RetailerId; points: ChartPoint[] }> = [];
+
+  byRetailer.forEach((list, retailer) => {
+    const sorted = [...list].sort((a, b) => a.date.getTime() - b.date.getTime());
+    const before = sorted.filter((p) => p.date.getTime() < start);
+    const inRange = sorted.filter((p) => p.date.getTime() >= start);
+
+    const points: ChartPoint[] = inRange.map((p) => ({ x: p.date, y: p.price, retailer }));
+
+    const lastBefore = before[before.length - 1];
+    if (lastBefore) {
+      points.unshift({ x: new Date(start), y: lastBefore.price, retailer });
+    }
+    if (points.length === 0) return;
+
+    const last = points[points.length - 1];
+    points.push({ x: new Date(now), y: last.y, retailer });
+
+    series.push({ retailer, points });
+  });
+
+  return series;
+}
+
+/**
+ * PriceHistoryChart - Per-retailer price history with range selector
+ *
+ * Usage:
+ * <PriceHistoryChart history={history} msrp={set.msrp} />
+ */
+export function PriceHistoryChart({
+  history,
+  msrp,
+  isLoading = false,
+}: PriceHistoryChartProps) {
+  const colors = useThemeColors();
+  const styles = createStyles(colors);
+  const { width } = useWindowDimensions();
+
+  const [rangeDays, setRangeDays] = useState<RangeDays>(90);
+  const [activePoints, setActivePoints] = useState<ChartPoint[]>([]);
+
+  const now = useMemo(() => Date.now(), [history]);
+  const series = useMemo(() => buildSeries(history, rangeDays, now), [history, rangeDays, now]);
+  const allTimeLow = useMemo(() => findAllTimeLow(history), [history]);
+
+  const chartWidth = width - SPACING.lg * 2;
+  const rangeStart = new Date(now - rangeDays * DAY_MS);
+  const lowInRange = allTimeLow && allTimeLow.date >= rangeStart ? allTimeLow : null;
+
+  // Keep the MSRP and all-time low inside the visible price range
+  const prices = series.flatMap((s) => s.points.map((p) => p.y));
+  if (msrp) prices.push(msrp);
+  const minY = prices.length > 0 ? Math.min(...prices) : 0;
+  const maxY = prices.length > 0 ? Math.max(...prices) : 0;
+  const padding = Math.max((maxY - minY) * 0.1, 5);
+
+  const selectRange = (days: RangeDays) => {
+    setRangeDays(days);
+    setActivePoints([]);
+  };
+
+  if (isLoading) {
+    return <LoadingSkeleton height={260} borderRadius={BORDER_RADIUS.md} />;
+  }
+
+  return (
+    <View style={styles.container}>
+      {/* Range selector */}
+      <View style={styles.rangeRow}>
+        {RANGES.map((range) => (
+          <Pressable
+            key={range.days}
+            style={[
+              styles.rangeButton,
+              rangeDays === range.days && styles.rangeButtonActive,
+            ]}
+            onPress={() => selectRange(range.days)}
+            accessibilityRole="button"
+            accessibilityState={{ selected: rangeDays === range.days }}
+          >
+            <Text
+              style={[
+                styles.rangeButtonText,
+                rangeDays === range.days && styles.rangeButtonTextActive,
+              ]}
+            >
+              {range.label}
+            </Text>
+          </Pressable>
+        ))}
+      </View>
+
+      {series.length === 0 ? (
+        <View style={styles.empty}>
+          <Text style={styles.emptyText}>
+            Not enough price history yet. Check back soon!
+          </Text>
+        </View>
+      ) : (
+        <>
+          <VictoryChart
+            width={chartWidth}
+            height={220}
+            scale={{ x: 'time', y: 'linear' }}
+            domain={{
+              x: [rangeStart, new Date(now)],
+              y: [Math.max(0, minY - padding), maxY + padding],
+            }}
+            padding={{ top: 16, bottom: 32, left: 48, right: 16 }}
+            containerComponent={
+              <VictoryVoronoiContainer
+                voronoiDimension="x"
+                voronoiBlacklist={['msrp', 'allTimeLow']}
+                onActivated={(points) => setActivePoints(points as ChartPoint[])}
+              />
+            }
+          >
+            <VictoryAxis
+              tickCount={4}
+              tickFormat={(t: Date) => formatShortDate(new Date(t))}
+              style={{
+                axis: { stroke: colors.border },
+                tickLabels: { fill: colors.textTertiary, fontSize: 10 },
+              }}
+            />
+            <VictoryAxis
+              dependentAxis
+              tickCount={4}
+              tickFormat={(t: number) => `$${Math.round(t)}`}
+              style={{
+                axis: { stroke: colors.border },
+                grid: { stroke: colors.border, strokeDasharray: '4,4' },
+                tickLabels: { fill: colors.textTertiary, fontSize: 10 },
+              }}
+            />
+
+            {/* MSRP reference line */}
+            {msrp && (
+              <VictoryLine
+                name="msrp"
+                data={[
+                  { x: rangeStart, y: msrp },
+                  { x: new Date(now), y: msrp },
+                ]}
+                style={{ data: { stroke: colors.textTertiary, strokeDasharray: '6,4', strokeWidth: 1 } }}
+              />
+            )}
+
+            {/* One line per retailer */}
+            {series.map((s) => (
+              <VictoryLine
+                key={s.retailer}
+                name={s.retailer}
+                data={s.points}
+                interpolation="stepAfter"
+                style={{ data: { stroke: RETAILERS[s.retailer]?.color || colors.textSecondary, strokeWidth: 2 } }}
+              />
+            ))}
+
+            {/* All-time low marker */}
+            {lowInRange && (
+              <VictoryScatter
+                name="allTimeLow"
+                data={[{ x: lowInRange.date, y: lowInRange.price }]}
+                size={5}
+                style={{ data: { fill: colors.dealGood, stroke: colors.cardBackground, strokeWidth: 2 } }}
+              />
+            )}
+          </VictoryChart>
+
+          {/* Tap-to-inspect tooltip */}
+          {activePoints.length > 0 ? (
+            <View style={styles.tooltip}>
+              <Text style={styles.tooltipDate}>{formatDate(activePoints[0].x)}</Text>
+              {activePoints.map((point) => (
+                <View key={point.retailer} style={styles.tooltipRow}>
+                  <View
+                    style={[
+                      styles.legendDot,
+                      { backgroundColor: RETAILERS[point.retailer]?.color || colors.textSecondary },
+                    ]}
+                  />
+                  <Text style={styles.tooltipRetailer}>{getRetailerName(point.retailer)}</Text>
+                  <Text style={styles.tooltipPrice}>{formatCurrency(point.y)}</Text>
+                </View>
+              ))}
+            </View>
+          ) : (
+            <Text style={styles.hint}>Tap the chart to inspect prices</Text>
+          )}
+
+          {/* Legend */}
+          <View style={styles.legend}>
+            {series.map((s) => (
+              <View key={s.retailer} style={styles.legendItem}>
+                <View
+                  style={[
+                    styles.legendDot,
+                    { backgroundColor: RETAILERS[s.retailer]?.color || colors.textSecondary },
+                  ]}
+                />
+                <Text style={styles.legendText}>{getRetailerName(s.retailer)}</Text>
+              </View>
+            ))}
+            {msrp && (
+              <View style={styles.legendItem}>
+                <View style={styles.legendDash} />
+                <Text style={styles.legendText}>MSRP {formatCurrency(msrp)}</Text>
+              </View>
+            )}
+          </View>
+        </>
+      )}
+
+      {/* All-time low summary */}
+      {allTimeLow && (
+        <View style={styles.lowRow}>
+          <TrendingDown size={16} color={colors.dealGood} />
+          <Text style={styles.lowText}>
+            All-time low {formatCurrency(allTimeLow.price)} at{' '}
+            {getRetailerName(allTimeLow.retailer)} on {formatDate(allTimeLow.date)}
+          </Text>
+        </View>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: BORDER_RADIUS.md,
+    paddingVertical: SPACING.md,
+  },
+  rangeRow: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    gap: SPACING.xs,
+    paddingHorizontal: SPACING.md,
+  },
+  rangeButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.xs,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: colors.surfaceLight,
+  },
+  rangeButtonActive: {
+    backgroundColor: colors.legoRed,
+  },
+  rangeButtonText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  rangeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  empty: {
+    height: 160,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: SPACING.lg,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    textAlign: 'center',
+  },
+  tooltip: {
+    marginHorizontal: SPACING.md,
+    padding: SPACING.sm,
+    backgroundColor: colors.surfaceLight,
+    borderRadius: BORDER_RADIUS.md,
+  },
+  tooltipDate: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: 4,
+  },
+  tooltipRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingVertical: 2,
+  },
+  tooltipRetailer: {
+    flex: 1,
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  tooltipPrice: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  legend: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: SPACING.md,
+    paddingHorizontal: SPACING.md,
+    marginTop: SPACING.md,
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 4,
+  },
+  legendDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+  },
+  legendDash: {
+    width: 12,
+    height: 0,
+    borderTopWidth: 1,
+    borderStyle: 'dashed',
+    borderColor: colors.textTertiary,
+  },
+  legendText: {
+    fontSize: 12,
+    color: colors.textSecondary,
+  },
+  lowRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    paddingHorizontal: SPACING.md,
+    marginTop: SPACING.md,
+  },
+  lowText: {
+    flex: 1,
+    fontSize: 13,
+    fontWeight: '500',
+    color: colors.dealGood,
+  },
+});
+
+export default PriceHistoryChart;
@@ -0,0 +1,219 @@
+// ============================================
+// TARGET PRICE EDITOR COMPONENT
+// ============================================
+// Lets the user set an alert target for a watched set,
+// either as a dollar amount or a percent off MSRP.
+// The backend only sends the alert once the target is met.
+
+import React, { useEffect, useState } from 'react';
+import { View, Text, StyleSheet, Pressable, TextInput } from 'react-native';
+import { Target } from 'lucide-react-native';
+
+import { SetTarget } from '../types';
+import { ThemeColors } from '../constants/colors';
+import { SPACING, BORDER_RADIUS } from '../constants/theme';
+import { formatCurrency } from '../utils/formatters';
+import { resolveTargetPrice } from '../utils/priceCalculations';
+import { useThemeColors } from '../hooks/useTheme';
+
+/**
+ * Props for the TargetPriceEditor component
+ */
+interface TargetPriceEditorProps {
+  /** Current target for the set, if any */
+  target: SetTarget | undefined;
+  /** Set MSRP, used to preview percent targets */
+  msrp: number | null;
+  /** Save a new target, or clear it with null */
+  onChange: (target: SetTarget | null) => void;
+}
+
+/**
+ * Parse the input into a valid target value
+ * @returns The value, or null if out of range
+ */
+function parseTargetValue(type: SetTarget['type'], text: string): number | null {
+  const value = parseFloat(text.replace(/[$%,\s]/g, ''));
+  if (!Number.isFinite(value) || value <= 0) return null;
+  if (type === 'percent') {
+    return value <= 100 ? Math.round(value) : null;
+  }
+  return Math.round(value * 100) / 100;
+}
+
+/**
+ * TargetPriceEditor - Dollar / percent target input for a watched set
+ *
+ * Usage:
+ * <TargetPriceEditor target={target} msrp={set.msrp} onChange={(t) => setSetTarget(setNumber, t)} />
+ */
+export function TargetPriceEditor({ target, msrp, onChange }: TargetPriceEditorProps) {
+  const colors = useThemeColors();
+  const styles = createStyles(colors);
+
+  const [type, setType] = useState<SetTarget['type']>(target?.type ?? 'price');
+  const [text, setText] = useState(target ? String(target.value) : '');
+
+  // Keep the input in sync if the target changes elsewhere (e.g. removed from Alerts)
+  useEffect(() => {
+    setType(target?.type ?? 'price');
+    setText(target ? String(target.value) : '');
+  }, [target]);
+
+  const value = parseTargetValue(type, text);
+  const isDirty = value !== null && (value !== target?.value || type !== target?.type);
+  const preview = target ? resolveTargetPrice(target, msrp) : null;
+
+  const selectType = (nextType: SetTarget['type']) => {
+    setType(nextType);
+    setText('');
+  };
+
+  const handleSave = () => {
+    if (value === null) return;
+    onChange({ type, value });
+  };
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.header}>
+        <Target size={18} color={colors.legoRed} />
+        <Text style={styles.title}>Target Price</Text>
+      </View>
+
+      <Text style={styles.description}>
+        {target
+          ? preview !== null
+            ? `Alert when the price reaches ${formatCurrency(preview)}`
+            : `Alert at ${target.value}% off or more`
+          : 'Alert only when this set drops to your target'}
+      </Text>
+
+      <View style={styles.inputRow}>
+        <View style={styles.typeToggle}>
+          {(['price', 'percent'] as const).map((option) => (
+            <Pressable
+              key={option}
+              style={[styles.typeButton, type === option && styles.typeButtonActive]}
+              onPress={() => selectType(option)}
+              accessibilityLabel={option === 'price' ? 'Dollar target' : 'Percent off target'}
+            >
+              <Text style={[styles.typeButtonText, type === option && styles.typeButtonTextActive]}>
+                {option === 'price' ? '$' : '%'}
+              </Text>
+            </Pressable>
+          ))}
+        </View>
+
+        <TextInput
+          style={styles.input}
+          value={text}
+          onChangeText={setText}
+          placeholder={type === 'price' ? 'e.g. 79.99' : 'e.g. 30'}
+          placeholderTextColor={colors.placeholder}
+          keyboardType="decimal-pad"
+          returnKeyType="done"
+          onSubmitEditing={handleSave}
+        />
+
+        <Pressable
+          style={[styles.saveButton, !isDirty && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={!isDirty}
+        >
+          <Text style={styles.saveButtonText}>Save</Text>
+        </Pressable>
+      </View>
+
+      {target && (
+        <Pressable onPress={() => onChange(null)} style={styles.clearButton}>
+          <Text style={styles.clearButtonText}>Clear target</Text>
+        </Pressable>
+      )}
+    </View>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: BORDER_RADIUS.md,
+    padding: SPACING.md,
+  },
+  header: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  description: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    marginTop: SPACING.xs,
+  },
+  inputRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.sm,
+    marginTop: SPACING.md,
+  },
+  typeToggle: {
+    flexDirection: 'row',
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: colors.surfaceLight,
+    overflow: 'hidden',
+  },
+  typeButton: {
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  typeButtonActive: {
+    backgroundColor: colors.legoRed,
+  },
+  typeButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textSecondary,
+  },
+  typeButtonTextActive: {
+    color: '#FFFFFF',
+  },
+  input: {
+    flex: 1,
+    borderWidth: 1,
+    borderColor: colors.border,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: colors.inputBackground,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    fontSize: 15,
+    color: colors.textPrimary,
+  },
+  saveButton: {
+    backgroundColor: colors.legoRed,
+    borderRadius: BORDER_RADIUS.md,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+  },
+  saveButtonDisabled: {
+    backgroundColor: colors.disabled,
+  },
+  saveButtonText: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  clearButton: {
+    alignSelf: 'flex-start',
+    marginTop: SPACING.sm,
+  },
+  clearButtonText: {
+    fontSize: 13,
+    color: colors.textSecondary,
+    textDecorationLine: 'underline',
+  },
+});
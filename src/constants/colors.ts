@@ -150,6 +150,30 @@ export function getDiscountBadgeColor(percentOff: number, colors: ThemeColors =
   return colors.textSecondary;
 }
 
+/**
+ * Get the color for a deal rating (see getDealRating)
+ * @param rating - The deal's rating
+ * @param colors - The current theme colors
+ * @returns The hex color code
+ */
+export function getDealRatingColor(
+  rating: 'amazing' | 'great' | 'good' | 'mild' | 'none',
+  colors: ThemeColors = COLORS
+): string {
+  switch (rating) {
+    case 'amazing':
+      return colors.dealAmazing;
+    case 'great':
+      return colors.dealGreat;
+    case 'good':
+      return colors.dealGood;
+    case 'mild':
+      return colors.dealMild;
+    default:
+      return colors.textSecondary;
+  }
+}
+
 /**
  * Get retailer brand color
  * @param retailerId - The retailer identifier
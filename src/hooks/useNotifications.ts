@@ -10,8 +10,10 @@ import * as Notifications from 'expo-notifications';
 import { useNavigation } from '@react-navigation/native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 
-import { RootStackParamList } from '../types';
+import { RootStackParamList, NotificationSettings, ReceivedNotification } from '../types';
 import { useSettingsStore } from '../store/useSettingsStore';
+import { useAlertsStore } from '../store/useAlertsStore';
+import { useFiltersStore } from '../store/useFiltersStore';
 import {
   requestNotificationPermissions,
   checkNotificationPermissions,
@@ -23,11 +25,50 @@ import {
   getLastNotificationResponse,
   clearBadgeCount,
   NotificationData,
+  NotificationPreferences,
   isPhysicalDevice,
 } from '../services/notificationService';
 
 type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
 
+/**
+ * Build the preferences payload synced to the backend
+ */
+function toPreferences(notifications: NotificationSettings): NotificationPreferences {
+  return {
+    notificationsEnabled: notifications.enabled,
+    minDiscountThreshold: notifications.minDiscountThreshold,
+    watchedThemes: notifications.watchedThemes,
+    watchedSets: notifications.watchedSets,
+    mutedSets: notifications.mutedSets,
+    mutedThemes: notifications.mutedThemes,
+    setTargets: notifications.setTargets,
+    quietHoursStart: notifications.quietHoursStart,
+    quietHoursEnd: notifications.quietHoursEnd,
+    timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+    digestCadence: notifications.digestCadence,
+    digestHour: notifications.digestHour,
+    retirementAlerts: notifications.retirementAlerts,
+  };
+}
+
+/**
+ * Convert an Expo notification into an Alerts feed entry
+ */
+function toReceivedNotification(notification: Notifications.Notification): ReceivedNotification {
+  const { content, identifier } = notification.request;
+  const data = (content.data || {}) as Record<string, unknown>;
+
+  return {
+    id: identifier,
+    title: content.title || 'Brick Deal Hunter',
+    body: content.body || '',
+    type: typeof data.type === 'string' ? data.type : null,
+    setNumber: typeof data.setNumber === 'string' ? data.setNumber : null,
+    receivedAt: notification.date || Date.now(),
+  };
+}
+
 interface UseNotificationsResult {
   /** Whether notifications are enabled and permissions granted */
   isEnabled: boolean;
@@ -57,6 +98,7 @@ export function useNotifications(): UseNotificationsResult {
 
   // Settings from store
   const notifications = useSettingsStore((state) => state.notifications);
+  const addNotification = useAlertsStore((state) => state.addNotification);
 
   // Refs for listeners
   const notificationListener = useRef<Notifications.Subscription>();
@@ -69,15 +111,25 @@ export function useNotifications(): UseNotificationsResult {
     (response: Notifications.NotificationResponse) => {
       const data = response.notification.request.content.data as NotificationData;
 
+      // Notifications tapped from the background never hit the received listener
+      addNotification(toReceivedNotification(response.notification));
+
       // Clear badge when user interacts with notification
       clearBadgeCount();
 
       // Navigate based on notification type
-      if (data.setNumber) {
+      if (data.type === 'digest') {
+        // Open Home filtered the same way the digest picked its deals
+        const { resetFilters, setMinDiscount, setThemes } = useFiltersStore.getState();
+        resetFilters();
+        setMinDiscount(data.minDiscount ?? 0);
+        setThemes(data.themeIds ?? []);
+        navigation.navigate('Main', { screen: 'Home' });
+      } else if (data.setNumber) {
         navigation.navigate('SetDetail', { setNumber: data.setNumber });
       }
     },
-    [navigation]
+    [navigation, addNotification]
   );
 
   /**
@@ -112,12 +164,7 @@ export function useNotifications(): UseNotificationsResult {
         const token = await getExpoPushToken();
         if (token) {
           setPushToken(token);
-          await registerPushToken(token, {
-            notificationsEnabled: notifications.enabled,
-            minDiscountThreshold: notifications.minDiscountThreshold,
-            watchedThemes: notifications.watchedThemes,
-            watchedSets: notifications.watchedSets,
-          });
+          await registerPushToken(token, toPreferences(notifications));
         }
       }
 
@@ -141,12 +188,7 @@ export function useNotifications(): UseNotificationsResult {
       const token = await getExpoPushToken();
       if (token) {
         setPushToken(token);
-        await updateNotificationPreferences(token, {
-          notificationsEnabled: notifications.enabled,
-          minDiscountThreshold: notifications.minDiscountThreshold,
-          watchedThemes: notifications.watchedThemes,
-          watchedSets: notifications.watchedSets,
-        });
+        await updateNotificationPreferences(token, toPreferences(notifications));
       }
     } catch (err) {
       console.error('Failed to refresh token:', err);
@@ -208,20 +250,12 @@ export function useNotifications(): UseNotificationsResult {
   // Update preferences when settings change
   useEffect(() => {
     if (pushToken && isEnabled) {
-      updateNotificationPreferences(pushToken, {
-        notificationsEnabled: notifications.enabled,
-        minDiscountThreshold: notifications.minDiscountThreshold,
-        watchedThemes: notifications.watchedThemes,
-        watchedSets: notifications.watchedSets,
-      });
+      updateNotificationPreferences(pushToken, toPreferences(notifications));
     }
   }, [
     pushToken,
     isEnabled,
-    notifications.enabled,
-    notifications.minDiscountThreshold,
-    notifications.watchedThemes,
-    notifications.watchedSets,
+    notifications,
   ]);
 
   // Clear badge when app becomes active
@@ -267,3 +301,21 @@ export function useNotificationStatus(): {
     isPhysicalDevice: isPhysicalDevice(),
   };
 }
+
+/**
+ * Hook that records every received notification into the Alerts history.
+ * Mount once near the root so the feed fills regardless of the open tab.
+ */
+export function useNotificationHistory(): void {
+  const addNotification = useAlertsStore((state) => state.addNotification);
+
+  useEffect(() => {
+    const subscription = addNotificationReceivedListener((notification) => {
+      addNotification(toReceivedNotification(notification));
+    });
+
+    return () => {
+      subscription.remove();
+    };
+  }, [addNotification]);
+}
@@ -17,6 +17,10 @@ import { COLORS } from '../constants/colors';
 import { HomeScreen } from '../screens/HomeScreen';
 import { SetDetailScreen } from '../screens/SetDetailScreen';
 import { SettingsScreen } from '../screens/SettingsScreen';
+import { AlertsScreen } from '../screens/AlertsScreen';
+
+// Hooks
+import { useNotificationHistory } from '../hooks/useNotifications';
 
 // Create navigators
 const Stack = createNativeStackNavigator<RootStackParamList>();
@@ -26,6 +30,9 @@ const Tab = createBottomTabNavigator<MainTabParamList>();
  * Main tab navigator (Home, Alerts, Settings)
  */
 function MainTabs() {
+  // Record incoming notifications for the Alerts feed
+  useNotificationHistory();
+
   return (
     <Tab.Navigator
       screenOptions={{
@@ -57,7 +64,7 @@ function MainTabs() {
       />
       <Tab.Screen
         name="Alerts"
-        component={AlertsPlaceholder}
+        component={AlertsScreen}
         options={{
           tabBarLabel: 'Alerts',
           tabBarIcon: ({ color, size }) => (
@@ -79,33 +86,6 @@ function MainTabs() {
   );
 }
 
-/**
- * Placeholder for Alerts screen
- */
-function AlertsPlaceholder() {
-  const { View, Text, StyleSheet } = require('react-native');
-  const { SafeAreaView } = require('react-native-safe-area-context');
-
-  return (
-    <SafeAreaView style={{ flex: 1, backgroundColor: COLORS.background }}>
-      <View style={{ backgroundColor: COLORS.legoRed, padding: 16 }}>
-        <Text style={{ fontSize: 24, fontWeight: '800', color: '#FFFFFF' }}>
-          Alerts
-        </Text>
-      </View>
-      <View style={{ flex: 1, justifyContent: 'center', alignItems: 'center', padding: 32 }}>
-        <Bell size={64} color={COLORS.textTertiary} />
-        <Text style={{ fontSize: 20, fontWeight: '600', color: COLORS.textPrimary, marginTop: 16 }}>
-          No Alerts Yet
-        </Text>
-        <Text style={{ fontSize: 14, color: COLORS.textSecondary, textAlign: 'center', marginTop: 8 }}>
-          Watch sets in the deals list to get notified when prices drop.
-        </Text>
-      </View>
-    </SafeAreaView>
-  );
-}
-
 /**
  * Root stack navigator
  */
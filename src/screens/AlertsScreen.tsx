@@ -0,0 +1,542 @@
+// ============================================
+// ALERTS SCREEN
+// ============================================
+// Everything the user is watching, in one place:
+// - Watched sets with their best price and distance to target
+// - Watched themes with their best current deal
+// - History of received notifications
+// Swipe a watched set or theme to mute or remove it.
+
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  StyleSheet,
+  ScrollView,
+  Pressable,
+  RefreshControl,
+} from 'react-native';
+import { SafeAreaView } from 'react-native-safe-area-context';
+import { Swipeable } from 'react-native-gesture-handler';
+import { NativeStackNavigationProp } from '@react-navigation/native-stack';
+import { useNavigation } from '@react-navigation/native';
+import {
+  Bell,
+  BellOff,
+  Trash2,
+  Package,
+  Layers,
+  Clock,
+} from 'lucide-react-native';
+
+import { ThemeColors } from '../constants/colors';
+import { SPACING, BORDER_RADIUS, SHADOWS, POPULAR_THEMES } from '../constants/theme';
+import { getRetailerName } from '../constants/retailers';
+import { LegoSet, PricePoint, RootStackParamList, SetTarget } from '../types';
+import { useSettingsStore } from '../store/useSettingsStore';
+import { useDealsStore } from '../store/useDealsStore';
+import { useAlertsStore } from '../store/useAlertsStore';
+import { useThemeColors } from '../hooks/useTheme';
+import { getCatalogSet, getSetPrices } from '../services/firebaseService';
+import { findBestPrice, resolveTargetPrice, calculatePercentOff } from '../utils/priceCalculations';
+import { formatCurrency, formatSetNumber, formatRelativeTime } from '../utils/formatters';
+import { SetImage } from '../components/SetImage';
+
+type NavigationProp = NativeStackNavigationProp<RootStackParamList>;
+
+/**
+ * Current price info for one watched set
+ */
+interface WatchedSetSummary {
+  setNumber: string;
+  set: LegoSet | null;
+  bestPrice: PricePoint | null;
+}
+
+/**
+ * AlertsScreen - Watch list and notification history
+ */
+export function AlertsScreen() {
+  const navigation = useNavigation<NavigationProp>();
+
+  // Theme colors
+  const colors = useThemeColors();
+  const styles = createStyles(colors);
+
+  // Store state
+  const {
+    notifications,
+    removeWatchedSet,
+    removeWatchedTheme,
+    toggleMuteSet,
+    toggleMuteTheme,
+  } = useSettingsStore();
+  const deals = useDealsStore((state) => state.deals);
+  const themes = useDealsStore((state) => state.themes);
+  const { history, removeNotification, clearHistory } = useAlertsStore();
+
+  // Local state
+  const [summaries, setSummaries] = useState<Record<string, WatchedSetSummary>>({});
+  const [refreshing, setRefreshing] = useState(false);
+
+  /**
+   * Load set info and the best current price for every watched set
+   */
+  const loadSummaries = useCallback(async () => {
+    const results = await Promise.all(
+      notifications.watchedSets.map(async (setNumber): Promise<WatchedSetSummary> => {
+        const knownSet = deals.find((d) => d.set.setNumber === setNumber)?.set ?? null;
+
+        try {
+          const [set, prices] = await Promise.all([
+            knownSet ? Promise.resolve(knownSet) : getCatalogSet(setNumber),
+            getSetPrices(setNumber),
+          ]);
+          return { setNumber, set, bestPrice: findBestPrice(prices) };
+        } catch (error) {
+          console.error(`Failed to load prices for ${setNumber}:`, error);
+          return { setNumber, set: knownSet, bestPrice: null };
+        }
+      })
+    );
+
+    setSummaries(Object.fromEntries(results.map((r) => [r.setNumber, r])));
+  }, [notifications.watchedSets, deals]);
+
+  useEffect(() => {
+    loadSummaries();
+  }, [loadSummaries]);
+
+  /**
+   * Handle pull-to-refresh
+   */
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    await loadSummaries();
+    setRefreshing(false);
+  }, [loadSummaries]);
+
+  /**
+   * Get a display name for a theme ID
+   */
+  const getThemeName = (themeId: number): string =>
+    themes.find((t) => t.id === themeId)?.name ||
+    POPULAR_THEMES.find((t) => t.id === themeId)?.name ||
+    `Theme #${themeId}`;
+
+  /**
+   * Describe how far a price is from the set's target
+   * Sets without their own target use the global discount threshold.
+   */
+  const describeTarget = (
+    setNumber: string,
+    msrp: number | null,
+    price: PricePoint | null
+  ): { text: string; hit: boolean } => {
+    const target: SetTarget = notifications.setTargets[setNumber] ?? {
+      type: 'percent',
+      value: notifications.minDiscountThreshold,
+    };
+
+    if (!price) {
+      return { text: 'No current price', hit: false };
+    }
+
+    const targetPrice = resolveTargetPrice(target, msrp);
+    if (targetPrice === null) {
+      return { text: `Target: ${target.value}% off`, hit: false };
+    }
+
+    const distance = price.currentPrice - targetPrice;
+
+    if (distance <= 0) {
+      return { text: `Target hit! (${formatCurrency(targetPrice)})`, hit: true };
+    }
+    return {
+      text: `${formatCurrency(distance)} above target (${formatCurrency(targetPrice)})`,
+      hit: false,
+    };
+  };
+
+  /**
+   * Render mute/remove actions revealed by swiping a row
+   */
+  const renderSwipeActions = (muted: boolean, onMute: () => void, onRemove: () => void) => (
+    <View style={styles.swipeActions}>
+      <Pressable
+        style={[styles.swipeAction, { backgroundColor: colors.warning }]}
+        onPress={onMute}
+        accessibilityLabel={muted ? 'Unmute alert' : 'Mute alert'}
+      >
+        {muted ? <Bell size={20} color="#FFFFFF" /> : <BellOff size={20} color="#FFFFFF" />}
+        <Text style={styles.swipeActionText}>{muted ? 'Unmute' : 'Mute'}</Text>
+      </Pressable>
+      <Pressable
+        style={[styles.swipeAction, { backgroundColor: colors.error }]}
+        onPress={onRemove}
+        accessibilityLabel="Remove alert"
+      >
+        <Trash2 size={20} color="#FFFFFF" />
+        <Text style={styles.swipeActionText}>Remove</Text>
+      </Pressable>
+    </View>
+  );
+
+  /**
+   * Render a watched set row
+   */
+  const renderWatchedSet = (setNumber: string) => {
+    const summary = summaries[setNumber];
+    const set = summary?.set ?? null;
+    const bestPrice = summary?.bestPrice ?? null;
+    const muted = notifications.mutedSets.includes(setNumber);
+    const target = describeTarget(setNumber, set?.msrp ?? null, bestPrice);
+
+    return (
+      <Swipeable
+        key={setNumber}
+        renderRightActions={() =>
+          renderSwipeActions(
+            muted,
+            () => toggleMuteSet(setNumber),
+            () => removeWatchedSet(setNumber)
+          )
+        }
+      >
+        <Pressable
+          style={[styles.row, muted && styles.rowMuted]}
+          onPress={() => navigation.navigate('SetDetail', { setNumber })}
+        >
+          {set?.imageUrl ? (
+            <SetImage imageUrl={set.imageUrl} alt={set.name} size="small" />
+          ) : (
+            <View style={styles.rowIcon}>
+              <Package size={24} color={colors.textTertiary} />
+            </View>
+          )}
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle} numberOfLines={1}>
+              {set?.name || `Set #${formatSetNumber(setNumber)}`}
+            </Text>
+            {bestPrice ? (
+              <Text style={styles.rowPrice}>
+                {formatCurrency(bestPrice.currentPrice)} at {getRetailerName(bestPrice.retailer)}
+              </Text>
+            ) : (
+              <Text style={styles.rowMeta}>Loading price...</Text>
+            )}
+            <Text style={[styles.rowMeta, target.hit && { color: colors.dealGood }]}>
+              {target.text}
+            </Text>
+          </View>
+          {muted && <BellOff size={16} color={colors.textTertiary} />}
+        </Pressable>
+      </Swipeable>
+    );
+  };
+
+  /**
+   * Render a watched theme row
+   */
+  const renderWatchedTheme = (themeId: number) => {
+    const muted = notifications.mutedThemes.includes(themeId);
+    const themeDeals = deals.filter((d) => d.set.themeId === themeId);
+    const bestDeal = themeDeals.reduce<typeof themeDeals[number] | null>(
+      (best, deal) => (!best || deal.percentOff > best.percentOff ? deal : best),
+      null
+    );
+    const percentOff = bestDeal
+      ? calculatePercentOff(bestDeal.set.msrp || bestDeal.price.originalPrice, bestDeal.price.currentPrice)
+      : 0;
+    const gap = notifications.minDiscountThreshold - percentOff;
+
+    return (
+      <Swipeable
+        key={themeId}
+        renderRightActions={() =>
+          renderSwipeActions(
+            muted,
+            () => toggleMuteTheme(themeId),
+            () => removeWatchedTheme(themeId)
+          )
+        }
+      >
+        <View style={[styles.row, muted && styles.rowMuted]}>
+          <View style={styles.rowIcon}>
+            <Layers size={24} color={colors.legoRed} />
+          </View>
+          <View style={styles.rowInfo}>
+            <Text style={styles.rowTitle}>{getThemeName(themeId)}</Text>
+            {bestDeal ? (
+              <Text style={styles.rowPrice} numberOfLines={1}>
+                Best: {bestDeal.set.name} {percentOff}% off
+              </Text>
+            ) : (
+              <Text style={styles.rowMeta}>No current deals</Text>
+            )}
+            {bestDeal && (
+              <Text style={[styles.rowMeta, gap <= 0 && { color: colors.dealGood }]}>
+                {gap <= 0
+                  ? `Target hit! (${notifications.minDiscountThreshold}% off)`
+                  : `${gap}% short of ${notifications.minDiscountThreshold}% target`}
+              </Text>
+            )}
+          </View>
+          {muted && <BellOff size={16} color={colors.textTertiary} />}
+        </View>
+      </Swipeable>
+    );
+  };
+
+  const hasWatches =
+    notifications.watchedSets.length > 0 || notifications.watchedThemes.length > 0;
+
+  return (
+    <SafeAreaView style={styles.container} edges={['top']}>
+      {/* Header */}
+      <View style={styles.header}>
+        <Text style={styles.headerTitle}>Alerts</Text>
+      </View>
+
+      <ScrollView
+        style={styles.content}
+        contentContainerStyle={styles.scrollContent}
+        showsVerticalScrollIndicator={false}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={colors.legoRed}
+            colors={[colors.legoRed]}
+          />
+        }
+      >
+        {!hasWatches && (
+          <View style={styles.emptyState}>
+            <Bell size={64} color={colors.textTertiary} />
+            <Text style={styles.emptyTitle}>No Alerts Yet</Text>
+            <Text style={styles.emptyText}>
+              Watch sets in the deals list to get notified when prices drop.
+            </Text>
+          </View>
+        )}
+
+        {/* Watched Sets */}
+        {notifications.watchedSets.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Watched Sets</Text>
+            <View style={styles.card}>
+              {notifications.watchedSets.map(renderWatchedSet)}
+            </View>
+          </View>
+        )}
+
+        {/* Watched Themes */}
+        {notifications.watchedThemes.length > 0 && (
+          <View style={styles.section}>
+            <Text style={styles.sectionTitle}>Watched Themes</Text>
+            <View style={styles.card}>
+              {notifications.watchedThemes.map(renderWatchedTheme)}
+            </View>
+          </View>
+        )}
+
+        {hasWatches && (
+          <Text style={styles.hint}>Swipe left on an alert to mute or remove it</Text>
+        )}
+
+        {/* Notification History */}
+        <View style={styles.section}>
+          <View style={styles.sectionHeader}>
+            <Text style={styles.sectionTitle}>Recent Notifications</Text>
+            {history.length > 0 && (
+              <Pressable onPress={clearHistory} accessibilityLabel="Clear notification history">
+                <Text style={styles.clearText}>Clear</Text>
+              </Pressable>
+            )}
+          </View>
+
+          {history.length === 0 ? (
+            <Text style={styles.historyEmpty}>
+              Notifications you receive will show up here.
+            </Text>
+          ) : (
+            <View style={styles.card}>
+              {history.map((item) => (
+                <Swipeable
+                  key={item.id}
+                  renderRightActions={() => (
+                    <Pressable
+                      style={[styles.swipeAction, { backgroundColor: colors.error }]}
+                      onPress={() => removeNotification(item.id)}
+                      accessibilityLabel="Delete notification"
+                    >
+                      <Trash2 size={20} color="#FFFFFF" />
+                    </Pressable>
+                  )}
+                >
+                  <Pressable
+                    style={styles.row}
+                    disabled={!item.setNumber}
+                    onPress={() =>
+                      item.setNumber &&
+                      navigation.navigate('SetDetail', { setNumber: item.setNumber })
+                    }
+                  >
+                    <View style={styles.rowIcon}>
+                      <Clock size={20} color={colors.textSecondary} />
+                    </View>
+                    <View style={styles.rowInfo}>
+                      <Text style={styles.rowTitle} numberOfLines={1}>{item.title}</Text>
+                      <Text style={styles.rowMeta} numberOfLines={2}>{item.body}</Text>
+                      <Text style={styles.historyTime}>
+                        {formatRelativeTime(new Date(item.receivedAt))}
+                      </Text>
+                    </View>
+                  </Pressable>
+                </Swipeable>
+              ))}
+            </View>
+          )}
+        </View>
+      </ScrollView>
+    </SafeAreaView>
+  );
+}
+
+const createStyles = (colors: ThemeColors) => StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: colors.background,
+  },
+  header: {
+    backgroundColor: colors.legoRed,
+    paddingHorizontal: SPACING.lg,
+    paddingVertical: SPACING.md,
+  },
+  headerTitle: {
+    fontSize: 24,
+    fontWeight: '800',
+    color: '#FFFFFF',
+  },
+  content: {
+    flex: 1,
+  },
+  scrollContent: {
+    paddingBottom: SPACING.xxxl,
+  },
+  section: {
+    paddingHorizontal: SPACING.lg,
+    paddingTop: SPACING.xl,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginBottom: SPACING.md,
+  },
+  clearText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.legoRed,
+    marginBottom: SPACING.md,
+  },
+  card: {
+    backgroundColor: colors.cardBackground,
+    borderRadius: BORDER_RADIUS.lg,
+    overflow: 'hidden',
+    ...SHADOWS.sm,
+  },
+  row: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.md,
+    padding: SPACING.md,
+    backgroundColor: colors.cardBackground,
+    borderBottomWidth: 1,
+    borderBottomColor: colors.border,
+  },
+  rowMuted: {
+    opacity: 0.5,
+  },
+  rowIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: BORDER_RADIUS.md,
+    backgroundColor: colors.surfaceLight,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  rowInfo: {
+    flex: 1,
+  },
+  rowTitle: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+  },
+  rowPrice: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.legoRed,
+    marginTop: 2,
+  },
+  rowMeta: {
+    fontSize: 12,
+    color: colors.textSecondary,
+    marginTop: 2,
+  },
+  swipeActions: {
+    flexDirection: 'row',
+  },
+  swipeAction: {
+    width: 80,
+    justifyContent: 'center',
+    alignItems: 'center',
+    gap: 4,
+  },
+  swipeActionText: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: '#FFFFFF',
+  },
+  hint: {
+    fontSize: 12,
+    color: colors.textTertiary,
+    textAlign: 'center',
+    marginTop: SPACING.md,
+  },
+  historyEmpty: {
+    fontSize: 14,
+    color: colors.textTertiary,
+  },
+  historyTime: {
+    fontSize: 10,
+    color: colors.textTertiary,
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: SPACING.xxxl,
+  },
+  emptyTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    marginTop: SPACING.lg,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: colors.textSecondary,
+    textAlign: 'center',
+    marginTop: SPACING.sm,
+  },
+});
+
+export default AlertsScreen;
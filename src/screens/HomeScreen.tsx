@@ -5,10 +5,11 @@
 // Features:
 // - Pull to refresh
 // - Filter button
-// - Sort options
+// - Sort by deal score or discount
+// - "Retiring soon" strip for sets about to retire
 // - Deal cards list
 
-import React, { useEffect, useState, useCallback } from 'react';
+import React, { useEffect, useState, useCallback, useMemo } from 'react';
 import {
   View,
   Text,
@@ -17,6 +18,7 @@ import {
   RefreshControl,
   Pressable,
   ActivityIndicator,
+  ScrollView,
 } from 'react-native';
 import { SafeAreaView } from 'react-native-safe-area-context';
 import {
@@ -24,24 +26,36 @@ import {
   RefreshCw,
   TrendingDown,
   AlertCircle,
+  Hourglass,
+  ArrowUpDown,
 } from 'lucide-react-native';
 import { NativeStackNavigationProp } from '@react-navigation/native-stack';
 import { useNavigation } from '@react-navigation/native';
 
 import { COLORS, ThemeColors } from '../constants/colors';
-import { SPACING, SHADOWS } from '../constants/theme';
+import { SPACING, SHADOWS, BORDER_RADIUS } from '../constants/theme';
 import { Deal, RootStackParamList } from '../types';
 import { useDealsStore } from '../store/useDealsStore';
 import { useFiltersStore, useFilterState, useActiveFilterCount } from '../store/useFiltersStore';
 import { filterDeals } from '../utils/priceCalculations';
-import { formatRelativeTime, getTimeBasedGreeting } from '../utils/formatters';
+import {
+  formatCurrency,
+  formatRelativeTime,
+  formatShortDate,
+  getTimeBasedGreeting,
+} from '../utils/formatters';
 import { useThemeColors } from '../hooks/useTheme';
 
 import { DealCard } from '../components/DealCard';
+import { SetImage } from '../components/SetImage';
 import { DealListSkeleton } from '../components/LoadingSkeleton';
 import { FilterModal } from '../components/FilterModal';
-import { fetchCurrentSets } from '../services/rebrickableApi';
-import { getDeals as getFirebaseDeals, initializeFirebase } from '../services/firebaseService';
+import { fetchCurrentSets, fetchThemes } from '../services/rebrickableApi';
+import {
+  getDeals as getFirebaseDeals,
+  getThemes as getFirebaseThemes,
+  initializeFirebase,
+} from '../services/firebaseService';
 import { RETAILERS, ALL_RETAILER_IDS } from '../constants/retailers';
 import { RetailerId } from '../types';
 
@@ -66,9 +80,14 @@ export function HomeScreen() {
     dealsLoadingState,
     dealsError,
     lastUpdated,
+    themesLoadingState,
+    sortOption,
+    setSortOption,
     setDeals,
     setDealsLoading,
     setDealsError,
+    setThemes,
+    setThemesLoading,
   } = useDealsStore();
 
   // Filter state
@@ -90,6 +109,21 @@ export function HomeScreen() {
     inStockOnly: filters.inStockOnly,
   });
 
+  // Best deal per retiring set, soonest retirement first
+  const retiringDeals = useMemo(() => {
+    const best = new Map<string, Deal>();
+    for (const deal of deals) {
+      if (!deal.set.retiringSoon) continue;
+      const current = best.get(deal.set.setNumber);
+      if (!current || deal.price.currentPrice < current.price.currentPrice) {
+        best.set(deal.set.setNumber, deal);
+      }
+    }
+    return [...best.values()].sort((a, b) =>
+      (a.set.retirementDate ?? '').localeCompare(b.set.retirementDate ?? '')
+    );
+  }, [deals]);
+
   /**
    * Load deals - first try Firebase, fall back to Rebrickable
    */
@@ -162,6 +196,31 @@ export function HomeScreen() {
     }
   }, [setDeals, setDealsLoading, setDealsError]);
 
+  /**
+   * Load the theme tree for filters and watch lists - Firebase first, then Rebrickable
+   */
+  const loadThemes = useCallback(async () => {
+    setThemesLoading('loading');
+
+    try {
+      initializeFirebase();
+
+      let themes = await getFirebaseThemes().catch((firebaseError) => {
+        console.log('Firebase themes not available:', firebaseError);
+        return [];
+      });
+
+      if (themes.length === 0 && REBRICKABLE_API_KEY) {
+        themes = await fetchThemes(REBRICKABLE_API_KEY);
+      }
+
+      setThemes(themes);
+    } catch (error) {
+      console.error('Failed to load themes:', error);
+      setThemesLoading('error');
+    }
+  }, [setThemes, setThemesLoading]);
+
   /**
    * Handle pull-to-refresh
    */
@@ -178,6 +237,13 @@ export function HomeScreen() {
     }
   }, [deals.length, loadDeals]);
 
+  // Load themes once per session
+  useEffect(() => {
+    if (themesLoadingState === 'idle') {
+      loadThemes();
+    }
+  }, [themesLoadingState, loadThemes]);
+
   /**
    * Navigate to set detail
    */
@@ -192,6 +258,46 @@ export function HomeScreen() {
     <DealCard deal={item} onPress={() => handleDealPress(item)} />
   );
 
+  /**
+   * Render the horizontal strip of sets about to retire
+   */
+  const renderRetiringSoon = () => (
+    <View style={styles.retiringSection}>
+      <View style={styles.retiringHeader}>
+        <Hourglass size={18} color={colors.warning} />
+        <Text style={styles.retiringTitle}>Retiring Soon</Text>
+      </View>
+      <ScrollView
+        horizontal
+        showsHorizontalScrollIndicator={false}
+        contentContainerStyle={styles.retiringList}
+      >
+        {retiringDeals.map((deal) => (
+          <Pressable
+            key={deal.set.setNumber}
+            style={styles.retiringCard}
+            onPress={() => handleDealPress(deal)}
+            accessibilityRole="button"
+            accessibilityLabel={`${deal.set.name}, retiring soon`}
+          >
+            <SetImage imageUrl={deal.set.imageUrl} alt={deal.set.name} size="small" />
+            <Text style={styles.retiringName} numberOfLines={2}>
+              {deal.set.name}
+            </Text>
+            <Text style={styles.retiringPrice}>
+              {formatCurrency(deal.price.currentPrice)}
+            </Text>
+            {deal.set.retirementDate && (
+              <Text style={styles.retiringDate}>
+                Retires {formatShortDate(new Date(`${deal.set.retirementDate}T00:00:00`))}
+              </Text>
+            )}
+          </Pressable>
+        ))}
+      </ScrollView>
+    </View>
+  );
+
   /**
    * Render list header
    */
@@ -219,6 +325,9 @@ export function HomeScreen() {
         </View>
       </View>
 
+      {/* Sets about to retire */}
+      {retiringDeals.length > 0 && renderRetiringSoon()}
+
       {/* Filter bar */}
       <View style={styles.filterBar}>
         <Pressable
@@ -243,6 +352,19 @@ export function HomeScreen() {
           </Text>
         </Pressable>
 
+        {/* Toggle between deal score and raw discount ordering */}
+        <Pressable
+          style={styles.sortButton}
+          onPress={() => setSortOption(sortOption === 'score_high' ? 'discount_high' : 'score_high')}
+          accessibilityRole="button"
+          accessibilityLabel={`Sorted by ${sortOption === 'score_high' ? 'best deal' : 'biggest discount'}`}
+        >
+          <ArrowUpDown size={16} color={colors.textPrimary} />
+          <Text style={styles.sortButtonText}>
+            {sortOption === 'score_high' ? 'Best deal' : 'Biggest discount'}
+          </Text>
+        </Pressable>
+
         <Text style={styles.resultsText}>
           {filteredDeals.length} result{filteredDeals.length !== 1 && 's'}
         </Text>
@@ -311,7 +433,7 @@ export function HomeScreen() {
       <FlatList
         data={filteredDeals}
         renderItem={renderDealCard}
-        keyExtractor={(item) => `${item.set.setNumber}-${item.price.retailer}`}
+        keyExtractor={(item) => item.set.setNumber}
         ListHeaderComponent={renderHeader}
         ListEmptyComponent={renderEmpty}
         contentContainerStyle={styles.listContent}
@@ -398,6 +520,49 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     fontSize: 14,
     color: colors.textSecondary,
   },
+  retiringSection: {
+    marginBottom: SPACING.lg,
+  },
+  retiringHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: 6,
+    marginBottom: SPACING.sm,
+  },
+  retiringTitle: {
+    fontSize: 16,
+    fontWeight: '700',
+    color: colors.textPrimary,
+  },
+  retiringList: {
+    gap: SPACING.sm,
+  },
+  retiringCard: {
+    width: 130,
+    backgroundColor: colors.cardBackground,
+    borderRadius: BORDER_RADIUS.lg,
+    padding: SPACING.sm,
+    alignItems: 'center',
+    ...SHADOWS.sm,
+  },
+  retiringName: {
+    fontSize: 12,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    textAlign: 'center',
+    marginTop: SPACING.xs,
+  },
+  retiringPrice: {
+    fontSize: 14,
+    fontWeight: '700',
+    color: colors.dealGood,
+    marginTop: 2,
+  },
+  retiringDate: {
+    fontSize: 11,
+    color: colors.warning,
+    marginTop: 2,
+  },
   filterBar: {
     flexDirection: 'row',
     justifyContent: 'space-between',
@@ -424,6 +589,21 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
   filterButtonTextActive: {
     color: '#FFFFFF',
   },
+  sortButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: colors.cardBackground,
+    paddingHorizontal: SPACING.md,
+    paddingVertical: SPACING.sm,
+    borderRadius: 20,
+    gap: 6,
+    ...SHADOWS.sm,
+  },
+  sortButtonText: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: colors.textPrimary,
+  },
   resultsText: {
     fontSize: 14,
     color: colors.textSecondary,
@@ -7,6 +7,7 @@
 // - All retailer prices
 // - Price history chart
 // - Watch/alert button
+// - Target price for watched sets
 
 import React, { useEffect, useState } from 'react';
 import {
@@ -33,10 +34,10 @@ import { NativeStackScreenProps } from '@react-navigation/native-stack';
 
 import { COLORS } from '../constants/colors';
 import { SPACING, SHADOWS, BORDER_RADIUS } from '../constants/theme';
-import { RootStackParamList, Deal, PricePoint } from '../types';
+import { RootStackParamList, Deal, PricePoint, PriceHistoryPoint } from '../types';
 import { RETAILERS } from '../constants/retailers';
 import { useDealsStore } from '../store/useDealsStore';
-import { useSettingsStore, useIsSetWatched } from '../store/useSettingsStore';
+import { useSettingsStore, useIsSetWatched, useSetTarget } from '../store/useSettingsStore';
 import {
   formatCurrency,
   formatSetNumber,
@@ -45,10 +46,19 @@ import {
   formatRelativeTime,
 } from '../utils/formatters';
 import { calculatePercentOff } from '../utils/priceCalculations';
+import { getPriceHistory } from '../services/firebaseService';
 
 import { SetImage } from '../components/SetImage';
 import { DiscountBadge } from '../components/DiscountBadge';
 import { SetDetailSkeleton } from '../components/LoadingSkeleton';
+import { PriceHistoryChart } from '../components/PriceHistoryChart';
+import { TargetPriceEditor } from '../components/TargetPriceEditor';
+
+/**
+ * How far back to load history - the chart needs everything
+ * to find the all-time low and carry prices into its ranges
+ */
+const HISTORY_DAYS = 5 * 365;
 
 type Props = NativeStackScreenProps<RootStackParamList, 'SetDetail'>;
 
@@ -64,11 +74,36 @@ export function SetDetailScreen({ navigation, route }: Props) {
 
   // Watch state
   const isWatched = useIsSetWatched(setNumber);
-  const { addWatchedSet, removeWatchedSet } = useSettingsStore();
+  const target = useSetTarget(setNumber);
+  const { addWatchedSet, removeWatchedSet, setSetTarget } = useSettingsStore();
 
   // Loading state
   const [isLoading, setIsLoading] = useState(!deal);
 
+  // Price history
+  const [history, setHistory] = useState<PriceHistoryPoint[]>([]);
+  const [historyLoading, setHistoryLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    setHistoryLoading(true);
+    getPriceHistory(setNumber, HISTORY_DAYS)
+      .then((points) => {
+        if (!cancelled) setHistory(points);
+      })
+      .catch((error) => {
+        console.error('Failed to load price history:', error);
+      })
+      .finally(() => {
+        if (!cancelled) setHistoryLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [setNumber]);
+
   useEffect(() => {
     // Simulate loading if no deal found
     if (!deal) {
@@ -197,7 +232,9 @@ export function SetDetailScreen({ navigation, route }: Props) {
               <Text style={styles.metaText}>{set.year}</Text>
             </View>
             <View style={styles.metaChip}>
-              <Text style={styles.metaChipText}>{set.theme}</Text>
+              <Text style={styles.metaChipText}>
+                {set.subTheme ? `${set.theme} · ${set.subTheme}` : set.theme}
+              </Text>
             </View>
           </View>
         </View>
@@ -255,6 +292,17 @@ export function SetDetailScreen({ navigation, route }: Props) {
           </View>
         )}
 
+        {/* Target Price (watched sets only) */}
+        {isWatched && (
+          <View style={styles.section}>
+            <TargetPriceEditor
+              target={target}
+              msrp={set.msrp}
+              onChange={(next) => setSetTarget(setNumber, next)}
+            />
+          </View>
+        )}
+
         {/* Other Retailers Section (placeholder) */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Other Retailers</Text>
@@ -265,14 +313,14 @@ export function SetDetailScreen({ navigation, route }: Props) {
           </View>
         </View>
 
-        {/* Price History Section (placeholder) */}
+        {/* Price History Section */}
         <View style={styles.section}>
           <Text style={styles.sectionTitle}>Price History</Text>
-          <View style={styles.chartPlaceholder}>
-            <Text style={styles.placeholderText}>
-              Price history chart will appear here
-            </Text>
-          </View>
+          <PriceHistoryChart
+            history={history}
+            msrp={set.msrp}
+            isLoading={historyLoading}
+          />
         </View>
       </ScrollView>
     </SafeAreaView>
@@ -468,13 +516,6 @@ const styles = StyleSheet.create({
     borderRadius: BORDER_RADIUS.md,
     alignItems: 'center',
   },
-  chartPlaceholder: {
-    height: 200,
-    backgroundColor: COLORS.surfaceLight,
-    borderRadius: BORDER_RADIUS.md,
-    justifyContent: 'center',
-    alignItems: 'center',
-  },
   placeholderText: {
     fontSize: 14,
     color: COLORS.textTertiary,
@@ -25,8 +25,12 @@ import {
   Palette,
   HelpCircle,
   ChevronRight,
+  ChevronLeft,
   CheckCircle,
   AlertCircle,
+  Moon,
+  Newspaper,
+  Hourglass,
 } from 'lucide-react-native';
 
 import { COLORS, ThemeColors } from '../constants/colors';
@@ -34,6 +38,37 @@ import { SPACING, BORDER_RADIUS, SHADOWS } from '../constants/theme';
 import { useSettingsStore } from '../store/useSettingsStore';
 import { useThemeColors } from '../hooks/useTheme';
 import { useNotifications, useNotificationStatus } from '../hooks/useNotifications';
+import { formatHour } from '../utils/formatters';
+import { DigestCadence } from '../types';
+
+/**
+ * Quiet hours used when the user first turns them on
+ */
+const DEFAULT_QUIET_START = 22;
+const DEFAULT_QUIET_END = 7;
+
+/**
+ * Deal digest cadence choices
+ */
+const DIGEST_OPTIONS: Array<{ value: DigestCadence; label: string }> = [
+  { value: 'off', label: 'Off' },
+  { value: 'daily', label: 'Daily' },
+  { value: 'weekly', label: 'Weekly' },
+];
+
+/**
+ * Describe when the deal digest arrives
+ */
+function describeDigest(cadence: DigestCadence, hour: number): string {
+  switch (cadence) {
+    case 'daily':
+      return `Top deals every day at ${formatHour(hour)}`;
+    case 'weekly':
+      return `Top deals every Sunday at ${formatHour(hour)}`;
+    default:
+      return 'Get a roundup of the top deals matching your alerts';
+  }
+}
 
 /**
  * SettingsScreen - App configuration
@@ -49,9 +84,13 @@ export function SettingsScreen() {
     colorScheme,
     toggleNotifications,
     setNotificationThreshold,
+    setNotificationSettings,
     setColorScheme,
   } = useSettingsStore();
 
+  const quietHoursEnabled =
+    notifications.quietHoursStart !== null && notifications.quietHoursEnd !== null;
+
   // Push notification hooks
   const {
     isEnabled: pushEnabled,
@@ -93,6 +132,43 @@ export function SettingsScreen() {
     }
   };
 
+  /**
+   * Turn quiet hours on (with defaults) or off
+   */
+  const toggleQuietHours = () => {
+    setNotificationSettings(
+      quietHoursEnabled
+        ? { quietHoursStart: null, quietHoursEnd: null }
+        : { quietHoursStart: DEFAULT_QUIET_START, quietHoursEnd: DEFAULT_QUIET_END }
+    );
+  };
+
+  /**
+   * Render an hour picker row that steps an hour forward or back
+   */
+  const renderHourStepper = (label: string, hour: number, onChange: (hour: number) => void) => (
+    <View style={styles.hourRow}>
+      <Text style={styles.settingDescription}>{label}</Text>
+      <View style={styles.hourStepper}>
+        <Pressable
+          onPress={() => onChange((hour + 23) % 24)}
+          style={styles.hourButton}
+          accessibilityLabel={`Earlier ${label.toLowerCase()}`}
+        >
+          <ChevronLeft size={18} color={colors.textSecondary} />
+        </Pressable>
+        <Text style={styles.hourValue}>{formatHour(hour)}</Text>
+        <Pressable
+          onPress={() => onChange((hour + 1) % 24)}
+          style={styles.hourButton}
+          accessibilityLabel={`Later ${label.toLowerCase()}`}
+        >
+          <ChevronRight size={18} color={colors.textSecondary} />
+        </Pressable>
+      </View>
+    </View>
+  );
+
   return (
     <SafeAreaView style={styles.container} edges={['top']}>
       {/* Header */}
@@ -193,6 +269,102 @@ export function SettingsScreen() {
                 </View>
               </View>
             )}
+
+            {/* Quiet hours */}
+            {notifications.enabled && (
+              <View style={styles.thresholdSection}>
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <View style={styles.labelRow}>
+                      <Moon size={16} color={colors.textSecondary} />
+                      <Text style={styles.settingLabel}>Quiet Hours</Text>
+                    </View>
+                    <Text style={styles.settingDescription}>
+                      {quietHoursEnabled
+                        ? `Alerts are held until ${formatHour(notifications.quietHoursEnd ?? 0)} and sent as one summary`
+                        : 'Hold alerts overnight and get one summary in the morning'}
+                    </Text>
+                  </View>
+                  <Switch
+                    value={quietHoursEnabled}
+                    onValueChange={toggleQuietHours}
+                    trackColor={{ false: colors.border, true: colors.legoRed }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+                {quietHoursEnabled && (
+                  <>
+                    {renderHourStepper('Start', notifications.quietHoursStart ?? DEFAULT_QUIET_START, (hour) =>
+                      setNotificationSettings({ quietHoursStart: hour })
+                    )}
+                    {renderHourStepper('End', notifications.quietHoursEnd ?? DEFAULT_QUIET_END, (hour) =>
+                      setNotificationSettings({ quietHoursEnd: hour })
+                    )}
+                  </>
+                )}
+              </View>
+            )}
+
+            {/* Deal digest */}
+            {notifications.enabled && (
+              <View style={styles.thresholdSection}>
+                <View style={styles.labelRow}>
+                  <Newspaper size={16} color={colors.textSecondary} />
+                  <Text style={styles.settingLabel}>Deal Digest</Text>
+                </View>
+                <Text style={styles.settingDescription}>
+                  {describeDigest(notifications.digestCadence, notifications.digestHour)}
+                </Text>
+                <View style={styles.themeButtons}>
+                  {DIGEST_OPTIONS.map((option) => (
+                    <Pressable
+                      key={option.value}
+                      style={[
+                        styles.themeButton,
+                        notifications.digestCadence === option.value && styles.themeButtonActive,
+                      ]}
+                      onPress={() => setNotificationSettings({ digestCadence: option.value })}
+                    >
+                      <Text
+                        style={[
+                          styles.themeButtonText,
+                          notifications.digestCadence === option.value && styles.themeButtonTextActive,
+                        ]}
+                      >
+                        {option.label}
+                      </Text>
+                    </Pressable>
+                  ))}
+                </View>
+                {notifications.digestCadence !== 'off' &&
+                  renderHourStepper('Delivery time', notifications.digestHour, (hour) =>
+                    setNotificationSettings({ digestHour: hour })
+                  )}
+              </View>
+            )}
+
+            {/* Retirement alerts */}
+            {notifications.enabled && (
+              <View style={styles.thresholdSection}>
+                <View style={styles.settingRow}>
+                  <View style={styles.settingInfo}>
+                    <View style={styles.labelRow}>
+                      <Hourglass size={16} color={colors.textSecondary} />
+                      <Text style={styles.settingLabel}>Retirement Alerts</Text>
+                    </View>
+                    <Text style={styles.settingDescription}>
+                      Get a heads-up when a watched set is about to retire
+                    </Text>
+                  </View>
+                  <Switch
+                    value={notifications.retirementAlerts}
+                    onValueChange={(value) => setNotificationSettings({ retirementAlerts: value })}
+                    trackColor={{ false: colors.border, true: colors.legoRed }}
+                    thumbColor="#FFFFFF"
+                  />
+                </View>
+              </View>
+            )}
           </View>
         </View>
 
@@ -387,6 +559,34 @@ const createStyles = (colors: ThemeColors) => StyleSheet.create({
     flex: 1,
     height: 40,
   },
+  labelRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  hourRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginTop: SPACING.md,
+  },
+  hourStepper: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: SPACING.xs,
+  },
+  hourButton: {
+    padding: SPACING.xs,
+    borderRadius: BORDER_RADIUS.sm,
+    backgroundColor: colors.surfaceLight,
+  },
+  hourValue: {
+    fontSize: 15,
+    fontWeight: '600',
+    color: colors.textPrimary,
+    minWidth: 56,
+    textAlign: 'center',
+  },
   sliderLabel: {
     fontSize: 12,
     fontWeight: '500',
@@ -25,8 +25,9 @@ import {
   limit,
   Timestamp,
   Firestore,
+  DocumentData,
 } from 'firebase/firestore';
-import { Deal, PricePoint, LegoSet, RetailerId } from '../types';
+import { Deal, PricePoint, LegoSet, RetailerId, RetailerOffer, PriceHistoryPoint, Theme } from '../types';
 
 /**
  * Firebase configuration
@@ -79,7 +80,10 @@ const COLLECTIONS = {
   PRICES: 'prices',
   SETS: 'sets',
   DEALS: 'deals',
+  SET_OFFERS: 'set_offers',
   PRICE_HISTORY: 'price_history',
+  CATALOG: 'lego_catalog',
+  THEMES: 'themes',
 };
 
 /**
@@ -107,6 +111,8 @@ export async function getSetPrices(setNumber: string): Promise<PricePoint[]> {
       retailer: data.retailer as RetailerId,
       currentPrice: data.currentPrice,
       originalPrice: data.originalPrice,
+      claimedOriginalPrice: data.claimedOriginalPrice ?? null,
+      listPriceInflated: data.listPriceInflated === true,
       url: data.url,
       lastUpdated: data.lastUpdated.toDate(),
       inStock: data.inStock,
@@ -117,7 +123,56 @@ export async function getSetPrices(setNumber: string): Promise<PricePoint[]> {
 }
 
 /**
- * Get all current deals (sets with discounts)
+ * Turn a set_offers doc into a deal for its best offer, with every
+ * retailer's offer attached (the backend keeps them best first)
+ * @param data - The set_offers document data
+ * @returns Deal for the set
+ */
+function toSetDeal(data: DocumentData): Deal {
+  const offers: RetailerOffer[] = (data.offers ?? []).map((offer: DocumentData) => ({
+    price: {
+      setNumber: data.setNumber,
+      retailer: offer.retailer as RetailerId,
+      currentPrice: offer.currentPrice,
+      originalPrice: offer.originalPrice,
+      claimedOriginalPrice: offer.claimedOriginalPrice ?? null,
+      listPriceInflated: offer.listPriceInflated === true,
+      url: offer.url,
+      lastUpdated: offer.lastUpdated.toDate(),
+      inStock: offer.inStock,
+    },
+    percentOff: offer.percentOff,
+    isDeal: offer.isDeal === true,
+    dealScore: offer.dealScore ?? null,
+  }));
+  const best = offers[0];
+
+  return {
+    set: {
+      setNumber: data.setNumber,
+      name: data.setName,
+      year: data.year,
+      theme: data.theme,
+      themeId: data.themeId,
+      subTheme: data.subTheme ?? null,
+      numParts: data.pieces,
+      imageUrl: data.imageUrl,
+      // Deals are measured against the verified MSRP
+      msrp: best.isDeal ? best.price.originalPrice : null,
+      isActive: data.availability !== 'sold_out',
+      retirementDate: data.retirementDate ?? null,
+      retiringSoon: data.availability === 'retiring_soon',
+    },
+    price: best.price,
+    percentOff: best.percentOff,
+    savings: Math.max(0, Math.round((best.price.originalPrice - best.price.currentPrice) * 100) / 100),
+    dealScore: best.dealScore ?? undefined,
+    offers,
+  };
+}
+
+/**
+ * Get all current deals, one per set with its best offer
  * @param minDiscount - Minimum discount percentage
  * @param limitCount - Maximum number of deals to return
  * @returns Array of deals
@@ -127,51 +182,22 @@ export async function getDeals(
   limitCount: number = 100
 ): Promise<Deal[]> {
   const db = getDb();
-  const dealsRef = collection(db, COLLECTIONS.DEALS);
+  const offersRef = collection(db, COLLECTIONS.SET_OFFERS);
 
+  // Sets whose best offer isn't a deal have bestPercentOff 0
   const q = query(
-    dealsRef,
-    where('percentOff', '>=', minDiscount),
-    orderBy('percentOff', 'desc'),
+    offersRef,
+    where('bestPercentOff', '>=', Math.max(minDiscount, 1)),
+    orderBy('bestPercentOff', 'desc'),
     limit(limitCount)
   );
 
   const snapshot = await getDocs(q);
-  const deals: Deal[] = [];
-
-  snapshot.forEach((doc) => {
-    const data = doc.data();
-    deals.push({
-      set: {
-        setNumber: data.setNumber,
-        name: data.setName,
-        year: data.year,
-        theme: data.theme,
-        themeId: data.themeId,
-        numParts: data.numParts,
-        imageUrl: data.imageUrl,
-        msrp: data.msrp,
-        isActive: true,
-      },
-      price: {
-        setNumber: data.setNumber,
-        retailer: data.retailer as RetailerId,
-        currentPrice: data.currentPrice,
-        originalPrice: data.originalPrice,
-        url: data.url,
-        lastUpdated: data.lastUpdated.toDate(),
-        inStock: data.inStock,
-      },
-      percentOff: data.percentOff,
-      savings: data.savings,
-    });
-  });
-
-  return deals;
+  return snapshot.docs.map((doc) => toSetDeal(doc.data()));
 }
 
 /**
- * Get deals by theme
+ * Get deals by theme, one per set
  * @param themeId - Theme ID
  * @param limitCount - Maximum number of deals
  * @returns Array of deals in the theme
@@ -181,47 +207,18 @@ export async function getDealsByTheme(
   limitCount: number = 50
 ): Promise<Deal[]> {
   const db = getDb();
-  const dealsRef = collection(db, COLLECTIONS.DEALS);
+  const offersRef = collection(db, COLLECTIONS.SET_OFFERS);
 
   const q = query(
-    dealsRef,
+    offersRef,
     where('themeId', '==', themeId),
-    orderBy('percentOff', 'desc'),
+    where('bestPercentOff', '>', 0),
+    orderBy('bestPercentOff', 'desc'),
     limit(limitCount)
   );
 
   const snapshot = await getDocs(q);
-  const deals: Deal[] = [];
-
-  snapshot.forEach((doc) => {
-    const data = doc.data();
-    deals.push({
-      set: {
-        setNumber: data.setNumber,
-        name: data.setName,
-        year: data.year,
-        theme: data.theme,
-        themeId: data.themeId,
-        numParts: data.numParts,
-        imageUrl: data.imageUrl,
-        msrp: data.msrp,
-        isActive: true,
-      },
-      price: {
-        setNumber: data.setNumber,
-        retailer: data.retailer as RetailerId,
-        currentPrice: data.currentPrice,
-        originalPrice: data.originalPrice,
-        url: data.url,
-        lastUpdated: data.lastUpdated.toDate(),
-        inStock: data.inStock,
-      },
-      percentOff: data.percentOff,
-      savings: data.savings,
-    });
-  });
-
-  return deals;
+  return snapshot.docs.map((doc) => toSetDeal(doc.data()));
 }
 
 /**
@@ -233,7 +230,7 @@ export async function getDealsByTheme(
 export async function getPriceHistory(
   setNumber: string,
   days: number = 30
-): Promise<Array<{ date: Date; price: number; retailer: RetailerId }>> {
+): Promise<PriceHistoryPoint[]> {
   const db = getDb();
   const historyRef = collection(db, COLLECTIONS.PRICE_HISTORY);
 
@@ -248,7 +245,7 @@ export async function getPriceHistory(
   );
 
   const snapshot = await getDocs(q);
-  const history: Array<{ date: Date; price: number; retailer: RetailerId }> = [];
+  const history: PriceHistoryPoint[] = [];
 
   snapshot.forEach((doc) => {
     const data = doc.data();
@@ -262,6 +259,55 @@ export async function getPriceHistory(
   return history;
 }
 
+/**
+ * Get a set from the backend catalog
+ * @param setNumber - The set number like "75192-1"
+ * @returns The set, or null if it isn't in the catalog
+ */
+export async function getCatalogSet(setNumber: string): Promise<LegoSet | null> {
+  const db = getDb();
+  const snapshot = await getDoc(doc(db, COLLECTIONS.CATALOG, setNumber));
+
+  if (!snapshot.exists()) return null;
+
+  const data = snapshot.data();
+  return {
+    setNumber: data.setNumber,
+    name: data.name,
+    year: data.year,
+    theme: data.theme,
+    themeId: data.themeId,
+    subTheme: data.subTheme ?? null,
+    numParts: data.pieces,
+    imageUrl: data.imageUrl,
+    msrp: data.msrp ?? null,
+    isActive: data.availability !== 'sold_out',
+    retirementDate: data.retirementDate ?? null,
+    retiringSoon: data.availability === 'retiring_soon',
+  };
+}
+
+/**
+ * Get the full theme tree synced from Rebrickable by the backend
+ * @returns Every theme, root and sub-themes alike
+ */
+export async function getThemes(): Promise<Theme[]> {
+  const db = getDb();
+  const snapshot = await getDocs(collection(db, COLLECTIONS.THEMES));
+  const themes: Theme[] = [];
+
+  snapshot.forEach((doc) => {
+    const data = doc.data();
+    themes.push({
+      id: data.id,
+      name: data.name,
+      parentId: data.parentId ?? null,
+    });
+  });
+
+  return themes;
+}
+
 /**
  * Save a new price point (called by Cloud Functions)
  * This is typically called by the scraper, not the app
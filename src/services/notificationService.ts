@@ -16,30 +16,50 @@ import * as Device from 'expo-device';
 import Constants from 'expo-constants';
 import { Platform } from 'react-native';
 import { getFirestore, doc, setDoc, Timestamp } from 'firebase/firestore';
+import { DigestCadence, SetTarget } from '../types';
 
 // ============================================
 // TYPES
 // ============================================
 
 export interface NotificationData {
-  type: 'deal_alert' | 'price_drop' | 'back_in_stock' | 'general';
+  type: 'deal_alert' | 'price_drop' | 'back_in_stock' | 'target_reached' | 'retiring_soon' | 'summary' | 'digest' | 'general';
   setNumber?: string;
   setName?: string;
   retailer?: string;
   percentOff?: number;
   currentPrice?: number;
   url?: string;
+  /** Digest only: Home filters to open with */
+  minDiscount?: number;
+  themeIds?: number[];
 }
 
-export interface PushTokenData {
-  token: string;
-  platform: 'ios' | 'android';
-  deviceId: string;
-  lastUpdated: Date;
+/**
+ * Notification preferences synced to the device's push_tokens doc
+ */
+export interface NotificationPreferences {
   notificationsEnabled: boolean;
   minDiscountThreshold: number;
   watchedThemes: number[];
   watchedSets: string[];
+  mutedSets: string[];
+  mutedThemes: number[];
+  setTargets: Record<string, SetTarget>;
+  quietHoursStart: number | null;
+  quietHoursEnd: number | null;
+  /** IANA timezone the quiet hours and digest hour are in */
+  timezone: string;
+  digestCadence: DigestCadence;
+  digestHour: number;
+  retirementAlerts: boolean;
+}
+
+export interface PushTokenData extends NotificationPreferences {
+  token: string;
+  platform: 'ios' | 'android';
+  deviceId: string;
+  lastUpdated: Date;
 }
 
 // ============================================
@@ -181,12 +201,7 @@ export async function getExpoPushToken(): Promise<string | null> {
  */
 export async function registerPushToken(
   token: string,
-  settings: {
-    notificationsEnabled: boolean;
-    minDiscountThreshold: number;
-    watchedThemes: number[];
-    watchedSets: string[];
-  }
+  settings: NotificationPreferences
 ): Promise<void> {
   try {
     const db = getFirestore();
@@ -197,10 +212,7 @@ export async function registerPushToken(
       platform: Platform.OS as 'ios' | 'android',
       deviceId,
       lastUpdated: new Date(),
-      notificationsEnabled: settings.notificationsEnabled,
-      minDiscountThreshold: settings.minDiscountThreshold,
-      watchedThemes: settings.watchedThemes,
-      watchedSets: settings.watchedSets,
+      ...settings,
     };
 
     // Store token in Firestore
@@ -220,12 +232,7 @@ export async function registerPushToken(
  */
 export async function updateNotificationPreferences(
   token: string,
-  settings: {
-    notificationsEnabled: boolean;
-    minDiscountThreshold: number;
-    watchedThemes: number[];
-    watchedSets: string[];
-  }
+  settings: NotificationPreferences
 ): Promise<void> {
   try {
     const db = getFirestore();
@@ -233,10 +240,7 @@ export async function updateNotificationPreferences(
     await setDoc(
       doc(db, 'push_tokens', token),
       {
-        notificationsEnabled: settings.notificationsEnabled,
-        minDiscountThreshold: settings.minDiscountThreshold,
-        watchedThemes: settings.watchedThemes,
-        watchedSets: settings.watchedSets,
+        ...settings,
         lastUpdated: Timestamp.now(),
       },
       { merge: true }
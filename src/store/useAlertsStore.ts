@@ -0,0 +1,69 @@
+// ============================================
+// BRICK DEAL HUNTER - ALERTS STORE
+// ============================================
+// Zustand store for the notification history shown
+// on the Alerts tab. Persisted to AsyncStorage so the
+// feed survives app restarts.
+
+import { create } from 'zustand';
+import { persist, createJSONStorage } from 'zustand/middleware';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ReceivedNotification } from '../types';
+
+/**
+ * Maximum notifications kept in the history feed
+ */
+const MAX_HISTORY = 100;
+
+/**
+ * State shape for the alerts store
+ */
+interface AlertsState {
+  // ===== DATA =====
+  /** Received notifications, newest first */
+  history: ReceivedNotification[];
+
+  // ===== ACTIONS =====
+  /** Add a received notification (ignored if already recorded) */
+  addNotification: (notification: ReceivedNotification) => void;
+  /** Remove one notification from the history */
+  removeNotification: (id: string) => void;
+  /** Clear the whole history */
+  clearHistory: () => void;
+}
+
+/**
+ * The alerts store with persistence
+ *
+ * Usage:
+ * const history = useAlertsStore((state) => state.history);
+ * const clearHistory = useAlertsStore((state) => state.clearHistory);
+ */
+export const useAlertsStore = create<AlertsState>()(
+  persist(
+    (set) => ({
+      history: [],
+
+      addNotification: (notification) =>
+        set((state) => {
+          if (state.history.some((item) => item.id === notification.id)) {
+            return state;
+          }
+          return {
+            history: [notification, ...state.history].slice(0, MAX_HISTORY),
+          };
+        }),
+
+      removeNotification: (id) =>
+        set((state) => ({
+          history: state.history.filter((item) => item.id !== id),
+        })),
+
+      clearHistory: () => set({ history: [] }),
+    }),
+    {
+      name: 'brick-deal-hunter-alerts',
+      storage: createJSONStorage(() => AsyncStorage),
+    }
+  )
+);
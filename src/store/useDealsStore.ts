@@ -5,6 +5,7 @@
 // This is where we store all the LEGO deals
 // fetched from our backend/APIs.
 
+import { useMemo } from 'react';
 import { create } from 'zustand';
 import { Deal, LegoSet, LoadingState, SortOption, Theme } from '../types';
 import { sortDeals, filterDeals } from '../utils/priceCalculations';
@@ -83,7 +84,7 @@ const initialState = {
   dealsError: null,
   setsError: null,
   lastUpdated: null,
-  sortOption: 'discount_high' as SortOption,
+  sortOption: 'score_high' as SortOption,
 };
 
 /**
@@ -184,11 +185,11 @@ export function useDealBySetNumber(setNumber: string): Deal | undefined {
 }
 
 /**
- * Get top N deals by discount
+ * Get top N deals by deal score
  */
 export function useTopDeals(count: number = 10): Deal[] {
   const deals = useDealsStore((state) => state.deals);
-  return sortDeals(deals, 'discount_high').slice(0, count);
+  return sortDeals(deals, 'score_high').slice(0, count);
 }
 
 /**
@@ -206,3 +207,19 @@ export function useThemeById(themeId: number): Theme | undefined {
   const themes = useDealsStore((state) => state.themes);
   return themes.find((t) => t.id === themeId);
 }
+
+/**
+ * Root themes that currently have deals, sorted by name (for the theme filter)
+ * Empty until themes have loaded.
+ */
+export function useDealThemes(): Theme[] {
+  const themes = useDealsStore((state) => state.themes);
+  const deals = useDealsStore((state) => state.deals);
+
+  return useMemo(() => {
+    const dealThemeIds = new Set(deals.map((deal) => deal.set.themeId));
+    return themes
+      .filter((theme) => theme.parentId === null && dealThemeIds.has(theme.id))
+      .sort((a, b) => a.name.localeCompare(b.name));
+  }, [themes, deals]);
+}
@@ -8,7 +8,7 @@
 import { create } from 'zustand';
 import { persist, createJSONStorage } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { AppSettings, NotificationSettings, SortOption } from '../types';
+import { AppSettings, NotificationSettings, SetTarget, SortOption } from '../types';
 
 /**
  * State shape for the settings store
@@ -30,6 +30,12 @@ interface SettingsState extends AppSettings {
   addWatchedSet: (setNumber: string) => void;
   /** Remove a set from watched sets */
   removeWatchedSet: (setNumber: string) => void;
+  /** Mute or unmute alerts for a watched set */
+  toggleMuteSet: (setNumber: string) => void;
+  /** Mute or unmute alerts for a watched theme */
+  toggleMuteTheme: (themeId: number) => void;
+  /** Set or clear (null) the target price for a watched set */
+  setSetTarget: (setNumber: string, target: SetTarget | null) => void;
   /** Mark onboarding as complete */
   completeOnboarding: () => void;
   /** Set default sort option */
@@ -50,8 +56,14 @@ const defaultSettings: AppSettings = {
     minDiscountThreshold: 20, // Notify for 20%+ off by default
     watchedThemes: [],
     watchedSets: [],
+    mutedSets: [],
+    mutedThemes: [],
+    setTargets: {},
     quietHoursStart: null,
     quietHoursEnd: null,
+    digestCadence: 'off',
+    digestHour: 9,
+    retirementAlerts: false,
   },
   hasCompletedOnboarding: false,
   defaultSort: 'discount_high',
@@ -118,6 +130,9 @@ export const useSettingsStore = create<SettingsState>()(
             watchedThemes: state.notifications.watchedThemes.filter(
               (id) => id !== themeId
             ),
+            mutedThemes: state.notifications.mutedThemes.filter(
+              (id) => id !== themeId
+            ),
           },
         })),
 
@@ -135,14 +150,58 @@ export const useSettingsStore = create<SettingsState>()(
         }),
 
       removeWatchedSet: (setNumber) =>
-        set((state) => ({
-          notifications: {
-            ...state.notifications,
-            watchedSets: state.notifications.watchedSets.filter(
-              (num) => num !== setNumber
-            ),
-          },
-        })),
+        set((state) => {
+          const { [setNumber]: _removed, ...setTargets } = state.notifications.setTargets;
+          return {
+            notifications: {
+              ...state.notifications,
+              watchedSets: state.notifications.watchedSets.filter(
+                (num) => num !== setNumber
+              ),
+              mutedSets: state.notifications.mutedSets.filter(
+                (num) => num !== setNumber
+              ),
+              setTargets,
+            },
+          };
+        }),
+
+      toggleMuteSet: (setNumber) =>
+        set((state) => {
+          const { mutedSets } = state.notifications;
+          return {
+            notifications: {
+              ...state.notifications,
+              mutedSets: mutedSets.includes(setNumber)
+                ? mutedSets.filter((num) => num !== setNumber)
+                : [...mutedSets, setNumber],
+            },
+          };
+        }),
+
+      toggleMuteTheme: (themeId) =>
+        set((state) => {
+          const { mutedThemes } = state.notifications;
+          return {
+            notifications: {
+              ...state.notifications,
+              mutedThemes: mutedThemes.includes(themeId)
+                ? mutedThemes.filter((id) => id !== themeId)
+                : [...mutedThemes, themeId],
+            },
+          };
+        }),
+
+      setSetTarget: (setNumber, target) =>
+        set((state) => {
+          const { [setNumber]: _previous, ...setTargets } = state.notifications.setTargets;
+          return {
+            notifications: {
+              ...state.notifications,
+              setTargets: target ? { ...setTargets, [setNumber]: target } : setTargets,
+            },
+          };
+        }),
 
       completeOnboarding: () => set({ hasCompletedOnboarding: true }),
 
@@ -162,6 +221,15 @@ export const useSettingsStore = create<SettingsState>()(
         defaultSort: state.defaultSort,
         colorScheme: state.colorScheme,
       }),
+      // Fill in notification fields added after the settings were first saved
+      merge: (persisted, current) => {
+        const saved = (persisted || {}) as Partial<AppSettings>;
+        return {
+          ...current,
+          ...saved,
+          notifications: { ...current.notifications, ...saved.notifications },
+        };
+      },
     }
   )
 );
@@ -179,6 +247,22 @@ export function useIsSetWatched(setNumber: string): boolean {
   );
 }
 
+/**
+ * Check if alerts for a watched set are muted
+ */
+export function useIsSetMuted(setNumber: string): boolean {
+  return useSettingsStore((state) =>
+    state.notifications.mutedSets.includes(setNumber)
+  );
+}
+
+/**
+ * Get the target price for a watched set (undefined if none)
+ */
+export function useSetTarget(setNumber: string): SetTarget | undefined {
+  return useSettingsStore((state) => state.notifications.setTargets[setNumber]);
+}
+
 /**
  * Check if a theme is being watched
  */
@@ -5,6 +5,8 @@
 // used throughout the app. Think of types as
 // "blueprints" that describe what data looks like.
 
+import { NavigatorScreenParams } from '@react-navigation/native';
+
 /**
  * A LEGO set from the Rebrickable API
  */
@@ -19,6 +21,8 @@ export interface LegoSet {
   theme: string;
   /** Theme ID from Rebrickable */
   themeId: number;
+  /** Sub-theme under the root theme, like "Ultimate Collector Series" */
+  subTheme?: string | null;
   /** Number of pieces in the set */
   numParts: number;
   /** URL to official set image */
@@ -27,6 +31,10 @@ export interface LegoSet {
   msrp: number | null;
   /** Whether the set is currently available (not retired) */
   isActive: boolean;
+  /** Expected retirement date (YYYY-MM-DD), if known */
+  retirementDate?: string | null;
+  /** Whether the set retires within the next few months */
+  retiringSoon?: boolean;
 }
 
 /**
@@ -51,8 +59,12 @@ export interface PricePoint {
   retailer: RetailerId;
   /** Current sale price in USD */
   currentPrice: number;
-  /** Original/MSRP price in USD */
+  /** Verified reference price in USD (MSRP, or recent prices at this retailer) */
   originalPrice: number;
+  /** The retailer's own list price, if it showed one */
+  claimedOriginalPrice?: number | null;
+  /** The retailer's list price is higher than the MSRP or its recent prices */
+  listPriceInflated?: boolean;
   /** Direct link to buy */
   url: string;
   /** When this price was last checked */
@@ -73,6 +85,42 @@ export interface Deal {
   percentOff: number;
   /** Discount amount in dollars */
   savings: number;
+  /** Backend deal quality score, 0-100 (missing for locally generated deals) */
+  dealScore?: number;
+  /** What went into the score */
+  dealScoreFactors?: DealScoreFactors;
+  /** Every retailer's current offer for the set, best first (one card per set) */
+  offers?: RetailerOffer[];
+}
+
+/**
+ * One retailer's current offer for a set, from the backend's per-set offers
+ */
+export interface RetailerOffer {
+  price: PricePoint;
+  /** Percent off the verified reference price */
+  percentOff: number;
+  /** Whether this offer is currently a deal */
+  isDeal: boolean;
+  /** Deal score, null if the offer isn't a deal */
+  dealScore: number | null;
+}
+
+/**
+ * Parts of a deal's quality score, each 0-100
+ * null means there wasn't enough data for that factor yet
+ */
+export interface DealScoreFactors {
+  /** Percent off the verified MSRP */
+  discount: number;
+  /** How close the price is to the set's lowest recorded price */
+  historicalLow: number | null;
+  /** Price per piece against the theme's median */
+  pricePerPiece: number | null;
+  /** 100 if the set is retiring soon */
+  retirement: number;
+  /** How rarely this retailer discounts the set */
+  rarity: number | null;
 }
 
 /**
@@ -144,6 +192,7 @@ export interface FilterState {
  * Sort options for deal list
  */
 export type SortOption =
+  | 'score_high'
   | 'discount_high'
   | 'discount_low'
   | 'price_high'
@@ -152,6 +201,20 @@ export type SortOption =
   | 'name_desc'
   | 'newest';
 
+/**
+ * How often the deal digest is sent ('off' = instant alerts only)
+ */
+export type DigestCadence = 'off' | 'daily' | 'weekly';
+
+/**
+ * Per-set alert target
+ * 'price' = alert at or below a dollar amount, 'percent' = alert at this % off or more
+ */
+export interface SetTarget {
+  type: 'price' | 'percent';
+  value: number;
+}
+
 /**
  * User's notification preferences
  */
@@ -164,10 +227,40 @@ export interface NotificationSettings {
   watchedThemes: number[];
   /** Specific set numbers to watch */
   watchedSets: string[];
+  /** Watched sets whose alerts are temporarily muted */
+  mutedSets: string[];
+  /** Watched themes whose alerts are temporarily muted */
+  mutedThemes: number[];
+  /** Target price per watched set, keyed by set number */
+  setTargets: Record<string, SetTarget>;
   /** Quiet hours start (0-23) */
   quietHoursStart: number | null;
   /** Quiet hours end (0-23) */
   quietHoursEnd: number | null;
+  /** Deal digest cadence (weekly digests arrive on Sundays) */
+  digestCadence: DigestCadence;
+  /** Local hour the digest arrives (0-23) */
+  digestHour: number;
+  /** Alert when a watched set is about to retire */
+  retirementAlerts: boolean;
+}
+
+/**
+ * A push notification the device received, kept for the Alerts feed
+ */
+export interface ReceivedNotification {
+  /** Notification identifier (used to avoid duplicates) */
+  id: string;
+  /** Notification title */
+  title: string;
+  /** Notification body text */
+  body: string;
+  /** Notification type from the backend ('deal', 'price_drop', ...) */
+  type: string | null;
+  /** Set the notification is about, if any */
+  setNumber: string | null;
+  /** When the notification arrived (ms since epoch) */
+  receivedAt: number;
 }
 
 /**
@@ -246,7 +339,7 @@ export interface BrickLinkPriceGuide {
 export type RootStackParamList = {
   Splash: undefined;
   Onboarding: undefined;
-  Main: undefined;
+  Main: NavigatorScreenParams<MainTabParamList> | undefined;
   SetDetail: { setNumber: string };
   Settings: undefined;
   Alerts: undefined;
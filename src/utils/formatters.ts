@@ -83,6 +83,18 @@ export function formatDate(date: Date): string {
   }).format(date);
 }
 
+/**
+ * Format a date as month and day
+ * @param date - The date to format
+ * @returns Formatted string like "Jan 15"
+ */
+export function formatShortDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+  }).format(date);
+}
+
 /**
  * Format a date as date and time
  * @param date - The date to format
@@ -99,6 +111,17 @@ export function formatDateTime(date: Date): string {
   }).format(date);
 }
 
+/**
+ * Format an hour of the day
+ * @param hour - Hour from 0-23
+ * @returns Formatted string like "10 PM"
+ */
+export function formatHour(hour: number): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour} ${suffix}`;
+}
+
 /**
  * Format set number for display
  * @param setNumber - The set number like "75192-1"
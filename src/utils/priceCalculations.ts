@@ -4,7 +4,7 @@
 // Helper functions for calculating discounts,
 // savings, and formatting price data.
 
-import { Deal, LegoSet, PricePoint } from '../types';
+import { Deal, LegoSet, PricePoint, PriceHistoryPoint, SetTarget, SortOption } from '../types';
 
 /**
  * Calculate the percentage discount
@@ -78,6 +78,17 @@ export function findBestPrice(prices: PricePoint[]): PricePoint | null {
   });
 }
 
+/**
+ * Find the lowest recorded price in a price history
+ * @param history - Price history points (any retailers)
+ * @returns The cheapest point, or null if history is empty
+ */
+export function findAllTimeLow(history: PriceHistoryPoint[]): PriceHistoryPoint | null {
+  if (history.length === 0) return null;
+
+  return history.reduce((low, point) => (point.price < low.price ? point : low));
+}
+
 /**
  * Sort deals by various criteria
  * @param deals - Array of deals to sort
@@ -86,11 +97,16 @@ export function findBestPrice(prices: PricePoint[]): PricePoint | null {
  */
 export function sortDeals(
   deals: Deal[],
-  sortBy: 'discount_high' | 'discount_low' | 'price_high' | 'price_low' | 'name_asc' | 'name_desc' | 'newest'
+  sortBy: SortOption
 ): Deal[] {
   const sorted = [...deals];
 
   switch (sortBy) {
+    case 'score_high':
+      // Deals without a score (local fallback data) go last, by discount
+      return sorted.sort((a, b) =>
+        (b.dealScore ?? -1) - (a.dealScore ?? -1) || b.percentOff - a.percentOff
+      );
     case 'discount_high':
       return sorted.sort((a, b) => b.percentOff - a.percentOff);
     case 'discount_low':
@@ -144,9 +160,11 @@ export function filterDeals(
       }
     }
 
-    // Filter by retailers
-    if (filters.retailers && filters.retailers.length > 0) {
-      if (!filters.retailers.includes(deal.price.retailer)) {
+    // Filter by retailers (a set matches if any retailer it's offered at does)
+    const selectedRetailers = filters.retailers;
+    if (selectedRetailers && selectedRetailers.length > 0) {
+      const retailers = deal.offers?.map((offer) => offer.price.retailer) ?? [deal.price.retailer];
+      if (!retailers.some((retailer) => selectedRetailers.includes(retailer))) {
         return false;
       }
     }
@@ -169,18 +187,50 @@ export function filterDeals(
 }
 
 /**
- * Get deal quality rating based on discount
- * @param percentOff - The discount percentage
+ * Get deal quality rating
+ * Uses the backend deal score when there is one, otherwise the discount alone.
+ * @param deal - The deal's discount and score
  * @returns Rating string
  */
-export function getDealRating(percentOff: number): 'amazing' | 'great' | 'good' | 'mild' | 'none' {
-  if (percentOff >= 60) return 'amazing';
-  if (percentOff >= 40) return 'great';
-  if (percentOff >= 20) return 'good';
-  if (percentOff >= 10) return 'mild';
+export function getDealRating(
+  deal: Pick<Deal, 'percentOff' | 'dealScore'>
+): 'amazing' | 'great' | 'good' | 'mild' | 'none' {
+  if (deal.dealScore !== undefined) {
+    if (deal.dealScore >= 85) return 'amazing';
+    if (deal.dealScore >= 70) return 'great';
+    if (deal.dealScore >= 50) return 'good';
+    if (deal.dealScore >= 30) return 'mild';
+    return 'none';
+  }
+
+  if (deal.percentOff >= 60) return 'amazing';
+  if (deal.percentOff >= 40) return 'great';
+  if (deal.percentOff >= 20) return 'good';
+  if (deal.percentOff >= 10) return 'mild';
   return 'none';
 }
 
+/**
+ * Calculate the price a set must reach to hit a percent-off target
+ * @param msrp - The set's MSRP
+ * @param percentOff - Target discount percentage
+ * @returns Target price in USD
+ */
+export function calculateTargetPrice(msrp: number, percentOff: number): number {
+  return Math.round(msrp * (1 - percentOff / 100) * 100) / 100;
+}
+
+/**
+ * Resolve a per-set target to a dollar amount
+ * @param target - The set's alert target
+ * @param msrp - The set's MSRP (needed for percent targets)
+ * @returns Target price in USD, or null if it can't be worked out
+ */
+export function resolveTargetPrice(target: SetTarget, msrp: number | null): number | null {
+  if (target.type === 'price') return target.value;
+  return msrp ? calculateTargetPrice(msrp, target.value) : null;
+}
+
 /**
  * Calculate price per piece (useful for comparing sets)
  * @param price - Current price